@@ -0,0 +1,22 @@
+/**
+ * Generate Tool Docs
+ *
+ * Rewrites the tool list in README.md from the tool registry. Run it with
+ * `bun run docs` after adding, renaming or removing a tool; the test suite
+ * fails while the README is out of date.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { getToolCatalogue } from '../src/server.js';
+import { renderToolsMarkdown, replaceToolDocs } from '../src/tools/index.js';
+
+const path = new URL('../README.md', import.meta.url);
+const readme = readFileSync(path, 'utf8');
+const updated = replaceToolDocs(readme, renderToolsMarkdown(getToolCatalogue()));
+
+if (updated === readme) {
+  console.log('README.md tool list is up to date');
+} else {
+  writeFileSync(path, updated);
+  console.log('Updated the tool list in README.md');
+}
@@ -0,0 +1,2 @@
+export * from './oauth.js';
+export * from './vault.js';
@@ -0,0 +1,685 @@
+/**
+ * OAuth Authorization Server
+ *
+ * Lets MCP clients connect without handling Cloudflare API tokens, following
+ * the MCP authorization spec (OAuth 2.1 with PKCE, dynamic client registration
+ * and protected resource metadata).
+ *
+ * Users sign in with an upstream identity provider. The server maps the
+ * provider's user ID to Cloudflare credentials the operator has stored, and
+ * issues its own opaque access and refresh tokens for them. Tokens are kept
+ * (hashed) in a KeyValueStore, so they can be revoked here: through /revoke,
+ * or for every token of a user by removing their stored credentials, which are
+ * looked up again on every request.
+ *
+ * Endpoints:
+ * - GET  /.well-known/oauth-protected-resource   (RFC 9728)
+ * - GET  /.well-known/oauth-authorization-server (RFC 8414)
+ * - POST /register        Dynamic client registration (RFC 7591)
+ * - GET  /authorize       Consent page; POST /authorize continues to the identity provider
+ * - GET  /oauth/callback  Identity provider redirect; issues the authorization code
+ * - POST /token           authorization_code (PKCE S256) and refresh_token grants
+ * - POST /revoke          Token revocation (RFC 7009)
+ */
+
+import type { TenantCredentials } from '../types/env.js';
+import { encodeBase64Url } from '../utils/signing.js';
+import { type KeyValueStore, sha256Hex } from '../utils/store.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Upstream OAuth 2.0 identity provider that signs users in
+ */
+export interface IdentityProviderConfig {
+  authorizeUrl: string;
+  tokenUrl: string;
+  /** Returns the signed-in user as JSON with a "sub" claim */
+  userInfoUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  /** Scope requested from the provider (default: "openid") */
+  scope?: string;
+}
+
+export interface OAuthServerOptions {
+  idp: IdentityProviderConfig;
+
+  /** Registered clients, pending authorizations and issued tokens */
+  store: KeyValueStore;
+
+  /** Cloudflare credentials stored for an identity provider user, if any */
+  credentials(userId: string): Promise<TenantCredentials | undefined>;
+
+  /** Transport for identity provider requests (default: global fetch) */
+  fetch?: typeof fetch;
+
+  /** Token lifetimes in seconds (defaults: OAUTH_TTL_SECONDS) */
+  ttls?: Partial<typeof OAUTH_TTL_SECONDS>;
+}
+
+/**
+ * Default lifetimes, in seconds
+ */
+export const OAUTH_TTL_SECONDS = {
+  client: 365 * 24 * 60 * 60,
+  authorizationRequest: 10 * 60,
+  authorizationCode: 60,
+  accessToken: 60 * 60,
+  refreshToken: 30 * 24 * 60 * 60,
+};
+
+/**
+ * Cookie binding a browser to the authorization request it consented to
+ */
+const REQUEST_COOKIE = 'oauth_request';
+
+const CALLBACK_PATH = '/oauth/callback';
+
+// =============================================================================
+// Stored Records
+// =============================================================================
+
+interface RegisteredClient {
+  client_id: string;
+  client_name?: string;
+  redirect_uris: string[];
+  client_id_issued_at: number;
+}
+
+interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  state?: string;
+  codeChallenge: string;
+  resource?: string;
+}
+
+/**
+ * A grant: what an authorization code, access token or refresh token stands for
+ */
+interface Grant {
+  userId: string;
+  clientId: string;
+  resource?: string;
+}
+
+interface AuthorizationCode extends Grant {
+  redirectUri: string;
+  codeChallenge: string;
+}
+
+/**
+ * Error returned to the client as an RFC 6749 error response
+ */
+class OAuthError extends Error {
+  public code: string;
+  public status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.name = 'OAuthError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+export class OAuthServer {
+  private options: OAuthServerOptions;
+  private ttls: typeof OAUTH_TTL_SECONDS;
+
+  constructor(options: OAuthServerOptions) {
+    this.options = options;
+    this.ttls = { ...OAUTH_TTL_SECONDS, ...options.ttls };
+  }
+
+  /**
+   * Handle a request to one of the OAuth endpoints; undefined for any other path
+   */
+  async handle(request: Request): Promise<Response | undefined> {
+    const url = new URL(request.url);
+    const route = `${request.method} ${url.pathname}`;
+    try {
+      switch (route) {
+        case 'GET /.well-known/oauth-protected-resource':
+        case 'GET /.well-known/oauth-protected-resource/mcp':
+        case 'GET /.well-known/oauth-protected-resource/sse':
+          return json(this.resourceMetadata(url));
+        case 'GET /.well-known/oauth-authorization-server':
+          return json(this.authorizationServerMetadata(url));
+        case 'POST /register':
+          return await this.register(request);
+        case 'GET /authorize':
+          return await this.showConsent(url);
+        case 'POST /authorize':
+          return await this.approve(request, url);
+        case `GET ${CALLBACK_PATH}`:
+          return await this.callback(request, url);
+        case 'POST /token':
+          return await this.token(request);
+        case 'POST /revoke':
+          return await this.revoke(request);
+        default:
+          return undefined;
+      }
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        return json({ error: error.code, error_description: error.message }, error.status);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The Cloudflare credentials for the request's bearer token; undefined when
+   * the token is unknown, expired or revoked, or the user's credentials were removed
+   */
+  async authenticate(request: Request): Promise<TenantCredentials | undefined> {
+    const token = parseBearerToken(request);
+    if (!token) return undefined;
+
+    const grant = await this.read<Grant>(`oauth:access:${await sha256Hex(token)}`);
+    if (!grant) return undefined;
+    return this.options.credentials(grant.userId);
+  }
+
+  /**
+   * WWW-Authenticate challenge pointing clients at the resource metadata
+   */
+  challenge(request: Request, error?: 'invalid_token'): string {
+    const metadata = `${new URL(request.url).origin}/.well-known/oauth-protected-resource`;
+    const params = [`resource_metadata="${metadata}"`];
+    if (error) {
+      params.push(`error="${error}"`);
+    }
+    return `Bearer ${params.join(', ')}`;
+  }
+
+  // ===========================================================================
+  // Metadata
+  // ===========================================================================
+
+  /**
+   * Metadata for the whole server, or for /mcp or /sse when requested under
+   * that path, so the resource matches the URL the client connects to
+   */
+  private resourceMetadata(url: URL): Record<string, unknown> {
+    const path = url.pathname.replace('/.well-known/oauth-protected-resource', '');
+    return {
+      resource: `${url.origin}${path}`,
+      authorization_servers: [url.origin],
+      bearer_methods_supported: ['header'],
+    };
+  }
+
+  private authorizationServerMetadata(url: URL): Record<string, unknown> {
+    return {
+      issuer: url.origin,
+      authorization_endpoint: `${url.origin}/authorize`,
+      token_endpoint: `${url.origin}/token`,
+      registration_endpoint: `${url.origin}/register`,
+      revocation_endpoint: `${url.origin}/revoke`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['none'],
+      revocation_endpoint_auth_methods_supported: ['none'],
+    };
+  }
+
+  // ===========================================================================
+  // Client Registration
+  // ===========================================================================
+
+  private async register(request: Request): Promise<Response> {
+    let metadata: { redirect_uris?: unknown; client_name?: unknown };
+    try {
+      metadata = (await request.json()) as typeof metadata;
+    } catch {
+      throw new OAuthError('invalid_client_metadata', 'Body must be a JSON object');
+    }
+
+    const redirectUris = metadata.redirect_uris;
+    if (
+      !Array.isArray(redirectUris) ||
+      redirectUris.length === 0 ||
+      !redirectUris.every((uri) => typeof uri === 'string' && isAllowedRedirectUri(uri))
+    ) {
+      throw new OAuthError(
+        'invalid_redirect_uri',
+        'redirect_uris must list HTTPS or localhost URLs without a fragment'
+      );
+    }
+
+    const client: RegisteredClient = {
+      client_id: randomToken(),
+      client_name: typeof metadata.client_name === 'string' ? metadata.client_name : undefined,
+      redirect_uris: redirectUris,
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+    };
+    await this.options.store.put(`oauth:client:${client.client_id}`, JSON.stringify(client), {
+      expirationTtl: this.ttls.client,
+    });
+
+    return json(
+      {
+        ...client,
+        token_endpoint_auth_method: 'none',
+        grant_types: ['authorization_code', 'refresh_token'],
+        response_types: ['code'],
+      },
+      201
+    );
+  }
+
+  // ===========================================================================
+  // Authorization
+  // ===========================================================================
+
+  /**
+   * Check the authorization request and ask the user to approve it. Errors
+   * about the client or redirect URI are shown here rather than redirected,
+   * since the redirect URI can't be trusted yet.
+   */
+  private async showConsent(url: URL): Promise<Response> {
+    const params = url.searchParams;
+    const client = await this.client(params.get('client_id'));
+    const redirectUri = params.get('redirect_uri') ?? '';
+    if (!client.redirect_uris.includes(redirectUri)) {
+      throw new OAuthError('invalid_request', 'redirect_uri is not registered for this client');
+    }
+
+    const state = params.get('state') ?? undefined;
+    const fail = (code: string, description: string) =>
+      redirect(redirectUri, { error: code, error_description: description, state });
+    if (params.get('response_type') !== 'code') {
+      return fail('unsupported_response_type', 'response_type must be "code"');
+    }
+    const codeChallenge = params.get('code_challenge');
+    if (!codeChallenge || params.get('code_challenge_method') !== 'S256') {
+      return fail('invalid_request', 'PKCE is required: send code_challenge with method S256');
+    }
+    const resource = params.get('resource') ?? undefined;
+    if (resource && resourceOrigin(resource, url) !== url.origin) {
+      return fail('invalid_target', 'resource must be this server');
+    }
+
+    const requestId = randomToken();
+    const pending: AuthorizationRequest = {
+      clientId: client.client_id,
+      redirectUri,
+      state,
+      codeChallenge,
+      resource,
+    };
+    await this.options.store.put(`oauth:request:${requestId}`, JSON.stringify(pending), {
+      expirationTtl: this.ttls.authorizationRequest,
+    });
+
+    return new Response(consentPage(client, redirectUri, requestId), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Set-Cookie': this.requestCookie(url, requestId, this.ttls.authorizationRequest),
+        'Cache-Control': 'no-store',
+        'X-Frame-Options': 'DENY',
+        // No form-action: browsers apply it to the redirects after the form posts, which go
+        // to the identity provider or the client's redirect URI
+        'Content-Security-Policy': "default-src 'none'; frame-ancestors 'none'",
+      },
+    });
+  }
+
+  /**
+   * The user's answer on the consent page. The request ID must match the
+   * cookie set with the page, so another site can't submit the form for them.
+   */
+  private async approve(request: Request, url: URL): Promise<Response> {
+    const form = await readForm(request);
+    const requestId = String(form.get('request') ?? '');
+    if (!requestId || parseCookie(request, REQUEST_COOKIE) !== requestId) {
+      throw new OAuthError('access_denied', 'Authorization request does not match this browser');
+    }
+    const pending = await this.read<AuthorizationRequest>(`oauth:request:${requestId}`);
+    if (!pending) {
+      throw new OAuthError('invalid_request', 'Authorization request expired; start again');
+    }
+
+    if (form.get('decision') !== 'allow') {
+      await this.options.store.delete(`oauth:request:${requestId}`);
+      return redirect(pending.redirectUri, {
+        error: 'access_denied',
+        error_description: 'The user denied the request',
+        state: pending.state,
+      });
+    }
+
+    const { idp } = this.options;
+    return redirect(idp.authorizeUrl, {
+      response_type: 'code',
+      client_id: idp.clientId,
+      redirect_uri: `${url.origin}${CALLBACK_PATH}`,
+      scope: idp.scope ?? 'openid',
+      state: requestId,
+    });
+  }
+
+  /**
+   * The identity provider's redirect back: sign the user in, check they have
+   * stored credentials, and hand the client an authorization code
+   */
+  private async callback(request: Request, url: URL): Promise<Response> {
+    const requestId = url.searchParams.get('state') ?? '';
+    if (!requestId || parseCookie(request, REQUEST_COOKIE) !== requestId) {
+      throw new OAuthError('access_denied', 'Authorization request does not match this browser');
+    }
+    const key = `oauth:request:${requestId}`;
+    const pending = await this.read<AuthorizationRequest>(key);
+    if (!pending) {
+      throw new OAuthError('invalid_request', 'Authorization request expired; start again');
+    }
+    await this.options.store.delete(key);
+
+    const fail = (code: string, description: string) => {
+      const response = redirect(pending.redirectUri, {
+        error: code,
+        error_description: description,
+        state: pending.state,
+      });
+      response.headers.append('Set-Cookie', this.requestCookie(url, '', 0));
+      return response;
+    };
+
+    const idpCode = url.searchParams.get('code');
+    if (!idpCode) {
+      return fail('access_denied', url.searchParams.get('error') ?? 'Sign-in was cancelled');
+    }
+    let userId: string;
+    try {
+      userId = await this.signIn(idpCode, `${url.origin}${CALLBACK_PATH}`);
+    } catch (error) {
+      return fail('server_error', error instanceof Error ? error.message : 'Sign-in failed');
+    }
+    if (!(await this.options.credentials(userId))) {
+      return fail('access_denied', 'No Cloudflare credentials are linked to this account');
+    }
+
+    const code = randomToken();
+    const grant: AuthorizationCode = {
+      userId,
+      clientId: pending.clientId,
+      resource: pending.resource,
+      redirectUri: pending.redirectUri,
+      codeChallenge: pending.codeChallenge,
+    };
+    await this.options.store.put(`oauth:code:${await sha256Hex(code)}`, JSON.stringify(grant), {
+      expirationTtl: this.ttls.authorizationCode,
+    });
+    const response = redirect(pending.redirectUri, { code, state: pending.state });
+    response.headers.append('Set-Cookie', this.requestCookie(url, '', 0));
+    return response;
+  }
+
+  /**
+   * Exchange the identity provider's code and return the user's ID ("sub")
+   */
+  private async signIn(code: string, redirectUri: string): Promise<string> {
+    const { idp } = this.options;
+    const fetcher = this.options.fetch ?? fetch;
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: idp.clientId,
+    });
+    if (idp.clientSecret) {
+      body.set('client_secret', idp.clientSecret);
+    }
+    const tokenResponse = await fetcher(idp.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body,
+    });
+    const tokens = (await tokenResponse.json().catch(() => ({}))) as { access_token?: string };
+    if (!tokenResponse.ok || !tokens.access_token) {
+      throw new Error(`Identity provider token exchange failed (HTTP ${tokenResponse.status})`);
+    }
+
+    const userResponse = await fetcher(idp.userInfoUrl, {
+      headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+    });
+    const user = (await userResponse.json().catch(() => ({}))) as { sub?: unknown };
+    if (!userResponse.ok || (typeof user.sub !== 'string' && typeof user.sub !== 'number')) {
+      throw new Error(`Identity provider user info failed (HTTP ${userResponse.status})`);
+    }
+    return String(user.sub);
+  }
+
+  // ===========================================================================
+  // Tokens
+  // ===========================================================================
+
+  private async token(request: Request): Promise<Response> {
+    const form = await readForm(request);
+    const clientId = String(form.get('client_id') ?? '');
+    const grantType = form.get('grant_type');
+
+    if (grantType === 'authorization_code') {
+      const code = String(form.get('code') ?? '');
+      const key = `oauth:code:${await sha256Hex(code)}`;
+      const grant = await this.read<AuthorizationCode>(key);
+      // Codes are single use, whether or not the exchange succeeds
+      await this.options.store.delete(key);
+      if (
+        !grant ||
+        grant.clientId !== clientId ||
+        grant.redirectUri !== form.get('redirect_uri') ||
+        !(await verifyCodeChallenge(String(form.get('code_verifier') ?? ''), grant.codeChallenge))
+      ) {
+        throw new OAuthError('invalid_grant', 'Invalid or expired authorization code');
+      }
+      return this.issueTokens({
+        userId: grant.userId,
+        clientId: grant.clientId,
+        resource: grant.resource,
+      });
+    }
+
+    if (grantType === 'refresh_token') {
+      const key = `oauth:refresh:${await sha256Hex(String(form.get('refresh_token') ?? ''))}`;
+      const grant = await this.read<Grant>(key);
+      if (!grant || grant.clientId !== clientId) {
+        throw new OAuthError('invalid_grant', 'Invalid or expired refresh token');
+      }
+      if (!(await this.options.credentials(grant.userId))) {
+        await this.options.store.delete(key);
+        throw new OAuthError(
+          'invalid_grant',
+          'No Cloudflare credentials are linked to this account'
+        );
+      }
+      // Refresh tokens rotate: each one is exchanged once
+      await this.options.store.delete(key);
+      return this.issueTokens(grant);
+    }
+
+    throw new OAuthError(
+      'unsupported_grant_type',
+      'grant_type must be authorization_code or refresh_token'
+    );
+  }
+
+  private async issueTokens(grant: Grant): Promise<Response> {
+    const accessToken = randomToken();
+    const refreshToken = randomToken();
+    const record = JSON.stringify(grant);
+    await this.options.store.put(`oauth:access:${await sha256Hex(accessToken)}`, record, {
+      expirationTtl: this.ttls.accessToken,
+    });
+    await this.options.store.put(`oauth:refresh:${await sha256Hex(refreshToken)}`, record, {
+      expirationTtl: this.ttls.refreshToken,
+    });
+    return json({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.ttls.accessToken,
+      refresh_token: refreshToken,
+    });
+  }
+
+  /**
+   * Revoke an access or refresh token. Unknown tokens succeed too (RFC 7009).
+   */
+  private async revoke(request: Request): Promise<Response> {
+    const form = await readForm(request);
+    const digest = await sha256Hex(String(form.get('token') ?? ''));
+    const hint = form.get('token_type_hint');
+    const kinds = hint === 'refresh_token' ? ['refresh', 'access'] : ['access', 'refresh'];
+    for (const kind of kinds) {
+      await this.options.store.delete(`oauth:${kind}:${digest}`);
+    }
+    return new Response(null, { status: 200, headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private async client(clientId: string | null): Promise<RegisteredClient> {
+    const client = clientId
+      ? await this.read<RegisteredClient>(`oauth:client:${clientId}`)
+      : undefined;
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Unknown client_id; register the client first', 401);
+    }
+    return client;
+  }
+
+  private async read<T>(key: string): Promise<T | undefined> {
+    const value = await this.options.store.get(key);
+    return value ? (JSON.parse(value) as T) : undefined;
+  }
+
+  private requestCookie(url: URL, value: string, maxAge: number): string {
+    const secure = url.protocol === 'https:' ? '; Secure' : '';
+    return `${REQUEST_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure}`;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * The bearer token in the Authorization header, if any
+ */
+export function parseBearerToken(request: Request): string | undefined {
+  const authorization = request.headers.get('Authorization');
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+/**
+ * Redirect URIs must be HTTPS, or HTTP on the loopback interface for native clients
+ */
+function isAllowedRedirectUri(uri: string): boolean {
+  try {
+    const url = new URL(uri);
+    if (url.hash) return false;
+    if (url.protocol === 'https:') return true;
+    return url.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+async function verifyCodeChallenge(verifier: string, challenge: string): Promise<boolean> {
+  if (!/^[A-Za-z0-9\-._~]{43,128}$/.test(verifier)) return false;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return encodeBase64Url(new Uint8Array(digest)) === challenge;
+}
+
+/**
+ * The form-encoded body of a POST. Anything else is answered with
+ * invalid_request (RFC 6749 section 5.2) rather than a server error.
+ */
+async function readForm(request: Request): Promise<FormData> {
+  try {
+    return await request.formData();
+  } catch {
+    throw new OAuthError('invalid_request', 'Body must be application/x-www-form-urlencoded');
+  }
+}
+
+/**
+ * The origin of a resource parameter, resolved against the request URL. One
+ * that doesn't parse is answered with invalid_target (RFC 8707).
+ */
+function resourceOrigin(resource: string, base: URL): string {
+  try {
+    return new URL(resource, base).origin;
+  } catch {
+    throw new OAuthError('invalid_target', 'resource must be a URL');
+  }
+}
+
+function randomToken(): string {
+  return encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+function parseCookie(request: Request, name: string): string | undefined {
+  for (const part of (request.headers.get('Cookie') ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return value.join('=');
+  }
+  return undefined;
+}
+
+function redirect(location: string, params: Record<string, string | undefined>): Response {
+  const url = new URL(location);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, value);
+    }
+  }
+  return new Response(null, { status: 302, headers: { Location: url.toString() } });
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+function consentPage(client: RegisteredClient, redirectUri: string, requestId: string): string {
+  const name = escapeHtml(client.client_name ?? 'An MCP client');
+  const host = escapeHtml(new URL(redirectUri).host);
+  return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Authorize ${name}</title></head>
+<body>
+<h1>Authorize ${name}</h1>
+<p>${name} (${host}) wants to manage Cloudflare with the credentials linked to your account.
+You will sign in on the next page.</p>
+<form method="post" action="/authorize">
+<input type="hidden" name="request" value="${escapeHtml(requestId)}">
+<button type="submit" name="decision" value="allow">Allow</button>
+<button type="submit" name="decision" value="deny">Deny</button>
+</form>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,422 @@
+/**
+ * Credential Vault
+ *
+ * Stores tenants' Cloudflare credentials encrypted at rest, so clients send an
+ * opaque tenant key (X-CF-Tenant-Key) instead of the long-lived credential.
+ *
+ * Credentials are encrypted with AES-256-GCM under a key derived from the
+ * VAULT_KEY secret, bound to the tenant ID. A tenant key is "<tenant ID>.<secret>";
+ * only a hash of the secret is stored. To rotate VAULT_KEY, move the old value
+ * to VAULT_PREVIOUS_KEY: records are re-encrypted with the new key as they are read.
+ *
+ * Endpoints:
+ * - POST   /tenants                   Register credentials; returns the tenant key
+ * - GET    /admin/tenants/:id         Show a tenant (without its credentials)
+ * - POST   /admin/tenants/:id/rotate  Issue a new tenant key, optionally with new credentials
+ * - DELETE /admin/tenants/:id         Revoke the tenant key and delete the credentials
+ *
+ * Admin endpoints take "Authorization: Bearer <VAULT_ADMIN_TOKEN>".
+ */
+
+import type { TenantCredentials } from '../types/env.js';
+import { decodeBase64Url, encodeBase64Url } from '../utils/signing.js';
+import { type KeyValueStore, sha256Hex } from '../utils/store.js';
+
+export interface CredentialVaultOptions {
+  /** Where encrypted records are kept; entries never expire */
+  store: KeyValueStore;
+
+  /** Secret the encryption key is derived from (VAULT_KEY) */
+  secret: string;
+
+  /** Former secret, still accepted for decryption while records move to the new one */
+  previousSecret?: string;
+
+  /** Bearer token for the admin endpoints; they are disabled without one */
+  adminToken?: string;
+
+  /** Check credentials with Cloudflare before storing them; throws when they are rejected */
+  verify?(credentials: TenantCredentials): Promise<void>;
+}
+
+/**
+ * A tenant as the admin endpoints show it
+ */
+export interface TenantSummary {
+  tenant_id: string;
+  auth: 'api_token' | 'api_key';
+  account_id: string | null;
+  created_at: string;
+  rotated_at: string | null;
+}
+
+/**
+ * Stored record; credentials only appear encrypted
+ */
+interface TenantRecord {
+  /** SHA-256 of the secret half of the tenant key */
+  keyHash: string;
+  iv: string;
+  ciphertext: string;
+  createdAt: string;
+  rotatedAt?: string;
+}
+
+/**
+ * Request error, sent as {error, message} like the MCP endpoints' errors
+ */
+export class VaultRequestError extends Error {
+  public status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'VaultRequestError';
+    this.status = status;
+  }
+}
+
+const NO_TENANT = 'No tenant with that ID.';
+
+const ERROR_NAMES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  503: 'Service Unavailable',
+};
+
+export class CredentialVault {
+  private options: CredentialVaultOptions;
+  private keys?: Promise<CryptoKey[]>;
+
+  constructor(options: CredentialVaultOptions) {
+    this.options = options;
+  }
+
+  // ===========================================================================
+  // Vault Operations
+  // ===========================================================================
+
+  /**
+   * Store credentials for a new tenant and return its ID and key
+   */
+  async register(credentials: TenantCredentials): Promise<{ tenantId: string; tenantKey: string }> {
+    const tenantId = randomHex(16);
+    const { secret, tenantKey } = newTenantKey(tenantId);
+    await this.save(tenantId, {
+      keyHash: await sha256Hex(secret),
+      ...(await this.seal(tenantId, credentials)),
+      createdAt: new Date().toISOString(),
+    });
+    return { tenantId, tenantKey };
+  }
+
+  /**
+   * The credentials for a tenant key; undefined when the key is malformed,
+   * unknown or revoked
+   */
+  async resolve(tenantKey: string): Promise<TenantCredentials | undefined> {
+    const [tenantId, secret, extra] = tenantKey.split('.');
+    if (!tenantId || !secret || extra !== undefined) return undefined;
+
+    const record = await this.read(tenantId);
+    if (!record || record.keyHash !== (await sha256Hex(secret))) return undefined;
+
+    const { credentials, current } = await this.open(tenantId, record);
+    if (!current) {
+      await this.save(tenantId, { ...record, ...(await this.seal(tenantId, credentials)) });
+    }
+    return credentials;
+  }
+
+  /**
+   * Replace a tenant's key, and its credentials when new ones are given. The
+   * old key stops working. Undefined when the tenant doesn't exist.
+   */
+  async rotate(
+    tenantId: string,
+    credentials?: TenantCredentials
+  ): Promise<{ tenantKey: string; rotatedAt: string } | undefined> {
+    const record = await this.read(tenantId);
+    if (!record) return undefined;
+
+    const stored = credentials ?? (await this.open(tenantId, record)).credentials;
+    const { secret, tenantKey } = newTenantKey(tenantId);
+    const rotatedAt = new Date().toISOString();
+    await this.save(tenantId, {
+      keyHash: await sha256Hex(secret),
+      ...(await this.seal(tenantId, stored)),
+      createdAt: record.createdAt,
+      rotatedAt,
+    });
+    return { tenantKey, rotatedAt };
+  }
+
+  /**
+   * Delete a tenant's credentials; false when the tenant doesn't exist
+   */
+  async revoke(tenantId: string): Promise<boolean> {
+    if (!(await this.read(tenantId))) return false;
+    await this.options.store.delete(recordKey(tenantId));
+    return true;
+  }
+
+  /**
+   * A tenant's auth type, account and dates; undefined when it doesn't exist
+   */
+  async describe(tenantId: string): Promise<TenantSummary | undefined> {
+    const record = await this.read(tenantId);
+    if (!record) return undefined;
+
+    const { credentials } = await this.open(tenantId, record);
+    return {
+      tenant_id: tenantId,
+      auth: credentials.apiToken ? 'api_token' : 'api_key',
+      account_id: credentials.accountId ?? null,
+      created_at: record.createdAt,
+      rotated_at: record.rotatedAt ?? null,
+    };
+  }
+
+  // ===========================================================================
+  // HTTP Endpoints
+  // ===========================================================================
+
+  /**
+   * Handle a request to one of the vault endpoints; undefined for any other path
+   */
+  async handle(request: Request): Promise<Response | undefined> {
+    const url = new URL(request.url);
+    const admin = /^\/admin\/tenants\/([^/]+)(\/rotate)?$/.exec(url.pathname);
+    if (url.pathname !== '/tenants' && !admin) return undefined;
+
+    try {
+      if (!admin) {
+        if (request.method !== 'POST') {
+          throw new VaultRequestError(400, 'Register a tenant with POST /tenants.');
+        }
+        return await this.handleRegister(request);
+      }
+
+      await this.authorizeAdmin(request);
+      const [, tenantId, rotate] = admin;
+      const route = `${request.method} ${rotate ? 'rotate' : 'tenant'}`;
+      switch (route) {
+        case 'GET tenant':
+          return respond(200, await this.found(this.describe(tenantId)));
+        case 'POST rotate':
+          return await this.handleRotate(request, tenantId);
+        case 'DELETE tenant':
+          if (!(await this.revoke(tenantId))) {
+            throw new VaultRequestError(404, NO_TENANT);
+          }
+          return respond(200, { tenant_id: tenantId, revoked: true });
+        default:
+          throw new VaultRequestError(
+            400,
+            `${request.method} is not supported on ${url.pathname}.`
+          );
+      }
+    } catch (error) {
+      if (error instanceof VaultRequestError) {
+        return respond(error.status, {
+          error: ERROR_NAMES[error.status],
+          message: error.message,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async handleRegister(request: Request): Promise<Response> {
+    const credentials = await this.readCredentials(request);
+    if (!credentials) {
+      throw new VaultRequestError(400, 'Send the credentials to store as a JSON body.');
+    }
+    const { tenantId, tenantKey } = await this.register(credentials);
+    return respond(201, {
+      tenant_id: tenantId,
+      tenant_key: tenantKey,
+      message:
+        'Send tenant_key as the X-CF-Tenant-Key header instead of Cloudflare credentials. ' +
+        'It is only shown once.',
+    });
+  }
+
+  private async handleRotate(request: Request, tenantId: string): Promise<Response> {
+    const credentials = await this.readCredentials(request);
+    const rotated = await this.found(this.rotate(tenantId, credentials));
+    return respond(200, {
+      tenant_id: tenantId,
+      tenant_key: rotated.tenantKey,
+      rotated_at: rotated.rotatedAt,
+      message: 'The previous tenant key no longer works.',
+    });
+  }
+
+  /**
+   * Credentials from a JSON body ({"apiToken": ...} or {"email": ..., "apiKey": ...},
+   * plus an optional "accountId"), checked with Cloudflare. Undefined for an empty body.
+   */
+  private async readCredentials(request: Request): Promise<TenantCredentials | undefined> {
+    const text = await request.text();
+    if (!text.trim()) return undefined;
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(text) as Record<string, unknown>;
+    } catch {
+      throw new VaultRequestError(400, 'Body must be a JSON object.');
+    }
+    const field = (name: string) => (typeof body[name] === 'string' ? body[name] : undefined);
+    const credentials: TenantCredentials = {
+      apiToken: field('apiToken'),
+      email: field('email'),
+      apiKey: field('apiKey'),
+      accountId: field('accountId'),
+    };
+    if (!credentials.apiToken && !(credentials.email && credentials.apiKey)) {
+      throw new VaultRequestError(400, 'Send "apiToken", or "email" and "apiKey".');
+    }
+    try {
+      await this.options.verify?.(credentials);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new VaultRequestError(400, `Credentials were not stored: ${reason}`);
+    }
+    return credentials;
+  }
+
+  private async authorizeAdmin(request: Request): Promise<void> {
+    const { adminToken } = this.options;
+    if (!adminToken) {
+      throw new VaultRequestError(403, 'Admin endpoints are disabled: set VAULT_ADMIN_TOKEN.');
+    }
+    const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    // Compare digests so the comparison time doesn't depend on the token
+    if ((await sha256Hex(token)) !== (await sha256Hex(adminToken))) {
+      throw new VaultRequestError(401, 'Admin endpoints need Authorization: Bearer <token>.');
+    }
+  }
+
+  private async found<T>(result: Promise<T | undefined>): Promise<T> {
+    const value = await result;
+    if (value === undefined) {
+      throw new VaultRequestError(404, NO_TENANT);
+    }
+    return value;
+  }
+
+  // ===========================================================================
+  // Storage and Encryption
+  // ===========================================================================
+
+  private async read(tenantId: string): Promise<TenantRecord | undefined> {
+    const value = await this.options.store.get(recordKey(tenantId));
+    return value ? (JSON.parse(value) as TenantRecord) : undefined;
+  }
+
+  private async save(tenantId: string, record: TenantRecord): Promise<void> {
+    await this.options.store.put(recordKey(tenantId), JSON.stringify(record));
+  }
+
+  private async seal(
+    tenantId: string,
+    credentials: TenantCredentials
+  ): Promise<Pick<TenantRecord, 'iv' | 'ciphertext'>> {
+    const [key] = await this.encryptionKeys();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encode(tenantId) },
+      key,
+      encode(JSON.stringify(credentials))
+    );
+    return {
+      iv: encodeBase64Url(iv),
+      ciphertext: encodeBase64Url(new Uint8Array(ciphertext)),
+    };
+  }
+
+  /**
+   * Decrypt a record, noting whether it was encrypted with the current key.
+   * Throws a 503 when neither key opens it, e.g. after VAULT_KEY changed
+   * without VAULT_PREVIOUS_KEY: the record is intact, but the server can't read
+   * it until the old key is configured again.
+   */
+  private async open(
+    tenantId: string,
+    record: TenantRecord
+  ): Promise<{ credentials: TenantCredentials; current: boolean }> {
+    const keys = await this.encryptionKeys();
+    for (const [index, key] of keys.entries()) {
+      try {
+        const plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: decodeBase64Url(record.iv), additionalData: encode(tenantId) },
+          key,
+          decodeBase64Url(record.ciphertext)
+        );
+        const credentials = JSON.parse(new TextDecoder().decode(plaintext)) as TenantCredentials;
+        return { credentials, current: index === 0 };
+      } catch {
+        // Encrypted with another key (or tampered with); try the next one
+      }
+    }
+    throw new VaultRequestError(
+      503,
+      `Stored credentials for tenant ${tenantId} can't be decrypted with VAULT_KEY. Set ` +
+        'VAULT_PREVIOUS_KEY to the key they were stored with.'
+    );
+  }
+
+  /**
+   * The current key, then the previous one if configured
+   */
+  private encryptionKeys(): Promise<CryptoKey[]> {
+    if (!this.keys) {
+      const secrets = [this.options.secret, this.options.previousSecret].filter(
+        (secret): secret is string => !!secret
+      );
+      this.keys = Promise.all(secrets.map(deriveKey));
+    }
+    return this.keys;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * AES-256 key from a secret. The secret is hashed rather than stretched, so it
+ * should be random, e.g. `openssl rand -base64 32`.
+ */
+async function deriveKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', encode(secret));
+  return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+function newTenantKey(tenantId: string): { secret: string; tenantKey: string } {
+  const secret = encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  return { secret, tenantKey: `${tenantId}.${secret}` };
+}
+
+function recordKey(tenantId: string): string {
+  return `vault:tenant:${tenantId}`;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function respond(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
@@ -12,6 +12,7 @@
 import type {
   Account,
   AccountMember,
+  ApiToken,
   CachePurgeResult,
   CloudflareResponse,
   D1Database,
@@ -34,6 +35,7 @@ import type {
   R2Bucket,
   ResultInfo,
   SslCertificate,
+  TokenVerification,
   User,
   WafPackage,
   WafRule,
@@ -47,14 +49,81 @@ import type {
   ZoneUpdateInput,
 } from './types/cloudflare.js';
 import type { TenantCredentials } from './types/env.js';
-import { AuthenticationError, CloudflareApiError, RateLimitError } from './utils/errors.js';
-import { createPaginatedResponse, normalizePaginationParams } from './utils/pagination.js';
+import { createDryRunPlan, DryRunPreview } from './utils/dry-run.js';
+import {
+  AuthenticationError,
+  CancelledError,
+  createApiError,
+  isRetryableError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+} from './utils/errors.js';
+import {
+  createPaginatedResponse,
+  type ListPage,
+  normalizePaginationParams,
+  type PageSizeLimits,
+  paginate,
+  resolvePageSizeLimits,
+} from './utils/pagination.js';
+import type { TokenBucketRateLimiter } from './utils/rate-limit.js';
+import type { ResponseCache } from './utils/response-cache.js';
+import {
+  MAX_RETRIES,
+  parseRetryAfter,
+  RETRY_DEFAULTS,
+  type RetryOptions,
+  withRetry,
+} from './utils/retry.js';
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const API_BASE_URL = 'https://api.cloudflare.com/client/v4';
+export const API_BASE_URL = 'https://api.cloudflare.com/client/v4';
+
+/** Default per-request timeout, in milliseconds */
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Transport used to perform HTTP calls (defaults to the global fetch)
+ */
+export type CloudflareTransport = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Options for creating a Cloudflare client
+ */
+export interface CloudflareClientOptions {
+  /** API base URL, e.g. a local mock or an egress proxy (default: API_BASE_URL) */
+  baseUrl?: string;
+
+  /** Transport implementation (default: global fetch) */
+  fetch?: CloudflareTransport;
+
+  /** Retry behaviour for rate limits, 5xx responses and network errors (at most MAX_RETRIES) */
+  retry?: Partial<RetryOptions>;
+
+  /** Page size defaults and caps for list requests */
+  pageSize?: Partial<PageSizeLimits>;
+
+  /** Timeout for each HTTP attempt, in milliseconds (default: DEFAULT_TIMEOUT_MS) */
+  timeoutMs?: number;
+
+  /** Aborts every request made by the client, e.g. when the MCP caller cancels */
+  signal?: AbortSignal;
+
+  /** Tenant rate limiter; every HTTP attempt takes a token before it is sent */
+  rateLimiter?: TokenBucketRateLimiter;
+
+  /** Read-through cache for slow-changing GET endpoints (opt-in) */
+  cache?: ResponseCache;
+
+  /** Preview writes instead of sending them (see withDryRun) */
+  dryRun?: boolean;
+}
 
 // =============================================================================
 // Cloudflare Client Interface
@@ -64,19 +133,45 @@ export interface CloudflareClient {
   // Connection
   testConnection(): Promise<{ connected: boolean; message: string }>;
 
+  // Cancellation
+  /** Return a client whose requests are aborted when the signal fires */
+  withSignal(signal: AbortSignal | undefined): CloudflareClient;
+
+  // Dry run
+  /**
+   * Return a client that throws a DryRunPreview instead of sending writes.
+   * Passing false keeps the current mode, so a server-wide dry run can't be turned off per call.
+   */
+  withDryRun(enabled: boolean | undefined): CloudflareClient;
+
+  /** Whether writes are previewed instead of sent */
+  isDryRun(): boolean;
+
+  // API Tokens
+  verifyToken(): Promise<TokenVerification>;
+  getApiToken(tokenId: string): Promise<ApiToken>;
+
   // User & Account
   getUser(): Promise<User>;
   listAccounts(params?: PaginationParams): Promise<PaginatedResponse<Account>>;
+  listAllAccounts(params?: PaginationParams): AsyncIterable<ListPage<Account>>;
   getAccount(accountId: string): Promise<Account>;
   listAccountMembers(
     accountId: string,
     params?: PaginationParams
   ): Promise<PaginatedResponse<AccountMember>>;
+  listAllAccountMembers(
+    accountId: string,
+    params?: PaginationParams
+  ): AsyncIterable<ListPage<AccountMember>>;
 
   // Zones
   listZones(
     params?: PaginationParams & { name?: string; status?: string }
   ): Promise<PaginatedResponse<Zone>>;
+  listAllZones(
+    params?: PaginationParams & { name?: string; status?: string }
+  ): AsyncIterable<ListPage<Zone>>;
   getZone(zoneId: string): Promise<Zone>;
   createZone(input: ZoneCreateInput): Promise<Zone>;
   updateZone(zoneId: string, input: ZoneUpdateInput): Promise<Zone>;
@@ -94,6 +189,10 @@ export interface CloudflareClient {
     zoneId: string,
     params?: PaginationParams & { type?: string; name?: string; content?: string }
   ): Promise<PaginatedResponse<DnsRecord>>;
+  listAllDnsRecords(
+    zoneId: string,
+    params?: PaginationParams & { type?: string; name?: string; content?: string }
+  ): AsyncIterable<ListPage<DnsRecord>>;
   getDnsRecord(zoneId: string, recordId: string): Promise<DnsRecord>;
   createDnsRecord(zoneId: string, input: DnsRecordCreateInput): Promise<DnsRecord>;
   updateDnsRecord(zoneId: string, recordId: string, input: DnsRecordUpdateInput): Promise<DnsRecord>;
@@ -119,6 +218,10 @@ export interface CloudflareClient {
 
   // KV Namespaces
   listKvNamespaces(accountId: string, params?: PaginationParams): Promise<PaginatedResponse<KvNamespace>>;
+  listAllKvNamespaces(
+    accountId: string,
+    params?: PaginationParams
+  ): AsyncIterable<ListPage<KvNamespace>>;
   getKvNamespace(accountId: string, namespaceId: string): Promise<KvNamespace>;
   createKvNamespace(accountId: string, title: string): Promise<KvNamespace>;
   renameKvNamespace(accountId: string, namespaceId: string, title: string): Promise<void>;
@@ -128,6 +231,11 @@ export interface CloudflareClient {
     namespaceId: string,
     params?: { prefix?: string; cursor?: string; limit?: number }
   ): Promise<{ keys: KvKey[]; cursor?: string; list_complete: boolean }>;
+  listAllKvKeys(
+    accountId: string,
+    namespaceId: string,
+    params?: { prefix?: string; cursor?: string; limit?: number }
+  ): AsyncIterable<ListPage<KvKey>>;
   getKvValue(accountId: string, namespaceId: string, key: string): Promise<string>;
   putKvValue(
     accountId: string,
@@ -140,10 +248,16 @@ export interface CloudflareClient {
 
   // D1 Databases
   listD1Databases(accountId: string, params?: PaginationParams): Promise<PaginatedResponse<D1Database>>;
+  listAllD1Databases(
+    accountId: string,
+    params?: PaginationParams
+  ): AsyncIterable<ListPage<D1Database>>;
   getD1Database(accountId: string, databaseId: string): Promise<D1Database>;
   createD1Database(accountId: string, name: string): Promise<D1Database>;
   deleteD1Database(accountId: string, databaseId: string): Promise<void>;
   queryD1Database(accountId: string, databaseId: string, sql: string, params?: unknown[]): Promise<D1QueryResult[]>;
+  /** CREATE statements for the database's own tables, indexes, views and triggers */
+  getD1Schema(accountId: string, databaseId: string): Promise<string[]>;
 
   // R2 Storage
   listR2Buckets(accountId: string): Promise<R2Bucket[]>;
@@ -222,15 +336,97 @@ export interface CloudflareClient {
   ): Promise<Record<string, unknown>>;
 }
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Reads the schema D1 databases were created with, leaving out the tables and
+ * indexes D1 and SQLite maintain themselves
+ */
+const D1_SCHEMA_QUERY =
+  "SELECT sql FROM sqlite_master WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%' " +
+  "AND name NOT LIKE '_cf_%' ORDER BY CASE type WHEN 'table' THEN 0 ELSE 1 END, name";
+
+/** Methods that can be sent twice without changing the outcome */
+const IDEMPOTENT_METHODS = new Set(['GET', 'PUT', 'DELETE']);
+
+/**
+ * Which failures to retry for a request method. A 5xx, dropped connection or
+ * timeout doesn't say whether a POST or PATCH was applied (a timed-out D1 query
+ * may still be running), and sending it again could create a second record or
+ * run a query twice, so those only retry on 429s, which Cloudflare rejects
+ * before doing anything.
+ */
+function retryPolicy(method = 'GET'): (error: unknown) => boolean {
+  if (IDEMPOTENT_METHODS.has(method.toUpperCase())) {
+    return isRetryableError;
+  }
+  return (error) => error instanceof RateLimitError && error.retryable;
+}
+
+/**
+ * Parse a JSON response body, returning undefined for empty or non-JSON bodies
+ */
+function parseJsonBody<T>(body: string): T | undefined {
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return undefined;
+  }
+}
+
 // =============================================================================
 // Cloudflare Client Implementation
 // =============================================================================
 
 class CloudflareClientImpl implements CloudflareClient {
   private credentials: TenantCredentials;
-
-  constructor(credentials: TenantCredentials) {
+  private options: CloudflareClientOptions;
+  private baseUrl: string;
+  private transport: CloudflareTransport;
+  private retry: RetryOptions;
+  private pageSize: PageSizeLimits;
+  private timeoutMs: number;
+  private signal?: AbortSignal;
+  private rateLimiter?: TokenBucketRateLimiter;
+  private cache?: ResponseCache;
+  private dryRun: boolean;
+
+  constructor(credentials: TenantCredentials, options: CloudflareClientOptions = {}) {
     this.credentials = credentials;
+    this.options = options;
+    this.baseUrl = (options.baseUrl || API_BASE_URL).replace(/\/+$/, '');
+    this.transport = options.fetch || ((input, init) => fetch(input, init));
+    this.retry = {
+      maxRetries: Math.min(options.retry?.maxRetries ?? RETRY_DEFAULTS.maxRetries, MAX_RETRIES),
+      baseDelayMs: options.retry?.baseDelayMs ?? RETRY_DEFAULTS.baseDelayMs,
+      maxDelayMs: options.retry?.maxDelayMs ?? RETRY_DEFAULTS.maxDelayMs,
+    };
+    this.pageSize = resolvePageSizeLimits(options.pageSize);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.signal = options.signal;
+    this.rateLimiter = options.rateLimiter;
+    this.cache = options.cache;
+    this.dryRun = options.dryRun ?? false;
+  }
+
+  withSignal(signal: AbortSignal | undefined): CloudflareClient {
+    if (!signal || signal === this.signal) {
+      return this;
+    }
+    return new CloudflareClientImpl(this.credentials, { ...this.options, signal });
+  }
+
+  withDryRun(enabled: boolean | undefined): CloudflareClient {
+    if (!enabled || this.dryRun) {
+      return this;
+    }
+    return new CloudflareClientImpl(this.credentials, { ...this.options, dryRun: true });
+  }
+
+  isDryRun(): boolean {
+    return this.dryRun;
   }
 
   // ===========================================================================
@@ -260,69 +456,169 @@ class CloudflareClientImpl implements CloudflareClient {
     );
   }
 
+  /**
+   * Make a JSON API call. GETs are served through the response cache when one is
+   * configured; any other method invalidates the cached reads it may have changed.
+   * In dry-run mode, writes are previewed instead of sent.
+   */
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<CloudflareResponse<T>> {
-    const url = `${API_BASE_URL}${endpoint}`;
-
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...this.getAuthHeaders(),
-        ...(options.headers || {}),
-      },
-    });
-
-    // Handle rate limiting
-    if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60);
+    if (this.dryRun && (options.method ?? 'GET') !== 'GET') {
+      throw await this.previewWrite(endpoint, options);
     }
 
-    // Handle authentication errors
-    if (response.status === 401 || response.status === 403) {
-      throw new AuthenticationError('Authentication failed. Check your API credentials.');
+    const cache = this.cache;
+    if (!cache) {
+      return this.requestUncached<T>(endpoint, options);
+    }
+    if ((options.method ?? 'GET') === 'GET') {
+      return cache.read(endpoint, () => this.requestUncached<T>(endpoint, options));
     }
 
-    // Handle 204 No Content
-    if (response.status === 204) {
-      return { success: true, errors: [], messages: [], result: undefined as T };
+    try {
+      return await this.requestUncached<T>(endpoint, options);
+    } finally {
+      // Failed or timed-out mutations may still have been applied
+      await cache.invalidate(endpoint);
     }
+  }
 
-    const data = (await response.json()) as CloudflareResponse<T>;
+  private async requestUncached<T>(
+    endpoint: string,
+    options: RequestInit
+  ): Promise<CloudflareResponse<T>> {
+    return withRetry(
+      async () => {
+        const { response, body } = await this.send(endpoint, options);
 
-    // Handle API errors
-    if (!data.success) {
-      const errorMessage = data.errors?.[0]?.message || 'Unknown Cloudflare API error';
-      throw new CloudflareApiError(errorMessage, response.status);
-    }
+        // Handle 204 No Content
+        if (response.status === 204) {
+          return { success: true, errors: [], messages: [], result: undefined as T };
+        }
+
+        const data = parseJsonBody<CloudflareResponse<T>>(body);
 
-    return data;
+        // Map errors[] to typed errors; non-JSON bodies usually come from an upstream 5xx page
+        if (!data?.success) {
+          throw createApiError(response.status, data?.errors);
+        }
+
+        return data;
+      },
+      this.retry,
+      this.signal,
+      retryPolicy(options.method)
+    );
   }
 
   private async requestRaw(endpoint: string, options: RequestInit = {}): Promise<string> {
-    const url = `${API_BASE_URL}${endpoint}`;
-
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...this.getAuthHeaders(),
-        ...(options.headers || {}),
+    return withRetry(
+      async () => {
+        const { response, body } = await this.send(endpoint, options);
+
+        if (!response.ok) {
+          throw createApiError(
+            response.status,
+            parseJsonBody<CloudflareResponse<unknown>>(body)?.errors
+          );
+        }
+
+        return body;
       },
-    });
+      this.retry,
+      this.signal,
+      retryPolicy(options.method)
+    );
+  }
 
-    if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60);
+  /**
+   * Describe a write without sending it: read the target's current state, then
+   * build the request and before/after diff. A missing target fails the dry run
+   * just as it would fail the write, except for PUT, which creates it.
+   */
+  private async previewWrite(endpoint: string, options: RequestInit): Promise<DryRunPreview> {
+    const method = options.method ?? 'GET';
+    const warnings: string[] = [];
+    let before: unknown = null;
+
+    if (method !== 'POST') {
+      try {
+        const body = await this.requestRaw(endpoint.split('?')[0]);
+        const parsed = parseJsonBody<CloudflareResponse<unknown>>(body);
+        before = parsed?.success ? parsed.result : body;
+      } catch (error) {
+        // Endpoints that are actions rather than resources can't be read back
+        if (error instanceof ValidationError) {
+          warnings.push(`Current state could not be read: ${error.message}`);
+        } else if (!(error instanceof NotFoundError && method === 'PUT')) {
+          throw error;
+        }
+      }
     }
 
-    if (response.status === 401 || response.status === 403) {
-      throw new AuthenticationError('Authentication failed. Check your API credentials.');
+    const headers = { ...this.getAuthHeaders(), ...(options.headers as Record<string, string>) };
+    return new DryRunPreview(
+      createDryRunPlan(
+        { method, url: `${this.baseUrl}${endpoint}`, headers, body: options.body },
+        before,
+        warnings
+      )
+    );
+  }
+
+  /**
+   * Perform a single HTTP call, reading the whole body under the timeout, and map
+   * transport failures, timeouts, cancellation and rate limits to typed errors.
+   * Waits for the tenant's rate limiter first, so retries are budgeted too.
+   * Other error statuses are mapped from the response body by the caller.
+   */
+  private async send(
+    endpoint: string,
+    options: RequestInit
+  ): Promise<{ response: Response; body: string }> {
+    const url = `${this.baseUrl}${endpoint}`;
+
+    if (this.signal?.aborted) {
+      throw new CancelledError();
     }
+    await this.rateLimiter?.acquire(this.signal);
 
-    if (!response.ok) {
-      throw new CloudflareApiError(`API error: ${response.status}`, response.status);
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    const signal = this.signal ? AbortSignal.any([this.signal, timeout]) : timeout;
+
+    let response: Response;
+    let body: string;
+    try {
+      response = await this.transport(url, {
+        ...options,
+        signal,
+        headers: {
+          ...this.getAuthHeaders(),
+          ...(options.headers || {}),
+        },
+      });
+      body = await response.text();
+    } catch (error) {
+      if (this.signal?.aborted) {
+        throw new CancelledError();
+      }
+      if (timeout.aborted) {
+        throw new TimeoutError(this.timeoutMs);
+      }
+      throw new NetworkError(
+        `Network error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    // Handle rate limiting; the budget is spent, whatever the local bucket thinks
+    if (response.status === 429) {
+      await this.rateLimiter?.drain();
+      throw new RateLimitError(
+        'Rate limit exceeded',
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
     }
 
-    return response.text();
+    return { response, body };
   }
 
   // ===========================================================================
@@ -341,6 +637,20 @@ class CloudflareClientImpl implements CloudflareClient {
     }
   }
 
+  // ===========================================================================
+  // API Tokens
+  // ===========================================================================
+
+  async verifyToken(): Promise<TokenVerification> {
+    const response = await this.request<TokenVerification>('/user/tokens/verify');
+    return response.result;
+  }
+
+  async getApiToken(tokenId: string): Promise<ApiToken> {
+    const response = await this.request<ApiToken>(`/user/tokens/${tokenId}`);
+    return response.result;
+  }
+
   // ===========================================================================
   // User & Account
   // ===========================================================================
@@ -351,7 +661,7 @@ class CloudflareClientImpl implements CloudflareClient {
   }
 
   async listAccounts(params?: PaginationParams): Promise<PaginatedResponse<Account>> {
-    const normalized = normalizePaginationParams(params);
+    const normalized = normalizePaginationParams(params, this.pageSize);
     const queryParams = new URLSearchParams({
       page: String(normalized.page),
       per_page: String(normalized.per_page),
@@ -361,6 +671,11 @@ class CloudflareClientImpl implements CloudflareClient {
     return createPaginatedResponse(response.result, response.result_info);
   }
 
+  async *listAllAccounts(params?: PaginationParams): AsyncGenerator<ListPage<Account>> {
+    const per_page = params?.per_page ?? this.pageSize.maxPerPage;
+    yield* paginate((page) => this.listAccounts({ page, per_page }), params?.page);
+  }
+
   async getAccount(accountId: string): Promise<Account> {
     const response = await this.request<Account>(`/accounts/${accountId}`);
     return response.result;
@@ -370,7 +685,7 @@ class CloudflareClientImpl implements CloudflareClient {
     accountId: string,
     params?: PaginationParams
   ): Promise<PaginatedResponse<AccountMember>> {
-    const normalized = normalizePaginationParams(params);
+    const normalized = normalizePaginationParams(params, this.pageSize);
     const queryParams = new URLSearchParams({
       page: String(normalized.page),
       per_page: String(normalized.per_page),
@@ -382,6 +697,14 @@ class CloudflareClientImpl implements CloudflareClient {
     return createPaginatedResponse(response.result, response.result_info);
   }
 
+  async *listAllAccountMembers(
+    accountId: string,
+    params?: PaginationParams
+  ): AsyncGenerator<ListPage<AccountMember>> {
+    const per_page = params?.per_page ?? this.pageSize.maxPerPage;
+    yield* paginate((page) => this.listAccountMembers(accountId, { page, per_page }), params?.page);
+  }
+
   // ===========================================================================
   // Zones
   // ===========================================================================
@@ -389,7 +712,7 @@ class CloudflareClientImpl implements CloudflareClient {
   async listZones(
     params?: PaginationParams & { name?: string; status?: string }
   ): Promise<PaginatedResponse<Zone>> {
-    const normalized = normalizePaginationParams(params);
+    const normalized = normalizePaginationParams(params, this.pageSize);
     const queryParams = new URLSearchParams({
       page: String(normalized.page),
       per_page: String(normalized.per_page),
@@ -401,6 +724,13 @@ class CloudflareClientImpl implements CloudflareClient {
     return createPaginatedResponse(response.result, response.result_info);
   }
 
+  async *listAllZones(
+    params?: PaginationParams & { name?: string; status?: string }
+  ): AsyncGenerator<ListPage<Zone>> {
+    const per_page = params?.per_page ?? this.pageSize.maxPerPage;
+    yield* paginate((page) => this.listZones({ ...params, page, per_page }), params?.page);
+  }
+
   async getZone(zoneId: string): Promise<Zone> {
     const response = await this.request<Zone>(`/zones/${zoneId}`);
     return response.result;
@@ -464,7 +794,7 @@ class CloudflareClientImpl implements CloudflareClient {
     zoneId: string,
     params?: PaginationParams & { type?: string; name?: string; content?: string }
   ): Promise<PaginatedResponse<DnsRecord>> {
-    const normalized = normalizePaginationParams(params);
+    const normalized = normalizePaginationParams(params, this.pageSize);
     const queryParams = new URLSearchParams({
       page: String(normalized.page),
       per_page: String(normalized.per_page),
@@ -477,6 +807,17 @@ class CloudflareClientImpl implements CloudflareClient {
     return createPaginatedResponse(response.result, response.result_info);
   }
 
+  async *listAllDnsRecords(
+    zoneId: string,
+    params?: PaginationParams & { type?: string; name?: string; content?: string }
+  ): AsyncGenerator<ListPage<DnsRecord>> {
+    const per_page = params?.per_page ?? this.pageSize.maxPerPage;
+    yield* paginate(
+      (page) => this.listDnsRecords(zoneId, { ...params, page, per_page }),
+      params?.page
+    );
+  }
+
   async getDnsRecord(zoneId: string, recordId: string): Promise<DnsRecord> {
     const response = await this.request<DnsRecord>(`/zones/${zoneId}/dns_records/${recordId}`);
     return response.result;
@@ -611,7 +952,7 @@ class CloudflareClientImpl implements CloudflareClient {
     accountId: string,
     params?: PaginationParams
   ): Promise<PaginatedResponse<KvNamespace>> {
-    const normalized = normalizePaginationParams(params);
+    const normalized = normalizePaginationParams(params, this.pageSize);
     const queryParams = new URLSearchParams({
       page: String(normalized.page),
       per_page: String(normalized.per_page),
@@ -623,6 +964,14 @@ class CloudflareClientImpl implements CloudflareClient {
     return createPaginatedResponse(response.result, response.result_info);
   }
 
+  async *listAllKvNamespaces(
+    accountId: string,
+    params?: PaginationParams
+  ): AsyncGenerator<ListPage<KvNamespace>> {
+    const per_page = params?.per_page ?? this.pageSize.maxPerPage;
+    yield* paginate((page) => this.listKvNamespaces(accountId, { page, per_page }), params?.page);
+  }
+
   async getKvNamespace(accountId: string, namespaceId: string): Promise<KvNamespace> {
     const response = await this.request<KvNamespace>(
       `/accounts/${accountId}/storage/kv/namespaces/${namespaceId}`
@@ -681,6 +1030,24 @@ class CloudflareClientImpl implements CloudflareClient {
     };
   }
 
+  async *listAllKvKeys(
+    accountId: string,
+    namespaceId: string,
+    params?: { prefix?: string; cursor?: string; limit?: number }
+  ): AsyncGenerator<ListPage<KvKey>> {
+    let cursor = params?.cursor;
+    do {
+      const result = await this.listKvKeys(accountId, namespaceId, {
+        prefix: params?.prefix,
+        cursor,
+        limit: params?.limit ?? 1000,
+      });
+      // The last page comes with an empty cursor
+      cursor = result.list_complete ? undefined : result.cursor;
+      yield { items: result.keys, cursor };
+    } while (cursor);
+  }
+
   async getKvValue(accountId: string, namespaceId: string, key: string): Promise<string> {
     return this.requestRaw(
       `/accounts/${accountId}/storage/kv/namespaces/${namespaceId}/values/${encodeURIComponent(key)}`
@@ -722,7 +1089,7 @@ class CloudflareClientImpl implements CloudflareClient {
     accountId: string,
     params?: PaginationParams
   ): Promise<PaginatedResponse<D1Database>> {
-    const normalized = normalizePaginationParams(params);
+    const normalized = normalizePaginationParams(params, this.pageSize);
     const queryParams = new URLSearchParams({
       page: String(normalized.page),
       per_page: String(normalized.per_page),
@@ -734,6 +1101,14 @@ class CloudflareClientImpl implements CloudflareClient {
     return createPaginatedResponse(response.result, response.result_info);
   }
 
+  async *listAllD1Databases(
+    accountId: string,
+    params?: PaginationParams
+  ): AsyncGenerator<ListPage<D1Database>> {
+    const per_page = params?.per_page ?? this.pageSize.maxPerPage;
+    yield* paginate((page) => this.listD1Databases(accountId, { page, per_page }), params?.page);
+  }
+
   async getD1Database(accountId: string, databaseId: string): Promise<D1Database> {
     const response = await this.request<D1Database>(
       `/accounts/${accountId}/d1/database/${databaseId}`
@@ -771,6 +1146,19 @@ class CloudflareClientImpl implements CloudflareClient {
     return response.result;
   }
 
+  async getD1Schema(accountId: string, databaseId: string): Promise<string[]> {
+    // The query endpoint is a POST, but this query only reads sqlite_master, so
+    // it skips request() and its dry-run preview and is sent in dry-run mode too
+    const response = await this.requestUncached<D1QueryResult[]>(
+      `/accounts/${accountId}/d1/database/${databaseId}/query`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ sql: D1_SCHEMA_QUERY }),
+      }
+    );
+    return (response.result[0]?.results ?? []).map((row) => String(row.sql));
+  }
+
   // ===========================================================================
   // R2 Storage
   // ===========================================================================
@@ -1078,7 +1466,11 @@ class CloudflareClientImpl implements CloudflareClient {
  * allowing a single server deployment to serve multiple tenants.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param options - Optional overrides (transport, base URL, retry budget)
  */
-export function createCloudflareClient(credentials: TenantCredentials): CloudflareClient {
-  return new CloudflareClientImpl(credentials);
+export function createCloudflareClient(
+  credentials: TenantCredentials,
+  options: CloudflareClientOptions = {}
+): CloudflareClient {
+  return new CloudflareClientImpl(credentials, options);
 }
@@ -5,134 +5,328 @@
  *
  * MULTI-TENANT ARCHITECTURE:
  * Tenant credentials (API tokens, etc.) are parsed from request headers,
- * allowing a single server deployment to serve multiple customers.
+ * allowing a single server deployment to serve multiple customers. POST /mcp is
+ * stateless; GET /sse opens a Durable Object session bound to its headers.
  *
  * Required Headers:
  * - X-CF-API-Token: Cloudflare API token (recommended)
  * OR
  * - X-CF-API-Email + X-CF-API-Key: Legacy API key authentication
+ * OR
+ * - X-CF-Tenant-Key: Key for credentials stored with POST /tenants (when VAULT_KEY is set)
  *
  * Optional Headers:
  * - X-CF-Account-ID: Account ID for account-scoped operations
+ * - X-CF-Max-Retries: Retry budget for transient API failures
+ * - X-CF-Timeout-Ms: Per-attempt Cloudflare API timeout in milliseconds
+ * - X-CF-Dry-Run: Preview every write instead of sending it
+ * - X-CF-Mode: "read-only" registers only tools without side effects
+ * - X-CF-Tools-Allow / X-CF-Tools-Deny: Comma-separated tool or category names
+ * - X-CF-Session: Session token from cloudflare_set_context (stateless /mcp only)
+ *
+ * OAuth (when OAUTH_IDP_* is configured):
+ * - Authorization: Bearer <access token issued by this server>, in place of the
+ *   credential headers. See src/auth/oauth.ts for the endpoints.
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpAgent } from 'agents/mcp';
-import { createCloudflareClient } from './client.js';
 import {
-  registerAccountTools,
-  registerAnalyticsTools,
-  registerCacheTools,
-  registerD1Tools,
-  registerDnsTools,
-  registerFirewallTools,
-  registerKvTools,
-  registerLoadBalancerTools,
-  registerPagesTools,
-  registerR2Tools,
-  registerSslTools,
-  registerWafTools,
-  registerWorkersTools,
-  registerZoneTools,
+  CredentialVault,
+  OAuthServer,
+  parseBearerToken,
+  VaultRequestError,
+} from './auth/index.js';
+import type { CloudflareClientOptions } from './client.js';
+import { PROMPT_TOOLS } from './prompts/index.js';
+import { RESOURCE_TEMPLATES } from './resources/index.js';
+import {
+  createStatelessServer,
+  getToolCatalogue,
+  loadTenantSession,
+  loadTenantTokenPermissions,
+  SERVER_NAME,
+  SERVER_VERSION,
+  verifyTenantCredentials,
+} from './server.js';
+import {
+  findUnknownPolicyEntries,
+  TOOL_CATEGORIES,
+  type TokenPermissions,
+  type ToolPolicy,
 } from './tools/index.js';
 import {
   type Env,
-  type TenantCredentials,
+  getApiRateLimit,
+  getCharacterLimit,
+  getCredentialToolPolicy,
+  getDefaultPageSize,
+  getIdentityProviderConfig,
+  getLinkedCredentials,
+  getMaxPageSize,
+  parseDryRun,
+  parseMaxRetries,
+  parseSessionToken,
   parseTenantCredentials,
+  parseTimeoutMs,
+  parseToolPolicy,
+  type TenantCredentials,
   validateCredentials,
 } from './types/env.js';
+import { MemorySessionStore, type SessionState, type SessionStore } from './utils/session.js';
+import { MemoryKeyValueStore } from './utils/store.js';
+
+/**
+ * Fallback continuation, rate limit, token permission and zone name storage
+ * when CACHE_KV isn't bound. Lives for the isolate's lifetime, so it outlasts the
+ * per-request servers.
+ */
+const memoryContinuationStore = new MemoryKeyValueStore();
+const memoryRateLimitStore = new MemoryKeyValueStore(1000);
+const memoryPermissionStore = new MemoryKeyValueStore(1000);
+const memoryZoneNameStore = new MemoryKeyValueStore(1000);
 
 // =============================================================================
-// MCP Server Configuration
+// Tenant Setup (shared by both transports)
 // =============================================================================
 
-const SERVER_NAME = 'primrose-mcp-cloudflare';
-const SERVER_VERSION = '1.0.0';
+/**
+ * Everything a tenant's server is built from, parsed from the request headers.
+ * Durable Object sessions keep it as the props of the request that opened them.
+ */
+export interface TenantSession extends Record<string, unknown> {
+  credentials: TenantCredentials;
+  clientOptions: CloudflareClientOptions;
+  toolPolicies: ToolPolicy[];
+  tokenPermissions?: TokenPermissions;
+}
 
-// =============================================================================
-// MCP Agent (Stateful - uses Durable Objects)
-// =============================================================================
+/**
+ * The OAuth authorization server, when an identity provider is configured and
+ * CACHE_KV is bound (see findMissingStorage)
+ */
+function createOAuthServer(env: Env): OAuthServer | undefined {
+  const idp = getIdentityProviderConfig(env);
+  if (!idp || !env.CACHE_KV) return undefined;
+
+  return new OAuthServer({
+    idp,
+    store: env.CACHE_KV,
+    credentials: async (userId) => getLinkedCredentials(env, userId),
+  });
+}
 
 /**
- * McpAgent provides stateful MCP sessions backed by Durable Objects.
- *
- * NOTE: For multi-tenant deployments, use the stateless mode instead.
+ * Settings that are configured but need CACHE_KV, which isn't bound. Isolate
+ * memory won't do for them: a tenant key, OAuth client or token stored in one
+ * isolate would be unknown in the others, and lost on eviction or restart.
  */
-export class CloudflareMcpAgent extends McpAgent<Env> {
-  server = new McpServer({
-    name: SERVER_NAME,
-    version: SERVER_VERSION,
+function findMissingStorage(env: Env): string[] {
+  if (env.CACHE_KV) return [];
+  return [
+    ...(getIdentityProviderConfig(env) ? ['OAUTH_IDP_*'] : []),
+    ...(env.VAULT_KEY ? ['VAULT_KEY'] : []),
+  ];
+}
+
+/**
+ * Alternatives to credential headers, when the server has them configured
+ */
+interface TenantAuth {
+  oauth?: OAuthServer;
+  vault?: CredentialVault;
+}
+
+/**
+ * The credential vault, when VAULT_KEY is set and CACHE_KV is bound (see
+ * findMissingStorage)
+ */
+function createCredentialVault(env: Env): CredentialVault | undefined {
+  if (!env.VAULT_KEY || !env.CACHE_KV) return undefined;
+
+  return new CredentialVault({
+    store: env.CACHE_KV,
+    secret: env.VAULT_KEY,
+    previousSecret: env.VAULT_PREVIOUS_KEY,
+    adminToken: env.VAULT_ADMIN_TOKEN,
+    verify: (credentials) =>
+      verifyTenantCredentials(credentials, { baseUrl: env.CLOUDFLARE_API_BASE_URL }),
   });
+}
 
-  async init() {
-    throw new Error(
-      'Stateful mode (McpAgent) is not supported for multi-tenant deployments. ' +
-        'Use the stateless /mcp endpoint with X-CF-API-Token header instead.'
+/**
+ * Parse and check the tenant's headers. Returns the error response to send
+ * when credentials are missing or the tool policy names unknown tools.
+ */
+async function parseTenantSession(
+  request: Request,
+  env: Env,
+  { oauth, vault }: TenantAuth = {}
+): Promise<TenantSession | Response> {
+  let credentials: TenantCredentials;
+  try {
+    // Parse tenant credentials from request headers, resolving a vault tenant key
+    credentials = await parseTenantCredentials(request, vault);
+
+    // Or look them up from an OAuth access token
+    if (oauth && parseBearerToken(request)) {
+      const linked = await oauth.authenticate(request);
+      if (!linked) {
+        return new Response(
+          JSON.stringify({
+            error: 'Unauthorized',
+            message: 'Access token is invalid, expired or revoked',
+          }),
+          {
+            status: 401,
+            headers: {
+              'Content-Type': 'application/json',
+              'WWW-Authenticate': oauth.challenge(request, 'invalid_token'),
+            },
+          }
+        );
+      }
+      credentials = { ...linked, accountId: linked.accountId ?? credentials.accountId };
+    }
+
+    // Validate credentials are present
+    validateCredentials(credentials);
+  } catch (error) {
+    // A valid tenant key whose credentials the vault can't decrypt: not the client's fault
+    if (error instanceof VaultRequestError) {
+      return new Response(
+        JSON.stringify({ error: 'Service Unavailable', message: error.message }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (oauth) {
+      // Lets MCP clients discover the authorization server and sign in
+      headers['WWW-Authenticate'] = oauth.challenge(request);
+    }
+    const requiredHeaders = ['X-CF-API-Token', 'or X-CF-API-Email + X-CF-API-Key'];
+    if (vault) {
+      requiredHeaders.push('or X-CF-Tenant-Key');
+    }
+    return new Response(
+      JSON.stringify({
+        error: 'Unauthorized',
+        message: error instanceof Error ? error.message : 'Invalid credentials',
+        required_headers: requiredHeaders,
+      }),
+      {
+        status: 401,
+        headers,
+      }
+    );
+  }
+
+  // Tool policies: the operator's for these credentials, plus any requested in headers
+  const toolPolicies = [parseToolPolicy(request)];
+  const credentialPolicy = await getCredentialToolPolicy(env, credentials);
+  if (credentialPolicy) {
+    toolPolicies.push(credentialPolicy);
+  }
+
+  const toolNames = getToolCatalogue()
+    .list()
+    .map((tool) => tool.name);
+  const unknownEntries = toolPolicies.flatMap((policy) =>
+    findUnknownPolicyEntries(policy, toolNames)
+  );
+  if (unknownEntries.length > 0) {
+    return new Response(
+      JSON.stringify({
+        error: 'Bad Request',
+        message: `Unknown tools or categories in tool policy: ${unknownEntries.join(', ')}`,
+        categories: TOOL_CATEGORIES,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      }
     );
   }
+
+  const clientOptions: CloudflareClientOptions = {
+    baseUrl: env.CLOUDFLARE_API_BASE_URL,
+    retry: { maxRetries: parseMaxRetries(request) },
+    timeoutMs: parseTimeoutMs(request),
+    dryRun: parseDryRun(request),
+  };
+
+  // Only register the tools the API token has permissions for
+  const tokenPermissions = await loadTenantTokenPermissions(
+    credentials,
+    clientOptions,
+    env.CACHE_KV ?? memoryPermissionStore
+  );
+
+  return { credentials, clientOptions, toolPolicies, tokenPermissions };
+}
+
+/**
+ * Build the tenant's MCP server with the server-wide settings from env
+ */
+function createTenantServer(env: Env, tenant: TenantSession, session?: SessionStore): McpServer {
+  return createStatelessServer(tenant.credentials, tenant.clientOptions, {
+    characterLimit: getCharacterLimit(env),
+    continuationStore: env.CACHE_KV ?? memoryContinuationStore,
+    pageSize: {
+      defaultPerPage: getDefaultPageSize(env),
+      maxPerPage: getMaxPageSize(env),
+    },
+    rateLimitStore: env.CACHE_KV ?? memoryRateLimitStore,
+    rateLimit: { capacity: getApiRateLimit(env) },
+    responseCacheStore: env.RESPONSE_CACHE === 'true' ? env.CACHE_KV : undefined,
+    toolPolicies: tenant.toolPolicies,
+    tokenPermissions: tenant.tokenPermissions,
+    confirmationSecret: env.CONFIRMATION_SECRET,
+    zoneNameStore: env.CACHE_KV ?? memoryZoneNameStore,
+    session,
+    sessionSecret: env.SESSION_SECRET,
+  });
 }
 
 // =============================================================================
-// Stateless MCP Server (Recommended - no Durable Objects needed)
+// MCP Agent (Stateful - uses Durable Objects)
 // =============================================================================
 
 /**
- * Creates a stateless MCP server instance with tenant-specific credentials.
- *
- * MULTI-TENANT: Each request provides credentials via headers, allowing
- * a single server deployment to serve multiple tenants.
+ * McpAgent provides stateful MCP sessions backed by Durable Objects, for the
+ * legacy SSE transport. Credentials are bound once, from the headers of the
+ * request that opens the session; later messages only carry the session ID.
+ * Session state (e.g. the default account) survives the object being evicted.
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
-  const server = new McpServer({
-    name: SERVER_NAME,
-    version: SERVER_VERSION,
-  });
+export class CloudflareMcpAgent extends McpAgent<Env, SessionState, TenantSession> {
+  /** Built in init(), once the session's credentials are known */
+  server!: McpServer;
 
-  // Create client with tenant-specific credentials
-  const client = createCloudflareClient(credentials);
-
-  // Register all tool categories
-  registerZoneTools(server, client);
-  registerDnsTools(server, client);
-  registerWorkersTools(server, client);
-  registerKvTools(server, client);
-  registerD1Tools(server, client);
-  registerR2Tools(server, client);
-  registerPagesTools(server, client);
-  registerCacheTools(server, client);
-  registerFirewallTools(server, client);
-  registerWafTools(server, client);
-  registerLoadBalancerTools(server, client);
-  registerSslTools(server, client);
-  registerAccountTools(server, client);
-  registerAnalyticsTools(server, client);
-
-  // Test connection tool
-  server.tool(
-    'cloudflare_test_connection',
-    'Test the connection to the Cloudflare API. Returns the authenticated user email if successful.',
-    {},
-    async () => {
-      try {
-        const result = await client.testConnection();
-        return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+  initialState: SessionState = {};
+
+  async init() {
+    if (!this.props) {
+      throw new Error('MCP session has no tenant credentials; open it with GET /sse');
     }
-  );
+    this.server = createTenantServer(this.env, this.props, {
+      get: () => this.state,
+      update: (changes) => this.setState({ ...this.state, ...changes }),
+    });
+  }
+}
 
-  return server;
+/**
+ * ctx with the props McpAgent.serveSSE stores in the session's Durable Object.
+ * Undefined props leave the session's stored props as they are.
+ */
+function withSessionProps(ctx: ExecutionContext, props?: TenantSession): ExecutionContext {
+  return {
+    waitUntil: (promise) => ctx.waitUntil(promise),
+    passThroughOnException: () => ctx.passThroughOnException(),
+    props,
+    tracing: ctx.tracing,
+  };
 }
 
 // =============================================================================
@@ -146,6 +340,21 @@ export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
 
+    // Refuse to run rather than lose stored state, health checks included
+    const missingStorage = findMissingStorage(env);
+    if (missingStorage.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: 'Service Unavailable',
+          message: `${missingStorage.join(' and ')} require the CACHE_KV binding, which is missing`,
+        }),
+        {
+          status: 503,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     // Health check endpoint
     if (url.pathname === '/health') {
       return new Response(JSON.stringify({ status: 'ok', server: SERVER_NAME }), {
@@ -153,32 +362,37 @@ export default {
       });
     }
 
+    // ==========================================================================
+    // OAuth authorization server (metadata, registration, authorize, token)
+    // and credential vault (tenant registration, admin rotation and revocation)
+    // ==========================================================================
+    const auth: TenantAuth = { oauth: createOAuthServer(env), vault: createCredentialVault(env) };
+    for (const service of [auth.oauth, auth.vault]) {
+      const response = await service?.handle(request);
+      if (response) {
+        return response;
+      }
+    }
+
     // ==========================================================================
     // Stateless MCP with Streamable HTTP
     // ==========================================================================
     if (url.pathname === '/mcp' && request.method === 'POST') {
-      // Parse tenant credentials from request headers
-      const credentials = parseTenantCredentials(request);
-
-      // Validate credentials are present
-      try {
-        validateCredentials(credentials);
-      } catch (error) {
-        return new Response(
-          JSON.stringify({
-            error: 'Unauthorized',
-            message: error instanceof Error ? error.message : 'Invalid credentials',
-            required_headers: ['X-CF-API-Token', 'or X-CF-API-Email + X-CF-API-Key'],
-          }),
-          {
-            status: 401,
-            headers: { 'Content-Type': 'application/json' },
-          }
-        );
+      const tenant = await parseTenantSession(request, env, auth);
+      if (tenant instanceof Response) {
+        return tenant;
       }
 
-      // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      // Context pinned by cloudflare_set_context in earlier requests
+      const session = await loadTenantSession(
+        tenant.credentials,
+        parseSessionToken(request),
+        env.SESSION_SECRET
+      );
+
+      // Create server with tenant-specific credentials. It never sees the client's
+      // initialize, so destructive tools confirm with tokens rather than elicitation
+      const server = createTenantServer(env, tenant, new MemorySessionStore(session));
 
       // Import and use createMcpHandler for streamable HTTP
       const { createMcpHandler } = await import('agents/mcp');
@@ -186,10 +400,47 @@ export default {
       return handler(request, env, ctx);
     }
 
-    // SSE endpoint for legacy clients
-    if (url.pathname === '/sse') {
-      return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
-        status: 501,
+    // ==========================================================================
+    // Stateful MCP over SSE (legacy transport, one Durable Object per session)
+    // ==========================================================================
+    if (url.pathname === '/sse' || url.pathname === '/sse/message') {
+      if (!env.MCP_SESSIONS) {
+        return new Response('SSE endpoint requires the MCP_SESSIONS Durable Object binding.', {
+          status: 501,
+        });
+      }
+      const sse = CloudflareMcpAgent.serveSSE('/sse', { binding: 'MCP_SESSIONS' });
+
+      // Messages go to an open session, whose credentials were bound when it opened
+      if (url.pathname === '/sse/message') {
+        return sse.fetch(request, env, withSessionProps(ctx));
+      }
+
+      // A new session; reattaching to an existing one would rebind its credentials
+      if (request.method !== 'GET' || url.searchParams.has('sessionId')) {
+        return new Response('Open a new session with GET /sse.', { status: 400 });
+      }
+      const tenant = await parseTenantSession(request, env, auth);
+      if (tenant instanceof Response) {
+        return tenant;
+      }
+      return sse.fetch(request, env, withSessionProps(ctx, tenant));
+    }
+
+    // Every tool the server can register, with its description and input schema
+    if (url.pathname === '/tools' && request.method === 'GET') {
+      const tools = getToolCatalogue()
+        .list()
+        .map((tool) => ({
+          name: tool.name,
+          category: tool.category,
+          mutating: tool.mutating,
+          destructive: tool.destructive,
+          description: tool.description,
+          input_schema: tool.inputSchema,
+        }));
+      return new Response(JSON.stringify({ categories: TOOL_CATEGORIES, tools }), {
+        headers: { 'Content-Type': 'application/json' },
       });
     }
 
@@ -201,121 +452,39 @@ export default {
         description: 'Multi-tenant Cloudflare MCP Server',
         endpoints: {
           mcp: '/mcp (POST) - Streamable HTTP MCP endpoint',
+          sse: '/sse (GET) - Stateful MCP session over SSE; messages go to /sse/message',
+          tools: '/tools (GET) - Every tool with its category, description and input schema',
           health: '/health - Health check',
+          oauth: '/.well-known/oauth-authorization-server - OAuth metadata (when configured)',
+          tenants: '/tenants (POST) - Store credentials for an X-CF-Tenant-Key (when configured)',
         },
         authentication: {
-          description: 'Pass tenant credentials via request headers',
+          description:
+            'Pass tenant credentials via request headers, or an OAuth access token as ' +
+            '"Authorization: Bearer" when the server has OAuth configured',
           required_headers: {
             'X-CF-API-Token': 'Cloudflare API token (recommended)',
           },
           alternative_headers: {
             'X-CF-API-Email': 'Email for legacy API key authentication',
             'X-CF-API-Key': 'Legacy global API key',
+            'X-CF-Tenant-Key': 'tenant_key from POST /tenants, in place of the credentials',
           },
           optional_headers: {
             'X-CF-Account-ID': 'Account ID for account-scoped operations',
+            'X-CF-Max-Retries':
+              'Retry budget for rate limits and transient errors (default: 3, max: 10)',
+            'X-CF-Timeout-Ms': 'Per-attempt API timeout in milliseconds (default: 30000)',
+            'X-CF-Dry-Run': 'Set to "true" to preview every write instead of sending it',
+            'X-CF-Mode': 'Set to "read-only" to expose only list, get and analytics tools',
+            'X-CF-Tools-Allow': 'Comma-separated tool or category names to expose (see tools)',
+            'X-CF-Tools-Deny': 'Comma-separated tool or category names to hide',
+            'X-CF-Session': 'session_token returned by cloudflare_set_context',
           },
         },
-        tools: {
-          zones: [
-            'cloudflare_list_zones',
-            'cloudflare_get_zone',
-            'cloudflare_create_zone',
-            'cloudflare_update_zone',
-            'cloudflare_delete_zone',
-            'cloudflare_get_zone_settings',
-            'cloudflare_update_zone_setting',
-            'cloudflare_zone_activation_check',
-          ],
-          dns: [
-            'cloudflare_list_dns_records',
-            'cloudflare_get_dns_record',
-            'cloudflare_create_dns_record',
-            'cloudflare_update_dns_record',
-            'cloudflare_delete_dns_record',
-            'cloudflare_export_dns_records',
-            'cloudflare_import_dns_records',
-          ],
-          workers: [
-            'cloudflare_list_workers',
-            'cloudflare_get_worker',
-            'cloudflare_delete_worker',
-            'cloudflare_list_worker_routes',
-            'cloudflare_create_worker_route',
-            'cloudflare_delete_worker_route',
-            'cloudflare_get_worker_cron_triggers',
-            'cloudflare_list_worker_secrets',
-          ],
-          kv: [
-            'cloudflare_list_kv_namespaces',
-            'cloudflare_get_kv_namespace',
-            'cloudflare_create_kv_namespace',
-            'cloudflare_rename_kv_namespace',
-            'cloudflare_delete_kv_namespace',
-            'cloudflare_list_kv_keys',
-            'cloudflare_get_kv_value',
-            'cloudflare_put_kv_value',
-            'cloudflare_delete_kv_value',
-          ],
-          d1: [
-            'cloudflare_list_d1_databases',
-            'cloudflare_get_d1_database',
-            'cloudflare_create_d1_database',
-            'cloudflare_delete_d1_database',
-            'cloudflare_query_d1_database',
-          ],
-          r2: [
-            'cloudflare_list_r2_buckets',
-            'cloudflare_get_r2_bucket',
-            'cloudflare_create_r2_bucket',
-            'cloudflare_delete_r2_bucket',
-          ],
-          pages: [
-            'cloudflare_list_pages_projects',
-            'cloudflare_get_pages_project',
-            'cloudflare_create_pages_project',
-            'cloudflare_delete_pages_project',
-            'cloudflare_list_pages_deployments',
-            'cloudflare_get_pages_deployment',
-            'cloudflare_delete_pages_deployment',
-            'cloudflare_rollback_pages_deployment',
-          ],
-          cache: [
-            'cloudflare_purge_all_cache',
-            'cloudflare_purge_cache_by_url',
-            'cloudflare_purge_cache_by_tag',
-            'cloudflare_purge_cache_by_host',
-          ],
-          firewall: [
-            'cloudflare_list_firewall_rules',
-            'cloudflare_get_firewall_rule',
-            'cloudflare_create_firewall_rule',
-            'cloudflare_update_firewall_rule',
-            'cloudflare_delete_firewall_rule',
-            'cloudflare_list_filters',
-          ],
-          waf: [
-            'cloudflare_list_waf_packages',
-            'cloudflare_list_waf_rules',
-            'cloudflare_update_waf_rule',
-          ],
-          load_balancers: [
-            'cloudflare_list_load_balancers',
-            'cloudflare_get_load_balancer',
-            'cloudflare_list_load_balancer_pools',
-            'cloudflare_get_load_balancer_pool',
-            'cloudflare_list_load_balancer_monitors',
-          ],
-          ssl: ['cloudflare_list_ssl_certificates'],
-          accounts: [
-            'cloudflare_get_user',
-            'cloudflare_list_accounts',
-            'cloudflare_get_account',
-            'cloudflare_list_account_members',
-          ],
-          analytics: ['cloudflare_get_zone_analytics', 'cloudflare_get_dns_analytics'],
-          connection: ['cloudflare_test_connection'],
-        },
+        tools: getToolCatalogue().byCategory(),
+        resources: RESOURCE_TEMPLATES,
+        prompts: Object.keys(PROMPT_TOOLS),
       }),
       {
         headers: { 'Content-Type': 'application/json' },
@@ -0,0 +1,463 @@
+/**
+ * Cloudflare Prompts
+ *
+ * MCP prompts for common multi-step workflows. Each prompt fetches the
+ * current state of the zone or account through CloudflareClient and returns
+ * it with the tool sequence for the job, so the model starts from facts
+ * rather than guesses. A prompt is only registered when the tenant's
+ * policies allow every tool it walks through.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { CloudflareClient } from '../client.js';
+import type { ToolContext } from '../tools/context.js';
+import { isToolAllowed, type ToolPolicy } from '../tools/policy.js';
+import type { ToolRegistry } from '../tools/registry.js';
+import type { DnsRecord, SslCertificate } from '../types/cloudflare.js';
+import { collectAll } from '../utils/pagination.js';
+
+/**
+ * The tools each prompt walks through, by prompt name. Their categories and
+ * annotations come from the tool registry.
+ */
+export const PROMPT_TOOLS: Record<string, string[]> = {
+  onboard_domain: [
+    'cloudflare_list_zones',
+    'cloudflare_create_zone',
+    'cloudflare_list_dns_records',
+    'cloudflare_create_dns_record',
+    'cloudflare_update_zone_setting',
+    'cloudflare_zone_activation_check',
+  ],
+  harden_zone_security: [
+    'cloudflare_get_zone_settings',
+    'cloudflare_update_zone_setting',
+    'cloudflare_list_ssl_certificates',
+    'cloudflare_list_firewall_rules',
+    'cloudflare_list_waf_packages',
+  ],
+  investigate_traffic_spike: [
+    'cloudflare_get_zone_analytics',
+    'cloudflare_get_dns_analytics',
+    'cloudflare_get_zone_settings',
+    'cloudflare_list_firewall_rules',
+    'cloudflare_create_firewall_rule',
+    'cloudflare_update_zone_setting',
+  ],
+  rotate_origin_certificate: [
+    'cloudflare_get_zone_settings',
+    'cloudflare_list_ssl_certificates',
+    'cloudflare_update_zone_setting',
+    'cloudflare_get_zone_analytics',
+  ],
+  migrate_dns_from_bind: [
+    'cloudflare_list_dns_records',
+    'cloudflare_export_dns_records',
+    'cloudflare_import_dns_records',
+    'cloudflare_update_dns_record',
+    'cloudflare_delete_dns_record',
+  ],
+};
+
+/**
+ * Zone settings the hardening prompt checks, with the values it recommends
+ */
+const HARDENED_SETTINGS: Record<string, unknown> = {
+  ssl: 'strict',
+  always_use_https: 'on',
+  min_tls_version: '1.2',
+  tls_1_3: 'on',
+  automatic_https_rewrites: 'on',
+  security_level: 'medium',
+  browser_check: 'on',
+  waf: 'on',
+};
+
+/** Existing records listed in the DNS migration prompt; the rest are counted */
+const MAX_LISTED_RECORDS = 100;
+
+const zoneArg = z.string().describe('Zone ID or domain name (default: the pinned zone)');
+
+/**
+ * Register the workflow prompts the policies allow. tools holds every tool the
+ * server can register (see getToolCatalogue).
+ */
+export function registerPrompts(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext,
+  tools: ToolRegistry,
+  policies: ToolPolicy[] = []
+): void {
+  const allowed = (name: string) =>
+    PROMPT_TOOLS[name].every((tool) => {
+      const descriptor = tools.descriptor(tool);
+      return descriptor !== undefined && isToolAllowed(policies, descriptor);
+    });
+
+  // ===========================================================================
+  // Onboard a New Domain
+  // ===========================================================================
+  if (allowed('onboard_domain')) {
+    server.registerPrompt(
+      'onboard_domain',
+      {
+        title: 'Onboard a new domain',
+        description:
+          'Add a domain to Cloudflare, bring over its DNS records, switch on HTTPS defaults ' +
+          'and check activation.',
+        argsSchema: {
+          domain: z.string().describe('Domain to onboard, e.g. example.com'),
+          account_id: z.string().optional().describe('Account ID (default: the default account)'),
+        },
+      },
+      async ({ domain, account_id }, { signal }) => {
+        const api = client.withSignal(signal);
+        const accountId = await context.account.resolve(api, account_id);
+        const existing = (await api.listZones({ name: domain, per_page: 5 })).items[0];
+
+        const state = existing
+          ? [
+              `${domain} is already a zone (ID ${existing.id}, status ${existing.status}), per ` +
+                '`cloudflare_list_zones`. Skip creating it and pick up from the first step that ' +
+                'is not done yet.',
+              block({
+                id: existing.id,
+                status: existing.status,
+                name_servers: existing.name_servers,
+                original_name_servers: existing.original_name_servers,
+              }),
+            ]
+          : [
+              `${domain} is not a zone yet (\`cloudflare_list_zones\` finds no match). It will ` +
+                `be created in account ${accountId}.`,
+            ];
+
+        return workflow({
+          goal: `Onboard the domain ${domain} to Cloudflare.`,
+          state,
+          steps: [
+            `Create the zone with \`cloudflare_create_zone\` (name: "${domain}", account_id: ` +
+              `"${accountId}", jump_start: true) so Cloudflare scans the existing DNS records. ` +
+              'Run it with dry_run: true first and show me the request.',
+            'List what the scan found with `cloudflare_list_dns_records` (all: true). Compare it ' +
+              'with the records I expect (the apex, www, MX and any TXT records for mail or ' +
+              'verification) and add missing ones with `cloudflare_create_dns_record`. Keep MX ' +
+              'and mail hostnames unproxied.',
+            'Switch on HTTPS defaults with `cloudflare_update_zone_setting`: ssl "full" (or ' +
+              '"strict" once the origin has a valid certificate), always_use_https "on" and ' +
+              'min_tls_version "1.2". Dry-run each change first.',
+            "Tell me which name servers to set at the registrar: the zone's name_servers, " +
+              'replacing its original_name_servers.',
+            'After I confirm the registrar change, run `cloudflare_zone_activation_check` and ' +
+              'report the zone status. Activation can take up to 24 hours.',
+          ],
+          note: 'Stop and ask before any step that would change or remove an existing record.',
+        });
+      }
+    );
+  }
+
+  // ===========================================================================
+  // Harden Zone Security
+  // ===========================================================================
+  if (allowed('harden_zone_security')) {
+    server.registerPrompt(
+      'harden_zone_security',
+      {
+        title: 'Harden zone security',
+        description:
+          "Audit a zone's TLS, HTTPS and firewall settings against recommended values and " +
+          'tighten them.',
+        argsSchema: { zone_id: zoneArg.optional() },
+      },
+      async ({ zone_id }, { signal }) => {
+        const api = client.withSignal(signal);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const [zone, settings, certificates, rules, wafPackages] = await Promise.all([
+          api.getZone(zoneId),
+          api.getZoneSettings(zoneId),
+          api.listSslCertificates(zoneId),
+          api.listFirewallRules(zoneId),
+          api.listWafPackages(zoneId),
+        ]);
+
+        const current = settingValues(settings);
+        const audit = Object.entries(HARDENED_SETTINGS).map(([id, recommended]) => ({
+          setting: id,
+          current: id in current ? current[id] : null,
+          recommended,
+        }));
+        const paused = rules.filter((rule) => rule.paused).length;
+
+        return workflow({
+          goal: `Harden the security configuration of ${zone.name} (zone ${zoneId}).`,
+          state: [
+            "Settings compared with the recommended values (null means the zone doesn't " +
+              'report the setting, e.g. because the plan lacks it):',
+            block(audit),
+            'Certificate packs (`cloudflare_list_ssl_certificates`):',
+            block(certificates.map(summarizeCertificate)),
+            `${rules.length} firewall rule(s), ${paused} paused. WAF packages:`,
+            block(
+              wafPackages.map(({ id, name, detection_mode, status }) => ({
+                id,
+                name,
+                detection_mode,
+                status,
+              }))
+            ),
+          ],
+          steps: [
+            'Walk me through every setting whose current value differs from the recommendation, ' +
+              'and what changing it could break. Setting ssl to "strict" fails with 526 errors ' +
+              'unless every origin serves a valid certificate.',
+            'For each change I approve, call `cloudflare_update_zone_setting` with dry_run: ' +
+              'true, show the diff, then apply it.',
+            "Flag any certificate pack that isn't active or expires within 30 days.",
+            'Review paused firewall rules and WAF packages that are off or in simulate mode ' +
+              'with `cloudflare_list_firewall_rules` and `cloudflare_list_waf_packages`, and ' +
+              'recommend which to enable.',
+            'Finish with `cloudflare_get_zone_settings` and a before/after summary.',
+          ],
+        });
+      }
+    );
+  }
+
+  // ===========================================================================
+  // Investigate Traffic Spike
+  // ===========================================================================
+  if (allowed('investigate_traffic_spike')) {
+    server.registerPrompt(
+      'investigate_traffic_spike',
+      {
+        title: 'Investigate a traffic spike',
+        description:
+          "Compare a zone's recent traffic with its weekly baseline, find the source of a spike " +
+          'and mitigate it if it is an attack.',
+        argsSchema: {
+          zone_id: zoneArg.optional(),
+          since: z
+            .string()
+            .optional()
+            .describe('Start of the spike window (ISO 8601 or -minutes, default: -1440)'),
+        },
+      },
+      async ({ zone_id, since = '-1440' }, { signal }) => {
+        const api = client.withSignal(signal);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const [zone, recent, baseline, settings, rules] = await Promise.all([
+          api.getZone(zoneId),
+          api.getZoneAnalytics(zoneId, since),
+          api.getZoneAnalytics(zoneId, '-10080'),
+          api.getZoneSettings(zoneId),
+          api.listFirewallRules(zoneId),
+        ]);
+        const securityLevel = settingValues(settings).security_level ?? null;
+
+        return workflow({
+          goal: `Investigate a traffic spike on ${zone.name} (zone ${zoneId}).`,
+          state: [
+            `Traffic since ${since}:`,
+            block(recent.totals),
+            'Baseline for the last 7 days:',
+            block(baseline.totals),
+            `security_level is ${JSON.stringify(securityLevel)} ` +
+              '(`cloudflare_get_zone_settings`). Active firewall rules ' +
+              '(`cloudflare_list_firewall_rules`):',
+            block(
+              rules
+                .filter((rule) => !rule.paused)
+                .map(({ id, action, description, filter }) => ({
+                  id,
+                  action,
+                  description,
+                  expression: filter.expression,
+                }))
+            ),
+          ],
+          steps: [
+            'Compare the window with the baseline: requests, uncached requests, threats, and the ' +
+              'country and http_status breakdowns. Say whether this looks like an attack, a ' +
+              'crawler, or legitimate growth.',
+            'Narrow it down with `cloudflare_get_zone_analytics` over shorter windows ' +
+              '(since/until) and, if DNS queries spiked too, `cloudflare_get_dns_analytics` ' +
+              'with dimensions ["queryName", "responseCode"].',
+            'If it is an attack, propose a `cloudflare_create_firewall_rule` that targets it (by ' +
+              'country, ASN, path or user agent) with action "managed_challenge". Dry-run it ' +
+              'and wait for my approval.',
+            'If the zone is overwhelmed, offer `cloudflare_update_zone_setting` with setting_id ' +
+              '"security_level" and value "under_attack", and remind me to revert it afterwards.',
+            'Summarize the findings and what was changed.',
+          ],
+        });
+      }
+    );
+  }
+
+  // ===========================================================================
+  // Rotate Origin Certificate
+  // ===========================================================================
+  if (allowed('rotate_origin_certificate')) {
+    server.registerPrompt(
+      'rotate_origin_certificate',
+      {
+        title: 'Rotate the origin certificate',
+        description:
+          "Replace the certificate on a zone's origin servers without breaking HTTPS between " +
+          'Cloudflare and the origin.',
+        argsSchema: { zone_id: zoneArg.optional() },
+      },
+      async ({ zone_id }, { signal }) => {
+        const api = client.withSignal(signal);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const [zone, settings, certificates] = await Promise.all([
+          api.getZone(zoneId),
+          api.getZoneSettings(zoneId),
+          api.listSslCertificates(zoneId),
+        ]);
+        const ssl = settingValues(settings).ssl ?? null;
+
+        return workflow({
+          goal: `Rotate the origin certificate for ${zone.name} (zone ${zoneId}).`,
+          state: [
+            `The SSL/TLS encryption mode (the ssl setting in \`cloudflare_get_zone_settings\`) ` +
+              `is ${JSON.stringify(ssl)}. Edge certificate packs ` +
+              '(`cloudflare_list_ssl_certificates`):',
+            block(certificates.map(summarizeCertificate)),
+          ],
+          steps: [
+            'This server has no tool for issuing Origin CA certificates. Ask me to issue the new ' +
+              'certificate in the dashboard (SSL/TLS > Origin Server) or through the Origin CA ' +
+              `API, covering ${zone.name} and *.${zone.name}.`,
+            'Have me install the new certificate and key on every origin alongside the old one, ' +
+              'then reload the web servers.',
+            'With the ssl mode at "strict", Cloudflare validates the origin certificate, so a ' +
+              'bad install shows up as 526 errors. If the mode is not "strict", recommend moving ' +
+              'to it with `cloudflare_update_zone_setting` (dry_run: true first) once the new ' +
+              'certificate is in place.',
+            'Check for 52x errors with `cloudflare_get_zone_analytics` (since: "-60") and its ' +
+              'http_status breakdown. If they rise, have me roll back to the old certificate.',
+            'Once traffic is healthy, remind me to revoke the old Origin CA certificate.',
+          ],
+        });
+      }
+    );
+  }
+
+  // ===========================================================================
+  // Migrate DNS from BIND
+  // ===========================================================================
+  if (allowed('migrate_dns_from_bind')) {
+    server.registerPrompt(
+      'migrate_dns_from_bind',
+      {
+        title: 'Migrate DNS from a BIND zone file',
+        description:
+          'Import the records from a BIND zone file into a zone, reconciling them with the ' +
+          'records it already has.',
+        argsSchema: {
+          zone_id: zoneArg.optional(),
+          zone_file: z
+            .string()
+            .optional()
+            .describe('Contents of the BIND zone file (default: ask for it)'),
+        },
+      },
+      async ({ zone_id, zone_file }, { signal }) => {
+        const api = client.withSignal(signal);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const zone = await api.getZone(zoneId);
+        const { items: records, hasMore } = await collectAll(
+          api.listAllDnsRecords(zoneId),
+          undefined,
+          context.output.characterLimit
+        );
+
+        const count = `${hasMore ? 'more than ' : ''}${records.length}`;
+        const existing =
+          records.length === 0
+            ? [`${zone.name} has no DNS records yet.`]
+            : [`${zone.name} has ${count} DNS record(s):`, recordLines(records)];
+        const file = zone_file
+          ? ['The zone file to import:', `\`\`\`\n${zone_file.trim()}\n\`\`\``]
+          : ['Ask me for the contents of the BIND zone file before starting.'];
+
+        return workflow({
+          goal: `Migrate DNS for ${zone.name} (zone ${zoneId}) from a BIND zone file.`,
+          state: [...existing, ...file],
+          steps: [
+            'Back up the current records with `cloudflare_export_dns_records` and keep the ' +
+              'output in the conversation.',
+            'Compare the zone file with the existing records. List the records that are new, the ' +
+              'ones that conflict (same name and type, different content) and the ones only ' +
+              'Cloudflare has. NS and SOA records for the apex are managed by Cloudflare and are ' +
+              'skipped on import.',
+            'Run `cloudflare_import_dns_records` with the file and dry_run: true, and show me ' +
+              'the result. Import it once I approve.',
+            'Resolve each conflict I choose with `cloudflare_update_dns_record` or ' +
+              '`cloudflare_delete_dns_record`, dry-running each first.',
+            'List the records with `cloudflare_list_dns_records` (all: true) and confirm every ' +
+              'record from the file is present. Imported records are unproxied; ask me which ' +
+              'web records to proxy.',
+          ],
+        });
+      }
+    );
+  }
+}
+
+/**
+ * A prompt's single user message: the goal, the current state fetched from
+ * Cloudflare, and numbered steps naming the tools to use
+ */
+function workflow(parts: {
+  goal: string;
+  state: string[];
+  steps: string[];
+  note?: string;
+}): GetPromptResult {
+  const steps = parts.steps.map((step, index) => `${index + 1}. ${step}`).join('\n');
+  const sections = [
+    parts.goal,
+    `## Current state\n\n${parts.state.join('\n\n')}`,
+    `## Steps\n\n${steps}`,
+    ...(parts.note ? [parts.note] : []),
+  ];
+  return message(sections.join('\n\n'));
+}
+
+function message(text: string): GetPromptResult {
+  return { messages: [{ role: 'user', content: { type: 'text', text } }] };
+}
+
+function summarizeCertificate({ id, type, hosts, status, expires_on }: SslCertificate) {
+  return { id, type, hosts, status, expires_on };
+}
+
+function block(data: unknown): string {
+  return `\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+}
+
+/**
+ * Zone settings from getZoneSettings as a map of setting ID to value
+ */
+function settingValues(settings: Record<string, unknown>[]): Record<string, unknown> {
+  return Object.fromEntries(settings.map((setting) => [String(setting.id), setting.value]));
+}
+
+/**
+ * One "name type content" line per record, up to MAX_LISTED_RECORDS
+ */
+function recordLines(records: DnsRecord[]): string {
+  const lines = records
+    .slice(0, MAX_LISTED_RECORDS)
+    .map((record) => `${record.name} ${record.type} ${record.content}`);
+  if (records.length > MAX_LISTED_RECORDS) {
+    lines.push(`... and ${records.length - MAX_LISTED_RECORDS} more`);
+  }
+  return `\`\`\`\n${lines.join('\n')}\n\`\`\``;
+}
@@ -0,0 +1 @@
+export { PROMPT_TOOLS, registerPrompts } from './cloudflare.js';
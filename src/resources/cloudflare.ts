@@ -0,0 +1,222 @@
+/**
+ * Cloudflare Resources
+ *
+ * MCP resources for context a client may want to attach without a tool call:
+ * a zone's configuration, its DNS records, a Worker's source and a D1
+ * database's schema. Each is read through CloudflareClient like the matching
+ * tool, and is only registered when the tenant's policies allow that tool.
+ */
+
+import {
+  type ListResourcesCallback,
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ReadResourceResult, Resource } from '@modelcontextprotocol/sdk/types.js';
+import type { CloudflareClient } from '../client.js';
+import type { ToolContext } from '../tools/context.js';
+import { isToolAllowed, READ_ONLY, type ToolCategory, type ToolPolicy } from '../tools/policy.js';
+import { collectAll } from '../utils/pagination.js';
+
+/**
+ * URI templates of the resources, by resource name
+ */
+export const RESOURCE_TEMPLATES = {
+  zone: 'cloudflare://zones/{zone_id}',
+  zone_dns: 'cloudflare://zones/{zone_id}/dns',
+  worker_script: 'cloudflare://accounts/{account_id}/workers/{script}',
+  d1_schema: 'cloudflare://accounts/{account_id}/d1/{database_id}/schema',
+} as const;
+
+/**
+ * Register the Cloudflare resources the policies allow
+ */
+export function registerResources(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext,
+  policies: ToolPolicy[] = []
+): void {
+  // A resource exposes the same data as a read tool, so it follows that tool's policy
+  const allowed = (name: string, category: ToolCategory) =>
+    isToolAllowed(policies, { name, category, annotations: READ_ONLY });
+
+  // ===========================================================================
+  // Zone
+  // ===========================================================================
+  if (allowed('cloudflare_get_zone', 'zones')) {
+    const withSettings = allowed('cloudflare_get_zone_settings', 'zones');
+    server.registerResource(
+      'zone',
+      new ResourceTemplate(RESOURCE_TEMPLATES.zone, {
+        list: listing(client, async (api) =>
+          (await api.listZones({ page: 1, per_page: context.pagination.maxPerPage })).items.map(
+            (zone) => ({
+              uri: `cloudflare://zones/${zone.id}`,
+              name: zone.name,
+              mimeType: 'application/json',
+            })
+          )
+        ),
+      }),
+      {
+        title: 'Zone',
+        description:
+          `A zone's details${withSettings ? ' and settings' : ''}, as JSON. ` +
+          'zone_id may be the domain name.',
+        mimeType: 'application/json',
+      },
+      async (uri, variables, { signal }) => {
+        const api = client.withSignal(signal);
+        const zoneId = await context.zones.resolve(api, variable(variables.zone_id));
+        const zone = await api.getZone(zoneId);
+        const settings = withSettings ? await api.getZoneSettings(zoneId) : undefined;
+        return json(uri, { ...zone, settings });
+      }
+    );
+  }
+
+  // ===========================================================================
+  // Zone DNS Records
+  // ===========================================================================
+  if (allowed('cloudflare_list_dns_records', 'dns')) {
+    server.registerResource(
+      'zone_dns',
+      new ResourceTemplate(RESOURCE_TEMPLATES.zone_dns, {
+        list: listing(client, async (api) =>
+          (await api.listZones({ page: 1, per_page: context.pagination.maxPerPage })).items.map(
+            (zone) => ({
+              uri: `cloudflare://zones/${zone.id}/dns`,
+              name: `${zone.name} DNS records`,
+              mimeType: 'application/json',
+            })
+          )
+        ),
+      }),
+      {
+        title: 'Zone DNS records',
+        description:
+          "A zone's DNS records, as JSON. Large zones are cut short with hasMore set, like " +
+          'cloudflare_list_dns_records with all: true.',
+        mimeType: 'application/json',
+      },
+      async (uri, variables, { signal }) => {
+        const api = client.withSignal(signal);
+        const zoneId = await context.zones.resolve(api, variable(variables.zone_id));
+        const records = await collectAll(
+          api.listAllDnsRecords(zoneId),
+          undefined,
+          context.output.characterLimit
+        );
+        return json(uri, records);
+      }
+    );
+  }
+
+  // ===========================================================================
+  // Worker Script
+  // ===========================================================================
+  if (allowed('cloudflare_get_worker', 'workers')) {
+    server.registerResource(
+      'worker_script',
+      new ResourceTemplate(RESOURCE_TEMPLATES.worker_script, {
+        list: listing(client, async (api) => {
+          const accountId = await context.account.resolve(api);
+          return (await api.listWorkers(accountId)).map((worker) => ({
+            uri: `cloudflare://accounts/${accountId}/workers/${encodeURIComponent(worker.id)}`,
+            name: worker.id,
+            mimeType: 'application/javascript',
+          }));
+        }),
+      }),
+      {
+        title: 'Worker script',
+        description: "A Worker script's source. Lists the scripts in the default account.",
+        mimeType: 'application/javascript',
+      },
+      async (uri, variables, { signal }) => {
+        const api = client.withSignal(signal);
+        const source = await api.getWorker(
+          variable(variables.account_id),
+          variable(variables.script)
+        );
+        return { contents: [{ uri: uri.href, mimeType: 'application/javascript', text: source }] };
+      }
+    );
+  }
+
+  // ===========================================================================
+  // D1 Schema
+  // ===========================================================================
+  if (allowed('cloudflare_get_d1_database', 'd1')) {
+    server.registerResource(
+      'd1_schema',
+      new ResourceTemplate(RESOURCE_TEMPLATES.d1_schema, {
+        list: listing(client, async (api) => {
+          const accountId = await context.account.resolve(api);
+          const databases = await api.listD1Databases(accountId, {
+            page: 1,
+            per_page: context.pagination.maxPerPage,
+          });
+          return databases.items.map((database) => ({
+            uri: `cloudflare://accounts/${accountId}/d1/${database.uuid}/schema`,
+            name: `${database.name} schema`,
+            mimeType: 'application/sql',
+          }));
+        }),
+      }),
+      {
+        title: 'D1 database schema',
+        description:
+          "The CREATE statements for a D1 database's tables, indexes, views and triggers. " +
+          'Lists the databases in the default account.',
+        mimeType: 'application/sql',
+      },
+      async (uri, variables, { signal }) => {
+        const api = client.withSignal(signal);
+        const schema = await api.getD1Schema(
+          variable(variables.account_id),
+          variable(variables.database_id)
+        );
+        const statements = schema.map((statement) => `${statement};`);
+        return {
+          contents: [{ uri: uri.href, mimeType: 'application/sql', text: statements.join('\n\n') }],
+        };
+      }
+    );
+  }
+}
+
+/**
+ * A list callback that lists nothing when listing fails, e.g. when there is no
+ * single default account: resources/list covers every template, and one failure
+ * shouldn't hide the others. Reading a resource still reports its error.
+ */
+function listing(
+  client: CloudflareClient,
+  list: (api: CloudflareClient) => Promise<Resource[]>
+): ListResourcesCallback {
+  return async ({ signal }) => {
+    try {
+      return { resources: await list(client.withSignal(signal)) };
+    } catch {
+      return { resources: [] };
+    }
+  };
+}
+
+/**
+ * A URI template variable as one decoded string
+ */
+function variable(value: string | string[] | undefined): string {
+  const first = Array.isArray(value) ? value[0] : value;
+  return decodeURIComponent(first ?? '');
+}
+
+function json(uri: URL, data: unknown): ReadResourceResult {
+  return {
+    contents: [
+      { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) },
+    ],
+  };
+}
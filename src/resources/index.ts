@@ -0,0 +1 @@
+export { RESOURCE_TEMPLATES, registerResources } from './cloudflare.js';
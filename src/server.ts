@@ -0,0 +1,336 @@
+/**
+ * Cloudflare MCP Server - Server Factory
+ *
+ * Builds an McpServer with every Cloudflare tool, resource and prompt
+ * registered for one tenant. Kept separate from the Worker entry point so the
+ * same server can be driven in-process (e.g. by the test suite) without the
+ * Workers runtime.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type CloudflareClientOptions, createCloudflareClient } from './client.js';
+import { registerPrompts } from './prompts/index.js';
+import { registerResources } from './resources/index.js';
+import {
+  applyToolPolicy,
+  DefaultAccount,
+  loadTokenPermissions,
+  permissionToolPolicy,
+  READ_ONLY,
+  recordTools,
+  registerAccountTools,
+  registerAnalyticsTools,
+  registerCacheTools,
+  registerContinuationTools,
+  registerD1Tools,
+  registerDnsTools,
+  registerFirewallTools,
+  registerKvTools,
+  registerLoadBalancerTools,
+  registerPagesTools,
+  registerR2Tools,
+  registerSessionTools,
+  registerSslTools,
+  registerTokenTools,
+  registerWafTools,
+  registerWorkersTools,
+  registerZoneTools,
+  type TokenPermissions,
+  type ToolCategory,
+  type ToolContext,
+  type ToolPolicy,
+  ToolRegistry,
+  ZoneResolver,
+} from './tools/index.js';
+import type { TenantCredentials } from './types/env.js';
+import { ConfirmationTokens } from './utils/confirmation.js';
+import { AuthenticationError } from './utils/errors.js';
+import { DEFAULT_CHARACTER_LIMIT } from './utils/output.js';
+import { type PageSizeLimits, resolvePageSizeLimits } from './utils/pagination.js';
+import { type RateLimitOptions, TokenBucketRateLimiter } from './utils/rate-limit.js';
+import { type CachedResource, ResponseCache } from './utils/response-cache.js';
+import {
+  MemorySessionStore,
+  type SessionState,
+  type SessionStore,
+  SessionTokens,
+} from './utils/session.js';
+import { type KeyValueStore, MemoryKeyValueStore } from './utils/store.js';
+
+// =============================================================================
+// MCP Server Configuration
+// =============================================================================
+
+export const SERVER_NAME = 'primrose-mcp-cloudflare';
+export const SERVER_VERSION = '1.0.0';
+
+// =============================================================================
+// Stateless MCP Server (Recommended - no Durable Objects needed)
+// =============================================================================
+
+export interface ServerOptions {
+  /** Maximum characters of tool output per response (default: 50000) */
+  characterLimit?: number;
+
+  /**
+   * Storage for truncated output, read back by cloudflare_get_more.
+   * Must outlive a single request for continuations to work across requests.
+   */
+  continuationStore?: KeyValueStore;
+
+  /** Page size default and cap for list tools (default: 20 / 100) */
+  pageSize?: Partial<PageSizeLimits>;
+
+  /**
+   * Storage for the tenant's rate limit bucket.
+   * Must be shared across requests for the budget to cover them all.
+   */
+  rateLimitStore?: KeyValueStore;
+
+  /** Client-side rate limit (default: 1200 requests per 300 seconds) */
+  rateLimit?: Partial<RateLimitOptions>;
+
+  /**
+   * Storage for cached API responses. Response caching is off unless this is set;
+   * like the rate limit store, it must be shared across requests.
+   */
+  responseCacheStore?: KeyValueStore;
+
+  /** Per-resource cache lifetimes in seconds (default: RESPONSE_CACHE_TTLS) */
+  responseCacheTtls?: Partial<Record<CachedResource, number>>;
+
+  /**
+   * Which tools to register for the tenant. A tool is registered only if every
+   * policy allows it, e.g. the operator's policy for the credential and the one
+   * requested in headers (default: all tools).
+   */
+  toolPolicies?: ToolPolicy[];
+
+  /**
+   * What the tenant's API token may do (see loadTenantTokenPermissions). Tools the
+   * token has no permission for are not registered (default: register all tools).
+   */
+  tokenPermissions?: TokenPermissions;
+
+  /**
+   * Key for signing confirmation tokens. Must be the same in every isolate for
+   * tokens to verify across requests (default: a random per-isolate key).
+   */
+  confirmationSecret?: string;
+
+  /**
+   * Storage for zone names resolved to IDs. Share it across requests so a name
+   * is only looked up once per tenant (default: a per-server memory store).
+   */
+  zoneNameStore?: KeyValueStore;
+
+  /**
+   * State kept across tool calls: the pinned account, zone and format, and the
+   * discovered default account (default: kept for the server's lifetime)
+   */
+  session?: SessionStore;
+
+  /**
+   * Key for signing session tokens (see loadTenantSession). Must be the same in
+   * every isolate for tokens to verify across requests (default: a random per-isolate key).
+   */
+  sessionSecret?: string;
+
+  /** Records every tool the server is asked to register, including those the policies skip */
+  registry?: ToolRegistry;
+}
+
+/**
+ * Creates a stateless MCP server instance with tenant-specific credentials.
+ *
+ * MULTI-TENANT: Each request provides credentials via headers, allowing
+ * a single server deployment to serve multiple tenants. Durable Object
+ * sessions (CloudflareMcpAgent) build the same server once per session.
+ */
+export function createStatelessServer(
+  credentials: TenantCredentials,
+  clientOptions: CloudflareClientOptions = {},
+  options: ServerOptions = {}
+): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+
+  // Tools the tenant's policies or token permissions exclude are skipped at registration
+  const policies = [...(options.toolPolicies ?? [])];
+  const permissionPolicy =
+    options.tokenPermissions && permissionToolPolicy(options.tokenPermissions);
+  if (permissionPolicy) {
+    policies.push(permissionPolicy);
+  }
+  const category = (name: ToolCategory) => {
+    const filtered = applyToolPolicy(server, policies, name);
+    return options.registry ? recordTools(filtered, options.registry, name) : filtered;
+  };
+
+  const pagination = resolvePageSizeLimits(options.pageSize);
+  const scope = credentials.apiToken ?? `${credentials.email}:${credentials.apiKey}`;
+  const rateLimiter = new TokenBucketRateLimiter(
+    options.rateLimitStore ?? new MemoryKeyValueStore(),
+    scope,
+    options.rateLimit
+  );
+
+  const cache =
+    options.responseCacheStore &&
+    new ResponseCache(options.responseCacheStore, scope, options.responseCacheTtls);
+
+  // Create client with tenant-specific credentials
+  const client = createCloudflareClient(credentials, {
+    pageSize: pagination,
+    rateLimiter,
+    cache,
+    ...clientOptions,
+  });
+
+  const session = options.session ?? new MemorySessionStore();
+  const context: ToolContext = {
+    output: {
+      characterLimit: options.characterLimit ?? DEFAULT_CHARACTER_LIMIT,
+      store: options.continuationStore ?? new MemoryKeyValueStore(),
+      scope,
+      rateLimiter,
+      session,
+    },
+    pagination,
+    confirmations: new ConfirmationTokens(options.confirmationSecret, scope),
+    account: new DefaultAccount(credentials.accountId, session),
+    zones: new ZoneResolver(options.zoneNameStore ?? new MemoryKeyValueStore(), scope, session),
+    session,
+    sessionTokens: new SessionTokens(options.sessionSecret, scope),
+  };
+
+  // Register all tool categories
+  registerZoneTools(category('zones'), client, context);
+  registerDnsTools(category('dns'), client, context);
+  registerWorkersTools(category('workers'), client, context);
+  registerKvTools(category('kv'), client, context);
+  registerD1Tools(category('d1'), client, context);
+  registerR2Tools(category('r2'), client, context);
+  registerPagesTools(category('pages'), client, context);
+  registerCacheTools(category('cache'), client, context);
+  registerFirewallTools(category('firewall'), client, context);
+  registerWafTools(category('waf'), client, context);
+  registerLoadBalancerTools(category('load_balancers'), client, context);
+  registerSslTools(category('ssl'), client, context);
+  registerAccountTools(category('accounts'), client, context);
+  registerAnalyticsTools(category('analytics'), client, context);
+  registerContinuationTools(category('continuation'), context);
+  registerSessionTools(category('session'), client, context);
+  if (credentials.apiToken) {
+    registerTokenTools(category('connection'), client, context);
+  }
+  registerResources(server, client, context, policies);
+
+  // Test connection tool
+  category('connection').tool(
+    'cloudflare_test_connection',
+    'Test the connection to the Cloudflare API. Returns the authenticated user email if successful.',
+    {},
+    READ_ONLY,
+    async (_args, { signal }) => {
+      const api = client.withSignal(signal);
+      try {
+        const result = await api.testConnection();
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // After every tool, so that while the catalogue is built its registry is already complete
+  registerPrompts(server, client, context, options.registry ?? getToolCatalogue(), policies);
+
+  return server;
+}
+
+/** Built by getToolCatalogue on first use */
+let catalogue: ToolRegistry | undefined;
+
+/**
+ * Every tool the server can register, whatever a tenant's policies and token
+ * permissions, recorded by registering the tools on a throwaway server
+ */
+export function getToolCatalogue(): ToolRegistry {
+  if (!catalogue) {
+    catalogue = new ToolRegistry();
+    createStatelessServer({ apiToken: 'catalogue' }, {}, { registry: catalogue });
+  }
+  return catalogue;
+}
+
+/**
+ * Look up what the tenant's API token may do, for ServerOptions.tokenPermissions.
+ * Lookups are cached per credential in store. Returns undefined for global API
+ * keys, which have the user's full permissions, and when the lookup fails.
+ */
+export async function loadTenantTokenPermissions(
+  credentials: TenantCredentials,
+  clientOptions: CloudflareClientOptions,
+  store: KeyValueStore
+): Promise<TokenPermissions | undefined> {
+  if (!credentials.apiToken) {
+    return undefined;
+  }
+  try {
+    const client = createCloudflareClient(credentials, clientOptions);
+    return await loadTokenPermissions(client, store, credentials.apiToken);
+  } catch {
+    // Register every tool; calls will surface the underlying auth or network error
+    return undefined;
+  }
+}
+
+/**
+ * Check credentials with Cloudflare before the credential vault stores them:
+ * API tokens must verify as active, global API keys must be able to read the
+ * user. Throws with the reason when they are rejected.
+ */
+export async function verifyTenantCredentials(
+  credentials: TenantCredentials,
+  clientOptions: CloudflareClientOptions
+): Promise<void> {
+  const client = createCloudflareClient(credentials, clientOptions);
+  if (!credentials.apiToken) {
+    await client.getUser();
+    return;
+  }
+  const { status } = await client.verifyToken();
+  if (status !== 'active') {
+    throw new AuthenticationError(`API token is ${status}`);
+  }
+}
+
+/**
+ * Read the session state in a token from the X-CF-Session header, for
+ * ServerOptions.session. Returns undefined when there is no token, or it is
+ * invalid, expired or issued for other credentials.
+ */
+export async function loadTenantSession(
+  credentials: TenantCredentials,
+  token: string | undefined,
+  secret: string | undefined
+): Promise<SessionState | undefined> {
+  if (!token) {
+    return undefined;
+  }
+  const scope = credentials.apiToken ?? `${credentials.email}:${credentials.apiKey}`;
+  return new SessionTokens(secret, scope).read(token);
+}
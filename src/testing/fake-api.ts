@@ -0,0 +1,1401 @@
+/**
+ * Fake Cloudflare API
+ *
+ * In-memory implementation of the Cloudflare API v4 endpoints used by
+ * CloudflareClient, for integration tests and offline development.
+ *
+ * Usage:
+ * - In-process: pass `fake.fetch` as the client transport
+ *   (createCloudflareClient(credentials, { fetch: fake.fetch }))
+ * - Out-of-process: serve `fake.fetch` from any HTTP server or Worker and point
+ *   CLOUDFLARE_API_BASE_URL at it
+ *
+ * The fake is seeded with one account and one zone containing a small set of
+ * resources of every kind, with stable IDs exported as FAKE_IDS.
+ */
+
+import type {
+  Account,
+  AccountMember,
+  ApiToken,
+  CloudflareError,
+  CloudflareResponse,
+  D1Database,
+  D1QueryResult,
+  DnsRecord,
+  DnsRecordType,
+  FirewallRule,
+  FirewallRuleCreateInput,
+  KvKey,
+  KvNamespace,
+  LoadBalancer,
+  LoadBalancerMonitor,
+  LoadBalancerPool,
+  PagesDeployment,
+  PagesProject,
+  R2Bucket,
+  ResultInfo,
+  SslCertificate,
+  User,
+  WafPackage,
+  WafRule,
+  Worker,
+  WorkerCronTrigger,
+  WorkerRoute,
+  WorkerSecret,
+  Zone,
+  ZoneAnalytics,
+} from '../types/cloudflare.js';
+
+// =============================================================================
+// Seed Data Identifiers
+// =============================================================================
+
+export const FAKE_IDS = {
+  user: '00000000000000000000000000000001',
+  apiToken: '0000000000000000000000000000ab01',
+  account: '0000000000000000000000000000a001',
+  zone: '0000000000000000000000000000f001',
+  dnsRecord: '0000000000000000000000000000d001',
+  workerRoute: '0000000000000000000000000000e001',
+  kvNamespace: '0000000000000000000000000000c001',
+  d1Database: '00000000-0000-0000-0000-0000000000b1',
+  firewallRule: '0000000000000000000000000000f101',
+  filter: '0000000000000000000000000000f201',
+  wafPackage: '0000000000000000000000000000f301',
+  wafRule: '100000',
+  loadBalancer: '0000000000000000000000000000f401',
+  pool: '0000000000000000000000000000f501',
+  monitor: '0000000000000000000000000000f601',
+  pagesDeployment: '00000000-0000-0000-0000-0000000000c1',
+  workerScript: 'hello-worker',
+  r2Bucket: 'assets',
+  pagesProject: 'docs-site',
+  zoneName: 'example.com',
+} as const;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A failure to inject instead of the normal response
+ */
+export interface FakeFailure {
+  /** HTTP status code to return */
+  status: number;
+
+  /** Cloudflare errors[] payload (ignored when body is set) */
+  errors?: CloudflareError[];
+
+  /** Extra response headers (e.g. Retry-After) */
+  headers?: Record<string, string>;
+
+  /** Raw response body, for non-JSON failures */
+  body?: string;
+}
+
+/**
+ * A request received by the fake
+ */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  body: string;
+}
+
+export interface FakeCloudflareApiOptions {
+  /** Only accept this API token (default: accept any credentials) */
+  apiToken?: string;
+
+  /** Start with an empty account instead of the seeded fixtures (default: false) */
+  empty?: boolean;
+
+  /** Compute result rows for D1 queries (default: no rows) */
+  d1Query?: (sql: string, params: unknown[]) => Record<string, unknown>[];
+}
+
+interface FakeWorkerScript {
+  meta: Worker;
+  script: string;
+  schedules: WorkerCronTrigger[];
+  secrets: WorkerSecret[];
+}
+
+interface FakeKvEntry {
+  value: string;
+  expiration?: number;
+  metadata?: Record<string, unknown>;
+}
+
+interface PendingFailure {
+  failure: FakeFailure;
+  method?: string;
+  path?: string | RegExp;
+  remaining: number;
+}
+
+interface RouteMatch {
+  params: Record<string, string>;
+  request: FakeRequest;
+}
+
+type RouteHandler = (match: RouteMatch) => Response;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Error thrown by route handlers to produce a Cloudflare error response
+ */
+class FakeApiError extends Error {
+  public status: number;
+  public code: number;
+
+  constructor(status: number, code: number, message: string) {
+    super(message);
+    this.name = 'FakeApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// =============================================================================
+// Fake State
+// =============================================================================
+
+export interface FakeState {
+  user: User;
+  apiToken: ApiToken;
+  accounts: Account[];
+  members: Map<string, AccountMember[]>;
+  zones: Zone[];
+  zoneSettings: Map<string, Record<string, unknown>[]>;
+  dnsRecords: Map<string, DnsRecord[]>;
+  purges: Map<string, Record<string, unknown>[]>;
+  workers: Map<string, Map<string, FakeWorkerScript>>;
+  workerRoutes: Map<string, WorkerRoute[]>;
+  kvNamespaces: Map<string, KvNamespace[]>;
+  kvEntries: Map<string, Map<string, FakeKvEntry>>;
+  d1Databases: Map<string, D1Database[]>;
+  d1Queries: Map<string, { sql: string; params: unknown[] }[]>;
+  r2Buckets: Map<string, R2Bucket[]>;
+  pagesProjects: Map<string, PagesProject[]>;
+  pagesDeployments: Map<string, PagesDeployment[]>;
+  sslCertificates: Map<string, SslCertificate[]>;
+  firewallRules: Map<string, FirewallRule[]>;
+  wafPackages: Map<string, WafPackage[]>;
+  wafRules: Map<string, WafRule[]>;
+  loadBalancers: Map<string, LoadBalancer[]>;
+  pools: Map<string, LoadBalancerPool[]>;
+  monitors: Map<string, LoadBalancerMonitor[]>;
+}
+
+const TIMESTAMP = '2025-01-01T00:00:00Z';
+
+/**
+ * Permission groups of the seeded API token: everything the tools use
+ */
+const FULL_ACCESS_PERMISSION_GROUPS = [
+  'Account Settings Read',
+  'Analytics Read',
+  'API Tokens Read',
+  'Cache Purge',
+  'D1 Write',
+  'DNS Write',
+  'Firewall Services Write',
+  'Load Balancers Write',
+  'Load Balancing: Monitors and Pools Read',
+  'Pages Write',
+  'SSL and Certificates Write',
+  'User Details Read',
+  'Workers KV Storage Write',
+  'Workers R2 Storage Write',
+  'Workers Routes Write',
+  'Workers Scripts Write',
+  'Zone Settings Write',
+  'Zone WAF Write',
+  'Zone Write',
+];
+
+function createEmptyState(): FakeState {
+  return {
+    user: {
+      id: FAKE_IDS.user,
+      email: 'owner@example.com',
+      first_name: 'Fake',
+      last_name: 'Owner',
+      two_factor_authentication_enabled: true,
+      suspended: false,
+    },
+    apiToken: {
+      id: FAKE_IDS.apiToken,
+      name: 'Fake token',
+      status: 'active',
+      policies: [
+        {
+          id: '0000000000000000000000000000ab11',
+          effect: 'allow',
+          resources: { 'com.cloudflare.api.account.*': '*' },
+          permission_groups: FULL_ACCESS_PERMISSION_GROUPS.map((name, index) => ({
+            id: (0xab21 + index).toString(16).padStart(32, '0'),
+            name,
+          })),
+        },
+      ],
+    },
+    accounts: [{ id: FAKE_IDS.account, name: 'Fake Account', type: 'standard', created_on: TIMESTAMP }],
+    members: new Map(),
+    zones: [],
+    zoneSettings: new Map(),
+    dnsRecords: new Map(),
+    purges: new Map(),
+    workers: new Map(),
+    workerRoutes: new Map(),
+    kvNamespaces: new Map(),
+    kvEntries: new Map(),
+    d1Databases: new Map(),
+    d1Queries: new Map(),
+    r2Buckets: new Map(),
+    pagesProjects: new Map(),
+    pagesDeployments: new Map(),
+    sslCertificates: new Map(),
+    firewallRules: new Map(),
+    wafPackages: new Map(),
+    wafRules: new Map(),
+    loadBalancers: new Map(),
+    pools: new Map(),
+    monitors: new Map(),
+  };
+}
+
+function seedState(state: FakeState): void {
+  const accountId = FAKE_IDS.account;
+  const zoneId = FAKE_IDS.zone;
+
+  state.members.set(accountId, [
+    {
+      id: '0000000000000000000000000000b001',
+      user: { id: FAKE_IDS.user, email: state.user.email, first_name: 'Fake', last_name: 'Owner' },
+      status: 'accepted',
+      roles: [
+        {
+          id: '0000000000000000000000000000b101',
+          name: 'Administrator',
+          description: 'Can access the full account',
+          permissions: { zones: { read: true, edit: true } },
+        },
+      ],
+    },
+  ]);
+
+  state.zones.push(buildZone(zoneId, FAKE_IDS.zoneName, accountId, 'active'));
+  state.zoneSettings.set(zoneId, buildZoneSettings());
+  state.dnsRecords.set(zoneId, [
+    buildDnsRecord(FAKE_IDS.dnsRecord, zoneId, FAKE_IDS.zoneName, {
+      type: 'A',
+      name: FAKE_IDS.zoneName,
+      content: '192.0.2.1',
+      proxied: true,
+    }),
+    buildDnsRecord('0000000000000000000000000000d002', zoneId, FAKE_IDS.zoneName, {
+      type: 'CNAME',
+      name: `www.${FAKE_IDS.zoneName}`,
+      content: FAKE_IDS.zoneName,
+      proxied: true,
+    }),
+    buildDnsRecord('0000000000000000000000000000d003', zoneId, FAKE_IDS.zoneName, {
+      type: 'MX',
+      name: FAKE_IDS.zoneName,
+      content: `mail.${FAKE_IDS.zoneName}`,
+      priority: 10,
+    }),
+  ]);
+
+  state.workers.set(
+    accountId,
+    new Map([
+      [
+        FAKE_IDS.workerScript,
+        {
+          meta: {
+            id: FAKE_IDS.workerScript,
+            handlers: ['fetch', 'scheduled'],
+            created_on: TIMESTAMP,
+            modified_on: TIMESTAMP,
+          },
+          script: "export default { fetch() { return new Response('Hello'); } };",
+          schedules: [{ cron: '*/30 * * * *', created_on: TIMESTAMP, modified_on: TIMESTAMP }],
+          secrets: [{ name: 'API_KEY', type: 'secret_text' }],
+        },
+      ],
+    ])
+  );
+  state.workerRoutes.set(zoneId, [
+    { id: FAKE_IDS.workerRoute, pattern: `${FAKE_IDS.zoneName}/api/*`, script: FAKE_IDS.workerScript },
+  ]);
+
+  state.kvNamespaces.set(accountId, [{ id: FAKE_IDS.kvNamespace, title: 'SESSIONS' }]);
+  state.kvEntries.set(
+    FAKE_IDS.kvNamespace,
+    new Map([
+      ['session:alice', { value: '{"user":"alice"}' }],
+      ['session:bob', { value: '{"user":"bob"}', metadata: { role: 'admin' } }],
+      ['config', { value: 'enabled' }],
+    ])
+  );
+
+  state.d1Databases.set(accountId, [
+    {
+      uuid: FAKE_IDS.d1Database,
+      name: 'app-db',
+      version: 'production',
+      num_tables: 2,
+      file_size: 16384,
+      created_at: TIMESTAMP,
+    },
+  ]);
+
+  state.r2Buckets.set(accountId, [
+    { name: FAKE_IDS.r2Bucket, location: 'WNAM', creation_date: TIMESTAMP },
+  ]);
+
+  state.pagesProjects.set(accountId, [
+    buildPagesProject(FAKE_IDS.pagesProject, 'main'),
+  ]);
+  state.pagesDeployments.set(`${accountId}/${FAKE_IDS.pagesProject}`, [
+    {
+      id: FAKE_IDS.pagesDeployment,
+      short_id: FAKE_IDS.pagesDeployment.slice(0, 8),
+      url: `https://${FAKE_IDS.pagesDeployment.slice(0, 8)}.${FAKE_IDS.pagesProject}.pages.dev`,
+      environment: 'production',
+      project_name: FAKE_IDS.pagesProject,
+      stages: [{ name: 'build', status: 'success' }],
+      created_on: TIMESTAMP,
+    },
+  ]);
+
+  state.sslCertificates.set(zoneId, [
+    {
+      id: '0000000000000000000000000000f701',
+      type: 'universal',
+      hosts: [FAKE_IDS.zoneName, `*.${FAKE_IDS.zoneName}`],
+      status: 'active',
+      zone_id: zoneId,
+    },
+  ]);
+
+  state.firewallRules.set(zoneId, [
+    {
+      id: FAKE_IDS.firewallRule,
+      paused: false,
+      description: 'Block admin from outside',
+      action: 'block',
+      filter: {
+        id: FAKE_IDS.filter,
+        expression: '(http.request.uri.path contains "/admin")',
+        paused: false,
+      },
+      created_on: TIMESTAMP,
+      modified_on: TIMESTAMP,
+    },
+  ]);
+
+  state.wafPackages.set(zoneId, [
+    {
+      id: FAKE_IDS.wafPackage,
+      name: 'CloudFlare',
+      description: 'Cloudflare Managed Ruleset',
+      detection_mode: 'traditional',
+      zone_id: zoneId,
+      status: 'active',
+    },
+  ]);
+  state.wafRules.set(`${zoneId}/${FAKE_IDS.wafPackage}`, [
+    {
+      id: FAKE_IDS.wafRule,
+      description: 'SQL injection probe',
+      priority: 5,
+      package_id: FAKE_IDS.wafPackage,
+      group: { id: '0000000000000000000000000000f302', name: 'SQLi' },
+      mode: 'default',
+      default_mode: 'block',
+      allowed_modes: ['default', 'disable', 'simulate', 'block', 'challenge'],
+    },
+  ]);
+
+  state.pools.set(accountId, [
+    {
+      id: FAKE_IDS.pool,
+      name: 'primary',
+      enabled: true,
+      monitor: FAKE_IDS.monitor,
+      origins: [{ name: 'origin-1', address: '192.0.2.10', enabled: true, weight: 1 }],
+    },
+  ]);
+  state.monitors.set(accountId, [
+    {
+      id: FAKE_IDS.monitor,
+      type: 'https',
+      method: 'GET',
+      path: '/health',
+      expected_codes: '200',
+      interval: 60,
+    },
+  ]);
+  state.loadBalancers.set(zoneId, [
+    {
+      id: FAKE_IDS.loadBalancer,
+      name: `lb.${FAKE_IDS.zoneName}`,
+      enabled: true,
+      fallback_pool: FAKE_IDS.pool,
+      default_pools: [FAKE_IDS.pool],
+      proxied: true,
+      steering_policy: 'off',
+    },
+  ]);
+}
+
+// =============================================================================
+// Entity Builders
+// =============================================================================
+
+function buildZone(id: string, name: string, accountId: string, status: Zone['status']): Zone {
+  return {
+    id,
+    name,
+    status,
+    paused: false,
+    type: 'full',
+    development_mode: 0,
+    name_servers: ['ada.ns.cloudflare.com', 'bob.ns.cloudflare.com'],
+    created_on: TIMESTAMP,
+    modified_on: TIMESTAMP,
+    account: { id: accountId, name: 'Fake Account' },
+    plan: { id: '0feeeeeeeeeeeeeeeeeeeeeeeeeeeeee', name: 'Free Website' },
+  };
+}
+
+function buildZoneSettings(): Record<string, unknown>[] {
+  const settings: Record<string, unknown> = {
+    ssl: 'full',
+    always_use_https: 'off',
+    min_tls_version: '1.0',
+    automatic_https_rewrites: 'on',
+    browser_cache_ttl: 14400,
+    development_mode: 'off',
+    security_level: 'medium',
+    waf: 'off',
+  };
+  return Object.entries(settings).map(([id, value]) => ({
+    id,
+    value,
+    editable: true,
+    modified_on: TIMESTAMP,
+  }));
+}
+
+function buildDnsRecord(
+  id: string,
+  zoneId: string,
+  zoneName: string,
+  input: { type: DnsRecordType; name: string; content: string; proxied?: boolean; ttl?: number; priority?: number; comment?: string }
+): DnsRecord {
+  return {
+    id,
+    zone_id: zoneId,
+    zone_name: zoneName,
+    name: input.name,
+    type: input.type,
+    content: input.content,
+    proxiable: ['A', 'AAAA', 'CNAME'].includes(input.type),
+    proxied: input.proxied ?? false,
+    ttl: input.ttl ?? 1,
+    locked: false,
+    priority: input.priority,
+    comment: input.comment,
+    created_on: TIMESTAMP,
+    modified_on: TIMESTAMP,
+  };
+}
+
+function buildPagesProject(name: string, productionBranch: string): PagesProject {
+  return {
+    id: `${name}-project-id`,
+    name,
+    subdomain: name,
+    domains: [`${name}.pages.dev`],
+    production_branch: productionBranch,
+    created_on: TIMESTAMP,
+  };
+}
+
+// =============================================================================
+// Fake API
+// =============================================================================
+
+export class FakeCloudflareApi {
+  /** Current in-memory state; tests may inspect or mutate it directly */
+  readonly state: FakeState;
+
+  /** Every request received, in order */
+  readonly requests: FakeRequest[] = [];
+
+  private options: FakeCloudflareApiOptions;
+  private failures: PendingFailure[] = [];
+  private routes: Route[] = [];
+  private idCounter = 0x1000;
+
+  constructor(options: FakeCloudflareApiOptions = {}) {
+    this.options = options;
+    this.state = createEmptyState();
+    if (!options.empty) {
+      seedState(this.state);
+    }
+    this.registerRoutes();
+  }
+
+  /**
+   * Fail the next matching request(s) with the given response
+   */
+  failNext(
+    failure: FakeFailure,
+    match: { method?: string; path?: string | RegExp; times?: number } = {}
+  ): void {
+    this.failures.push({
+      failure,
+      method: match.method?.toUpperCase(),
+      path: match.path,
+      remaining: match.times ?? 1,
+    });
+  }
+
+  /**
+   * Handle a request (compatible with the global fetch signature)
+   */
+  fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = input instanceof Request ? input : new Request(input, init);
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^.*?\/client\/v4/, '') || '/';
+
+    const fakeRequest: FakeRequest = {
+      method: request.method.toUpperCase(),
+      path,
+      query: url.searchParams,
+      headers: request.headers,
+      body: request.method === 'GET' || request.method === 'HEAD' ? '' : await request.text(),
+    };
+    this.requests.push(fakeRequest);
+
+    const injected = this.takeFailure(fakeRequest);
+    if (injected) {
+      return failureResponse(injected);
+    }
+
+    if (!this.isAuthorized(request.headers)) {
+      return errorResponse(401, 10000, 'Authentication error');
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== fakeRequest.method) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+
+      const params: Record<string, string> = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+
+      try {
+        return route.handler({ params, request: fakeRequest });
+      } catch (error) {
+        if (error instanceof FakeApiError) {
+          return errorResponse(error.status, error.code, error.message);
+        }
+        throw error;
+      }
+    }
+
+    return errorResponse(404, 7000, 'No route for that URI');
+  };
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private takeFailure(request: FakeRequest): FakeFailure | undefined {
+    const index = this.failures.findIndex((pending) => {
+      if (pending.method && pending.method !== request.method) return false;
+      if (typeof pending.path === 'string' && pending.path !== request.path) return false;
+      if (pending.path instanceof RegExp && !pending.path.test(request.path)) return false;
+      return true;
+    });
+    if (index === -1) return undefined;
+
+    const pending = this.failures[index];
+    pending.remaining--;
+    if (pending.remaining <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return pending.failure;
+  }
+
+  private isAuthorized(headers: Headers): boolean {
+    const authorization = headers.get('Authorization');
+    if (authorization?.startsWith('Bearer ')) {
+      const token = authorization.slice('Bearer '.length);
+      return !this.options.apiToken || token === this.options.apiToken;
+    }
+    return !this.options.apiToken && !!headers.get('X-Auth-Email') && !!headers.get('X-Auth-Key');
+  }
+
+  private nextId(): string {
+    this.idCounter++;
+    return this.idCounter.toString(16).padStart(32, '0');
+  }
+
+  private route(method: string, template: string, handler: RouteHandler): void {
+    const keys: string[] = [];
+    const pattern = template.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${pattern}$`), keys, handler });
+  }
+
+  private registerRoutes(): void {
+    const state = this.state;
+
+    // -------------------------------------------------------------------------
+    // User & Accounts
+    // -------------------------------------------------------------------------
+    this.route('GET', '/user', () => ok(state.user));
+    this.route('GET', '/user/tokens/verify', () => {
+      const { id, status, expires_on, not_before } = state.apiToken;
+      return ok({ id, status, expires_on, not_before });
+    });
+    this.route('GET', '/user/tokens/:token', ({ params }) => {
+      if (params.token !== state.apiToken.id) {
+        throw new FakeApiError(404, 1003, 'Token not found');
+      }
+      return ok(state.apiToken);
+    });
+    this.route('GET', '/accounts', ({ request }) => paginated(state.accounts, request.query));
+    this.route('GET', '/accounts/:account', ({ params }) =>
+      ok(this.account(params.account))
+    );
+    this.route('GET', '/accounts/:account/members', ({ params, request }) => {
+      this.account(params.account);
+      return paginated(state.members.get(params.account) ?? [], request.query);
+    });
+
+    // -------------------------------------------------------------------------
+    // Zones
+    // -------------------------------------------------------------------------
+    this.route('GET', '/zones', ({ request }) => {
+      const name = request.query.get('name');
+      const status = request.query.get('status');
+      const zones = state.zones.filter(
+        (zone) => (!name || zone.name === name) && (!status || zone.status === status)
+      );
+      return paginated(zones, request.query);
+    });
+    this.route('POST', '/zones', ({ request }) => {
+      const input = json<{ name: string; account: { id: string }; type?: Zone['type'] }>(request);
+      this.account(input.account.id);
+      if (state.zones.some((zone) => zone.name === input.name)) {
+        throw new FakeApiError(400, 1061, `${input.name} already exists`);
+      }
+      const zone = buildZone(this.nextId(), input.name, input.account.id, 'pending');
+      zone.type = input.type ?? 'full';
+      state.zones.push(zone);
+      state.zoneSettings.set(zone.id, buildZoneSettings());
+      state.dnsRecords.set(zone.id, []);
+      return ok(zone);
+    });
+    this.route('GET', '/zones/:zone', ({ params }) => ok(this.zone(params.zone)));
+    this.route('PATCH', '/zones/:zone', ({ params, request }) => {
+      const zone = this.zone(params.zone);
+      const input = json<{ paused?: boolean; type?: Zone['type']; plan?: { id: string } }>(request);
+      if (input.paused !== undefined) zone.paused = input.paused;
+      if (input.type) zone.type = input.type;
+      if (input.plan) zone.plan = { id: input.plan.id, name: 'Custom Plan' };
+      return ok(zone);
+    });
+    this.route('DELETE', '/zones/:zone', ({ params }) => {
+      const zone = this.zone(params.zone);
+      state.zones.splice(state.zones.indexOf(zone), 1);
+      return ok({ id: zone.id });
+    });
+    this.route('GET', '/zones/:zone/settings', ({ params }) => {
+      this.zone(params.zone);
+      return ok(state.zoneSettings.get(params.zone) ?? []);
+    });
+    this.route('GET', '/zones/:zone/settings/:setting', ({ params }) =>
+      ok(this.zoneSetting(params.zone, params.setting))
+    );
+    this.route('PATCH', '/zones/:zone/settings/:setting', ({ params, request }) => {
+      const setting = this.zoneSetting(params.zone, params.setting);
+      setting.value = json<{ value: unknown }>(request).value;
+      setting.modified_on = new Date().toISOString();
+      return ok(setting);
+    });
+    this.route('PUT', '/zones/:zone/activation_check', ({ params }) =>
+      ok({ id: this.zone(params.zone).id })
+    );
+
+    // -------------------------------------------------------------------------
+    // DNS Records
+    // -------------------------------------------------------------------------
+    this.route('GET', '/zones/:zone/dns_records', ({ params, request }) => {
+      const type = request.query.get('type');
+      const name = request.query.get('name');
+      const content = request.query.get('content');
+      const records = this.dnsRecords(params.zone).filter(
+        (record) =>
+          (!type || record.type === type) &&
+          (!name || record.name === name) &&
+          (!content || record.content === content)
+      );
+      return paginated(records, request.query);
+    });
+    this.route('POST', '/zones/:zone/dns_records', ({ params, request }) => {
+      const zone = this.zone(params.zone);
+      const input = json<Parameters<typeof buildDnsRecord>[3]>(request);
+      const record = buildDnsRecord(this.nextId(), zone.id, zone.name, {
+        ...input,
+        name: qualifyName(input.name, zone.name),
+      });
+      this.dnsRecords(zone.id).push(record);
+      return ok(record);
+    });
+    this.route('GET', '/zones/:zone/dns_records/export', ({ params }) => {
+      const zone = this.zone(params.zone);
+      const lines = [`;; Zone: ${zone.name}`, `$ORIGIN ${zone.name}.`];
+      for (const record of this.dnsRecords(zone.id)) {
+        const priority = record.priority !== undefined ? `${record.priority} ` : '';
+        lines.push(`${record.name}.\t${record.ttl}\tIN\t${record.type}\t${priority}${record.content}`);
+      }
+      return text(`${lines.join('\n')}\n`);
+    });
+    this.route('POST', '/zones/:zone/dns_records/import', ({ params, request }) => {
+      const zone = this.zone(params.zone);
+      let parsed = 0;
+      for (const line of request.body.split('\n')) {
+        const fields = line.trim().split(/\s+/);
+        if (fields.length < 5 || line.trim().startsWith(';') || line.trim().startsWith('$')) {
+          continue;
+        }
+        const [name, ttl, , type, ...rest] = fields;
+        this.dnsRecords(zone.id).push(
+          buildDnsRecord(this.nextId(), zone.id, zone.name, {
+            type: type as DnsRecordType,
+            name: name.replace(/\.$/, ''),
+            content: rest.join(' '),
+            ttl: parseInt(ttl, 10) || 1,
+          })
+        );
+        parsed++;
+      }
+      return ok({ total_records_parsed: parsed, recs_added: parsed });
+    });
+    this.route('GET', '/zones/:zone/dns_records/:record', ({ params }) =>
+      ok(this.dnsRecord(params.zone, params.record))
+    );
+    this.route('PATCH', '/zones/:zone/dns_records/:record', ({ params, request }) => {
+      const record = this.dnsRecord(params.zone, params.record);
+      Object.assign(record, json<Partial<DnsRecord>>(request), {
+        modified_on: new Date().toISOString(),
+      });
+      return ok(record);
+    });
+    this.route('DELETE', '/zones/:zone/dns_records/:record', ({ params }) => {
+      const record = this.dnsRecord(params.zone, params.record);
+      const records = this.dnsRecords(params.zone);
+      records.splice(records.indexOf(record), 1);
+      return ok({ id: record.id });
+    });
+
+    // -------------------------------------------------------------------------
+    // Cache
+    // -------------------------------------------------------------------------
+    this.route('POST', '/zones/:zone/purge_cache', ({ params, request }) => {
+      this.zone(params.zone);
+      const purges = state.purges.get(params.zone) ?? [];
+      purges.push(json<Record<string, unknown>>(request));
+      state.purges.set(params.zone, purges);
+      return ok({ id: this.nextId() });
+    });
+
+    // -------------------------------------------------------------------------
+    // Workers
+    // -------------------------------------------------------------------------
+    this.route('GET', '/accounts/:account/workers/scripts', ({ params }) =>
+      ok([...this.workers(params.account).values()].map((worker) => worker.meta))
+    );
+    this.route('GET', '/accounts/:account/workers/scripts/:script', ({ params }) =>
+      text(this.worker(params.account, params.script).script, 'application/javascript')
+    );
+    this.route('DELETE', '/accounts/:account/workers/scripts/:script', ({ params }) => {
+      this.worker(params.account, params.script);
+      this.workers(params.account).delete(params.script);
+      return ok(null);
+    });
+    this.route('GET', '/accounts/:account/workers/scripts/:script/schedules', ({ params }) =>
+      ok({ schedules: this.worker(params.account, params.script).schedules })
+    );
+    this.route('GET', '/accounts/:account/workers/scripts/:script/secrets', ({ params }) =>
+      ok(this.worker(params.account, params.script).secrets)
+    );
+    this.route('GET', '/zones/:zone/workers/routes', ({ params }) =>
+      ok(this.scoped(state.workerRoutes, this.zone(params.zone).id))
+    );
+    this.route('POST', '/zones/:zone/workers/routes', ({ params, request }) => {
+      const input = json<{ pattern: string; script?: string }>(request);
+      const route: WorkerRoute = { id: this.nextId(), ...input };
+      this.scoped(state.workerRoutes, this.zone(params.zone).id).push(route);
+      return ok(route);
+    });
+    this.route('DELETE', '/zones/:zone/workers/routes/:route', ({ params }) => {
+      const routes = this.scoped(state.workerRoutes, this.zone(params.zone).id);
+      removeWhere(routes, (route) => route.id === params.route, 'Route');
+      return ok({ id: params.route });
+    });
+
+    // -------------------------------------------------------------------------
+    // KV
+    // -------------------------------------------------------------------------
+    const kvBase = '/accounts/:account/storage/kv/namespaces';
+    this.route('GET', kvBase, ({ params, request }) =>
+      paginated(this.scoped(state.kvNamespaces, this.account(params.account).id), request.query)
+    );
+    this.route('POST', kvBase, ({ params, request }) => {
+      const { title } = json<{ title: string }>(request);
+      const namespaces = this.scoped(state.kvNamespaces, this.account(params.account).id);
+      if (namespaces.some((ns) => ns.title === title)) {
+        throw new FakeApiError(400, 10014, 'A namespace with this account ID and title already exists');
+      }
+      const namespace: KvNamespace = { id: this.nextId(), title };
+      namespaces.push(namespace);
+      state.kvEntries.set(namespace.id, new Map());
+      return ok(namespace);
+    });
+    this.route('GET', `${kvBase}/:namespace`, ({ params }) =>
+      ok(this.kvNamespace(params.account, params.namespace))
+    );
+    this.route('PUT', `${kvBase}/:namespace`, ({ params, request }) => {
+      this.kvNamespace(params.account, params.namespace).title = json<{ title: string }>(request).title;
+      return ok(null);
+    });
+    this.route('DELETE', `${kvBase}/:namespace`, ({ params }) => {
+      const namespace = this.kvNamespace(params.account, params.namespace);
+      removeWhere(state.kvNamespaces.get(params.account) ?? [], (ns) => ns === namespace, 'Namespace');
+      state.kvEntries.delete(namespace.id);
+      return ok(null);
+    });
+    this.route('GET', `${kvBase}/:namespace/keys`, ({ params, request }) => {
+      const namespace = this.kvNamespace(params.account, params.namespace);
+      const prefix = request.query.get('prefix') ?? '';
+      const limit = parseInt(request.query.get('limit') ?? '1000', 10);
+      const offset = parseInt(request.query.get('cursor') ?? '0', 10) || 0;
+
+      const names = [...(state.kvEntries.get(namespace.id)?.keys() ?? [])]
+        .filter((name) => name.startsWith(prefix))
+        .sort();
+      const keys: KvKey[] = names.slice(offset, offset + limit).map((name) => {
+        const entry = state.kvEntries.get(namespace.id)?.get(name);
+        return { name, expiration: entry?.expiration, metadata: entry?.metadata };
+      });
+      const nextOffset = offset + keys.length;
+      const cursor = nextOffset < names.length ? String(nextOffset) : '';
+      return json200({
+        success: true,
+        errors: [],
+        messages: [],
+        result: keys,
+        result_info: { count: keys.length, cursor },
+      });
+    });
+    this.route('GET', `${kvBase}/:namespace/values/:key`, ({ params }) => {
+      const namespace = this.kvNamespace(params.account, params.namespace);
+      const entry = state.kvEntries.get(namespace.id)?.get(params.key);
+      if (!entry) {
+        throw new FakeApiError(404, 10009, 'get: key not found');
+      }
+      return text(entry.value, 'application/octet-stream');
+    });
+    this.route('PUT', `${kvBase}/:namespace/values/:key`, ({ params, request }) => {
+      const namespace = this.kvNamespace(params.account, params.namespace);
+      const expiration = request.query.get('expiration');
+      const expirationTtl = request.query.get('expiration_ttl');
+      state.kvEntries.get(namespace.id)?.set(params.key, {
+        value: request.body,
+        expiration: expiration
+          ? parseInt(expiration, 10)
+          : expirationTtl
+            ? Math.floor(Date.now() / 1000) + parseInt(expirationTtl, 10)
+            : undefined,
+      });
+      return ok(null);
+    });
+    this.route('DELETE', `${kvBase}/:namespace/values/:key`, ({ params }) => {
+      const namespace = this.kvNamespace(params.account, params.namespace);
+      state.kvEntries.get(namespace.id)?.delete(params.key);
+      return ok(null);
+    });
+
+    // -------------------------------------------------------------------------
+    // D1
+    // -------------------------------------------------------------------------
+    this.route('GET', '/accounts/:account/d1/database', ({ params, request }) =>
+      paginated(this.scoped(state.d1Databases, this.account(params.account).id), request.query)
+    );
+    this.route('POST', '/accounts/:account/d1/database', ({ params, request }) => {
+      const { name } = json<{ name: string }>(request);
+      const database: D1Database = {
+        uuid: crypto.randomUUID(),
+        name,
+        version: 'production',
+        num_tables: 0,
+        file_size: 0,
+        created_at: new Date().toISOString(),
+      };
+      this.scoped(state.d1Databases, this.account(params.account).id).push(database);
+      return ok(database);
+    });
+    this.route('GET', '/accounts/:account/d1/database/:database', ({ params }) =>
+      ok(this.d1Database(params.account, params.database))
+    );
+    this.route('DELETE', '/accounts/:account/d1/database/:database', ({ params }) => {
+      const database = this.d1Database(params.account, params.database);
+      removeWhere(state.d1Databases.get(params.account) ?? [], (db) => db === database, 'Database');
+      return ok(null);
+    });
+    this.route('POST', '/accounts/:account/d1/database/:database/query', ({ params, request }) => {
+      const database = this.d1Database(params.account, params.database);
+      const { sql, params: sqlParams = [] } = json<{ sql: string; params?: unknown[] }>(request);
+      this.scoped(state.d1Queries, database.uuid).push({ sql, params: sqlParams });
+
+      const rows = this.options.d1Query?.(sql, sqlParams) ?? [];
+      const result: D1QueryResult = {
+        results: rows,
+        success: true,
+        meta: {
+          served_by: 'fake-d1',
+          duration: 0.1,
+          changes: 0,
+          last_row_id: 0,
+          changed_db: false,
+          size_after: database.file_size ?? 0,
+          rows_read: rows.length,
+          rows_written: 0,
+        },
+      };
+      return ok([result]);
+    });
+
+    // -------------------------------------------------------------------------
+    // R2
+    // -------------------------------------------------------------------------
+    this.route('GET', '/accounts/:account/r2/buckets', ({ params }) =>
+      ok({ buckets: this.scoped(state.r2Buckets, this.account(params.account).id) })
+    );
+    this.route('POST', '/accounts/:account/r2/buckets', ({ params, request }) => {
+      const { name, locationHint } = json<{ name: string; locationHint?: string }>(request);
+      const buckets = this.scoped(state.r2Buckets, this.account(params.account).id);
+      if (buckets.some((bucket) => bucket.name === name)) {
+        throw new FakeApiError(409, 10004, 'The bucket you tried to create already exists');
+      }
+      const bucket: R2Bucket = {
+        name,
+        location: locationHint?.toUpperCase() ?? 'ENAM',
+        creation_date: new Date().toISOString(),
+      };
+      buckets.push(bucket);
+      return ok(bucket);
+    });
+    this.route('GET', '/accounts/:account/r2/buckets/:bucket', ({ params }) =>
+      ok(this.r2Bucket(params.account, params.bucket))
+    );
+    this.route('DELETE', '/accounts/:account/r2/buckets/:bucket', ({ params }) => {
+      const bucket = this.r2Bucket(params.account, params.bucket);
+      removeWhere(state.r2Buckets.get(params.account) ?? [], (b) => b === bucket, 'Bucket');
+      return ok({});
+    });
+
+    // -------------------------------------------------------------------------
+    // Pages
+    // -------------------------------------------------------------------------
+    const pagesBase = '/accounts/:account/pages/projects';
+    this.route('GET', pagesBase, ({ params }) =>
+      ok(this.scoped(state.pagesProjects, this.account(params.account).id))
+    );
+    this.route('POST', pagesBase, ({ params, request }) => {
+      const { name, production_branch } = json<{ name: string; production_branch: string }>(request);
+      const project = buildPagesProject(name, production_branch);
+      this.scoped(state.pagesProjects, this.account(params.account).id).push(project);
+      return ok(project);
+    });
+    this.route('GET', `${pagesBase}/:project`, ({ params }) =>
+      ok(this.pagesProject(params.account, params.project))
+    );
+    this.route('DELETE', `${pagesBase}/:project`, ({ params }) => {
+      const project = this.pagesProject(params.account, params.project);
+      removeWhere(state.pagesProjects.get(params.account) ?? [], (p) => p === project, 'Project');
+      state.pagesDeployments.delete(`${params.account}/${project.name}`);
+      return ok(null);
+    });
+    this.route('GET', `${pagesBase}/:project/deployments`, ({ params }) => {
+      this.pagesProject(params.account, params.project);
+      return ok(this.scoped(state.pagesDeployments, `${params.account}/${params.project}`));
+    });
+    this.route('GET', `${pagesBase}/:project/deployments/:deployment`, ({ params }) =>
+      ok(this.pagesDeployment(params.account, params.project, params.deployment))
+    );
+    this.route('DELETE', `${pagesBase}/:project/deployments/:deployment`, ({ params }) => {
+      const deployment = this.pagesDeployment(params.account, params.project, params.deployment);
+      removeWhere(
+        this.scoped(state.pagesDeployments, `${params.account}/${params.project}`),
+        (d) => d === deployment,
+        'Deployment'
+      );
+      return ok(null);
+    });
+    this.route('POST', `${pagesBase}/:project/deployments/:deployment/rollback`, ({ params }) => {
+      const target = this.pagesDeployment(params.account, params.project, params.deployment);
+      const id = crypto.randomUUID();
+      const deployment: PagesDeployment = {
+        ...target,
+        id,
+        short_id: id.slice(0, 8),
+        environment: 'production',
+        created_on: new Date().toISOString(),
+      };
+      this.scoped(state.pagesDeployments, `${params.account}/${params.project}`).unshift(deployment);
+      return ok(deployment);
+    });
+
+    // -------------------------------------------------------------------------
+    // SSL, Firewall, WAF
+    // -------------------------------------------------------------------------
+    this.route('GET', '/zones/:zone/ssl/certificate_packs', ({ params }) =>
+      ok(this.scoped(state.sslCertificates, this.zone(params.zone).id))
+    );
+    this.route('GET', '/zones/:zone/firewall/rules', ({ params }) =>
+      ok(this.scoped(state.firewallRules, this.zone(params.zone).id))
+    );
+    this.route('POST', '/zones/:zone/firewall/rules', ({ params, request }) => {
+      const rules = this.scoped(state.firewallRules, this.zone(params.zone).id);
+      const created = json<FirewallRuleCreateInput[]>(request).map((input) => {
+        const rule: FirewallRule = {
+          ...input,
+          id: this.nextId(),
+          paused: input.paused ?? false,
+          filter: { ...input.filter, id: this.nextId(), paused: input.filter.paused ?? false },
+          created_on: new Date().toISOString(),
+        };
+        rules.push(rule);
+        return rule;
+      });
+      return ok(created);
+    });
+    this.route('GET', '/zones/:zone/firewall/rules/:rule', ({ params }) =>
+      ok(this.firewallRule(params.zone, params.rule))
+    );
+    this.route('PATCH', '/zones/:zone/firewall/rules/:rule', ({ params, request }) => {
+      const rule = this.firewallRule(params.zone, params.rule);
+      Object.assign(rule, json<Partial<FirewallRule>>(request), {
+        modified_on: new Date().toISOString(),
+      });
+      return ok(rule);
+    });
+    this.route('DELETE', '/zones/:zone/firewall/rules/:rule', ({ params }) => {
+      const rule = this.firewallRule(params.zone, params.rule);
+      removeWhere(state.firewallRules.get(params.zone) ?? [], (r) => r === rule, 'Rule');
+      return ok({ id: rule.id });
+    });
+    this.route('GET', '/zones/:zone/filters', ({ params }) =>
+      ok(this.scoped(state.firewallRules, this.zone(params.zone).id).map((rule) => rule.filter))
+    );
+    this.route('GET', '/zones/:zone/firewall/waf/packages', ({ params }) =>
+      ok(this.scoped(state.wafPackages, this.zone(params.zone).id))
+    );
+    this.route('GET', '/zones/:zone/firewall/waf/packages/:package/rules', ({ params }) =>
+      ok(this.wafRules(params.zone, params.package))
+    );
+    this.route('GET', '/zones/:zone/firewall/waf/packages/:package/rules/:rule', ({ params }) => {
+      const rule = this.wafRules(params.zone, params.package).find((r) => r.id === params.rule);
+      if (!rule) throw notFound('WAF rule');
+      return ok(rule);
+    });
+    this.route(
+      'PATCH',
+      '/zones/:zone/firewall/waf/packages/:package/rules/:rule',
+      ({ params, request }) => {
+        const rule = this.wafRules(params.zone, params.package).find((r) => r.id === params.rule);
+        if (!rule) throw notFound('WAF rule');
+        rule.mode = json<{ mode: WafRule['mode'] }>(request).mode;
+        return ok(rule);
+      }
+    );
+
+    // -------------------------------------------------------------------------
+    // Load Balancers
+    // -------------------------------------------------------------------------
+    this.route('GET', '/zones/:zone/load_balancers', ({ params }) =>
+      ok(this.scoped(state.loadBalancers, this.zone(params.zone).id))
+    );
+    this.route('GET', '/zones/:zone/load_balancers/:lb', ({ params }) =>
+      ok(findOr404(this.scoped(state.loadBalancers, this.zone(params.zone).id), params.lb, 'Load balancer'))
+    );
+    this.route('GET', '/accounts/:account/load_balancers/pools', ({ params }) =>
+      ok(this.scoped(state.pools, this.account(params.account).id))
+    );
+    this.route('GET', '/accounts/:account/load_balancers/pools/:pool', ({ params }) =>
+      ok(findOr404(this.scoped(state.pools, this.account(params.account).id), params.pool, 'Pool'))
+    );
+    this.route('GET', '/accounts/:account/load_balancers/monitors', ({ params }) =>
+      ok(this.scoped(state.monitors, this.account(params.account).id))
+    );
+
+    // -------------------------------------------------------------------------
+    // Analytics
+    // -------------------------------------------------------------------------
+    this.route('GET', '/zones/:zone/analytics/dashboard', ({ params, request }) => {
+      this.zone(params.zone);
+      const analytics: ZoneAnalytics = {
+        query: {
+          since: request.query.get('since') ?? '-10080',
+          until: request.query.get('until') ?? '0',
+        },
+        totals: {
+          requests: { all: 1200, cached: 800, uncached: 400 },
+          bandwidth: { all: 5242880, cached: 4194304, uncached: 1048576 },
+          threats: { all: 3 },
+          pageviews: { all: 900 },
+          uniques: { all: 150 },
+        },
+      };
+      return ok(analytics);
+    });
+    this.route('GET', '/zones/:zone/dns_analytics/report', ({ params, request }) => {
+      this.zone(params.zone);
+      return ok({
+        rows: 1,
+        data: [{ dimensions: [FAKE_IDS.zoneName], metrics: [42] }],
+        query: {
+          dimensions: request.query.get('dimensions')?.split(',') ?? [],
+          metrics: request.query.get('metrics')?.split(',') ?? ['queryCount'],
+        },
+        totals: { queryCount: 42 },
+      });
+    });
+  }
+
+  // ===========================================================================
+  // Lookups (throw 404-style Cloudflare errors when missing)
+  // ===========================================================================
+
+  private scoped<T>(map: Map<string, T[]>, key: string): T[] {
+    let items = map.get(key);
+    if (!items) {
+      items = [];
+      map.set(key, items);
+    }
+    return items;
+  }
+
+  private account(accountId: string): Account {
+    const account = this.state.accounts.find((a) => a.id === accountId);
+    if (!account) throw notFound('account');
+    return account;
+  }
+
+  private zone(zoneId: string): Zone {
+    const zone = this.state.zones.find((z) => z.id === zoneId);
+    if (!zone) throw new FakeApiError(400, 7003, 'Could not route to /zones, perhaps your object identifier is invalid?');
+    return zone;
+  }
+
+  private zoneSetting(zoneId: string, settingId: string): Record<string, unknown> {
+    this.zone(zoneId);
+    const setting = (this.state.zoneSettings.get(zoneId) ?? []).find((s) => s.id === settingId);
+    if (!setting) {
+      throw new FakeApiError(400, 1006, `Unrecognized zone setting name: ${settingId}`);
+    }
+    return setting;
+  }
+
+  private dnsRecords(zoneId: string): DnsRecord[] {
+    return this.scoped(this.state.dnsRecords, this.zone(zoneId).id);
+  }
+
+  private dnsRecord(zoneId: string, recordId: string): DnsRecord {
+    const record = this.dnsRecords(zoneId).find((r) => r.id === recordId);
+    if (!record) throw new FakeApiError(404, 81044, 'Record does not exist.');
+    return record;
+  }
+
+  private workers(accountId: string): Map<string, FakeWorkerScript> {
+    this.account(accountId);
+    let workers = this.state.workers.get(accountId);
+    if (!workers) {
+      workers = new Map();
+      this.state.workers.set(accountId, workers);
+    }
+    return workers;
+  }
+
+  private worker(accountId: string, scriptName: string): FakeWorkerScript {
+    const worker = this.workers(accountId).get(scriptName);
+    if (!worker) throw new FakeApiError(404, 10007, 'This Worker does not exist on your account.');
+    return worker;
+  }
+
+  private kvNamespace(accountId: string, namespaceId: string): KvNamespace {
+    const namespace = this.scoped(this.state.kvNamespaces, this.account(accountId).id).find(
+      (ns) => ns.id === namespaceId
+    );
+    if (!namespace) throw new FakeApiError(404, 10013, 'namespace not found');
+    return namespace;
+  }
+
+  private d1Database(accountId: string, databaseId: string): D1Database {
+    const database = this.scoped(this.state.d1Databases, this.account(accountId).id).find(
+      (db) => db.uuid === databaseId
+    );
+    if (!database) throw new FakeApiError(404, 7404, `The database ${databaseId} could not be found`);
+    return database;
+  }
+
+  private r2Bucket(accountId: string, bucketName: string): R2Bucket {
+    const bucket = this.scoped(this.state.r2Buckets, this.account(accountId).id).find(
+      (b) => b.name === bucketName
+    );
+    if (!bucket) throw new FakeApiError(404, 10006, 'The specified bucket does not exist.');
+    return bucket;
+  }
+
+  private pagesProject(accountId: string, projectName: string): PagesProject {
+    const project = this.scoped(this.state.pagesProjects, this.account(accountId).id).find(
+      (p) => p.name === projectName
+    );
+    if (!project) throw new FakeApiError(404, 8000007, 'Project not found.');
+    return project;
+  }
+
+  private pagesDeployment(accountId: string, projectName: string, deploymentId: string): PagesDeployment {
+    this.pagesProject(accountId, projectName);
+    const deployment = this.scoped(this.state.pagesDeployments, `${accountId}/${projectName}`).find(
+      (d) => d.id === deploymentId
+    );
+    if (!deployment) throw new FakeApiError(404, 8000009, 'Deployment not found.');
+    return deployment;
+  }
+
+  private firewallRule(zoneId: string, ruleId: string): FirewallRule {
+    return findOr404(this.scoped(this.state.firewallRules, this.zone(zoneId).id), ruleId, 'Firewall rule');
+  }
+
+  private wafRules(zoneId: string, packageId: string): WafRule[] {
+    findOr404(this.scoped(this.state.wafPackages, this.zone(zoneId).id), packageId, 'WAF package');
+    return this.scoped(this.state.wafRules, `${zoneId}/${packageId}`);
+  }
+}
+
+// =============================================================================
+// Response Helpers
+// =============================================================================
+
+function json200(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function ok<T>(result: T, resultInfo?: ResultInfo): Response {
+  const body: CloudflareResponse<T> = { success: true, errors: [], messages: [], result };
+  if (resultInfo) body.result_info = resultInfo;
+  return json200(body);
+}
+
+function text(body: string, contentType = 'text/plain'): Response {
+  return new Response(body, { status: 200, headers: { 'Content-Type': contentType } });
+}
+
+function paginated<T>(items: T[], query: URLSearchParams): Response {
+  const page = Math.max(1, parseInt(query.get('page') ?? '1', 10) || 1);
+  const perPage = Math.max(1, parseInt(query.get('per_page') ?? '20', 10) || 20);
+  const slice = items.slice((page - 1) * perPage, page * perPage);
+  return ok(slice, {
+    page,
+    per_page: perPage,
+    count: slice.length,
+    total_count: items.length,
+    total_pages: Math.max(1, Math.ceil(items.length / perPage)),
+  });
+}
+
+function errorResponse(status: number, code: number, message: string): Response {
+  const body: CloudflareResponse<null> = {
+    success: false,
+    errors: [{ code, message }],
+    messages: [],
+    result: null,
+  };
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function failureResponse(failure: FakeFailure): Response {
+  const body =
+    failure.body ??
+    JSON.stringify({
+      success: false,
+      errors: failure.errors ?? [{ code: 10000, message: `Injected failure (${failure.status})` }],
+      messages: [],
+      result: null,
+    });
+  return new Response(body, {
+    status: failure.status,
+    headers: { 'Content-Type': 'application/json', ...failure.headers },
+  });
+}
+
+function notFound(entity: string): FakeApiError {
+  return new FakeApiError(404, 7003, `Could not find ${entity}`);
+}
+
+function findOr404<T extends { id: string }>(items: T[], id: string, entity: string): T {
+  const item = items.find((i) => i.id === id);
+  if (!item) throw notFound(entity);
+  return item;
+}
+
+function removeWhere<T>(items: T[], predicate: (item: T) => boolean, entity: string): void {
+  const index = items.findIndex(predicate);
+  if (index === -1) throw notFound(entity);
+  items.splice(index, 1);
+}
+
+function json<T>(request: FakeRequest): T {
+  try {
+    return JSON.parse(request.body) as T;
+  } catch {
+    throw new FakeApiError(400, 6007, 'Malformed JSON in request body');
+  }
+}
+
+function qualifyName(name: string, zoneName: string): string {
+  if (name === '@' || name === zoneName) return zoneName;
+  return name.endsWith(`.${zoneName}`) ? name : `${name}.${zoneName}`;
+}
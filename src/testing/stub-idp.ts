@@ -0,0 +1,115 @@
+/**
+ * Stub Identity Provider
+ *
+ * Minimal OAuth 2.0 identity provider for testing the OAuth flow without a real
+ * one. /authorize signs in the current user without a login page and
+ * redirects straight back with a code.
+ *
+ * Usage:
+ * - In-process: pass `idp.fetch` as the OAuthServer transport
+ *   (new OAuthServer({ idp: idp.config, fetch: idp.fetch, ... })) and follow
+ *   its /authorize redirect with `idp.fetch` too
+ * - Out-of-process: serve `idp.fetch` from any HTTP server or Worker and point
+ *   the OAUTH_IDP_* variables at it
+ */
+
+import type { IdentityProviderConfig } from '../auth/oauth.js';
+
+export const STUB_IDP_URL = 'https://idp.test';
+
+export interface StubIdentityProviderOptions {
+  /** Base URL the provider is served at (default: STUB_IDP_URL) */
+  baseUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export class StubIdentityProvider {
+  /** User that /authorize signs in; set to undefined to make users cancel sign-in */
+  userId: string | undefined = 'user-1';
+
+  /** Client configuration for an OAuthServer using this provider */
+  readonly config: IdentityProviderConfig;
+
+  private codes = new Map<string, { userId: string; redirectUri: string }>();
+  private tokens = new Map<string, string>();
+  private counter = 0;
+
+  constructor(options: StubIdentityProviderOptions = {}) {
+    const baseUrl = options.baseUrl ?? STUB_IDP_URL;
+    this.config = {
+      authorizeUrl: `${baseUrl}/authorize`,
+      tokenUrl: `${baseUrl}/token`,
+      userInfoUrl: `${baseUrl}/userinfo`,
+      clientId: options.clientId ?? 'stub-client',
+      clientSecret: options.clientSecret ?? 'stub-secret',
+    };
+  }
+
+  /**
+   * Handle a request (compatible with the global fetch signature)
+   */
+  fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = input instanceof Request ? input : new Request(input, init);
+    const url = new URL(request.url);
+
+    switch (`${request.method} ${url.pathname}`) {
+      case 'GET /authorize':
+        return this.authorize(url);
+      case 'POST /token':
+        return this.token(await request.formData());
+      case 'GET /userinfo':
+        return this.userInfo(request);
+      default:
+        return Response.json({ error: 'not_found' }, { status: 404 });
+    }
+  };
+
+  private authorize(url: URL): Response {
+    const redirectUri = url.searchParams.get('redirect_uri') ?? '';
+    if (url.searchParams.get('client_id') !== this.config.clientId || !redirectUri) {
+      return Response.json({ error: 'invalid_request' }, { status: 400 });
+    }
+
+    const location = new URL(redirectUri);
+    const state = url.searchParams.get('state');
+    if (state !== null) {
+      location.searchParams.set('state', state);
+    }
+    if (this.userId === undefined) {
+      location.searchParams.set('error', 'access_denied');
+    } else {
+      const code = `code-${++this.counter}`;
+      this.codes.set(code, { userId: this.userId, redirectUri });
+      location.searchParams.set('code', code);
+    }
+    return new Response(null, { status: 302, headers: { Location: location.toString() } });
+  }
+
+  private token(form: FormData): Response {
+    const code = String(form.get('code') ?? '');
+    const issued = this.codes.get(code);
+    this.codes.delete(code);
+    if (
+      !issued ||
+      issued.redirectUri !== form.get('redirect_uri') ||
+      form.get('client_id') !== this.config.clientId ||
+      form.get('client_secret') !== this.config.clientSecret
+    ) {
+      return Response.json({ error: 'invalid_grant' }, { status: 400 });
+    }
+
+    const accessToken = `idp-token-${++this.counter}`;
+    this.tokens.set(accessToken, issued.userId);
+    return Response.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 3600 });
+  }
+
+  private userInfo(request: Request): Response {
+    const token = request.headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+    const userId = this.tokens.get(token);
+    if (!userId) {
+      return Response.json({ error: 'invalid_token' }, { status: 401 });
+    }
+    return Response.json({ sub: userId });
+  }
+}
@@ -8,11 +8,20 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
 import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import { collectAll, fetchAllPageSize } from '../utils/pagination.js';
+import type { ToolContext } from './context.js';
+import { READ_ONLY } from './policy.js';
 
 /**
  * Register all account-related tools
  */
-export function registerAccountTools(server: McpServer, client: CloudflareClient): void {
+export function registerAccountTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
+  const { defaultPerPage, maxPerPage } = context.pagination;
+
   // ===========================================================================
   // Get User
   // ===========================================================================
@@ -23,14 +32,16 @@ export function registerAccountTools(server: McpServer, client: CloudflareClient
 Returns the user's email, name, and account settings.
 
 Args:
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ format }) => {
+    READ_ONLY,
+    async ({ format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const user = await client.getUser();
-        return formatResponse(user, format, 'user');
+        const user = await api.getUser();
+        return formatResponse(user, format, 'user', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -46,17 +57,39 @@ Args:
 
 Args:
   - page: Page number (default: 1)
-  - per_page: Results per page (default: 20)
-  - format: Response format`,
+  - per_page: Results per page (1-${maxPerPage}, default: ${defaultPerPage})
+  - all: Fetch every page from page on and return the combined list. When it stops early,
+    call again with page set to the returned nextPage and the same max_items (default: false)
+  - max_items: Maximum items to return when all is true (default: 1000)
+  - format: Response format (default: the pinned format, or json)`,
     {
       page: z.number().int().min(1).default(1),
-      per_page: z.number().int().min(1).max(100).default(20),
-      format: z.enum(['json', 'markdown']).default('json'),
+      per_page: z.number().int().min(1).max(maxPerPage).default(defaultPerPage),
+      all: z.boolean().default(false).describe('Fetch every page and combine the results'),
+      max_items: z
+        .number()
+        .int()
+        .min(1)
+        .max(10000)
+        .optional()
+        .describe('Maximum items to return when all is true (default: 1000)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ page, per_page, format }) => {
+    READ_ONLY,
+    async ({ page, per_page, all, max_items, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const result = await client.listAccounts({ page, per_page });
-        return formatResponse(result, format, 'accounts');
+        const result = all
+          ? await collectAll(
+              api.listAllAccounts({
+                page,
+                per_page: fetchAllPageSize(context.pagination, max_items),
+              }),
+              max_items,
+              context.output.characterLimit
+            )
+          : await api.listAccounts({ page, per_page });
+        return formatResponse(result, format, 'accounts', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -71,16 +104,20 @@ Args:
     `Get details of a specific account.
 
 Args:
-  - account_id: The account ID
-  - format: Response format`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, format }) => {
+    READ_ONLY,
+    async ({ account_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const account = await client.getAccount(account_id);
-        return formatResponse(account, format, 'account');
+        const accountId = await context.account.resolve(api, account_id);
+        const account = await api.getAccount(accountId);
+        return formatResponse(account, format, 'account', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -95,20 +132,44 @@ Args:
     `List all members of an account.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - page: Page number (default: 1)
-  - per_page: Results per page (default: 20)
-  - format: Response format`,
+  - per_page: Results per page (1-${maxPerPage}, default: ${defaultPerPage})
+  - all: Fetch every page from page on and return the combined list. When it stops early,
+    call again with page set to the returned nextPage and the same max_items (default: false)
+  - max_items: Maximum items to return when all is true (default: 1000)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       page: z.number().int().min(1).default(1),
-      per_page: z.number().int().min(1).max(100).default(20),
-      format: z.enum(['json', 'markdown']).default('json'),
+      per_page: z.number().int().min(1).max(maxPerPage).default(defaultPerPage),
+      all: z.boolean().default(false).describe('Fetch every page and combine the results'),
+      max_items: z
+        .number()
+        .int()
+        .min(1)
+        .max(10000)
+        .optional()
+        .describe('Maximum items to return when all is true (default: 1000)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, page, per_page, format }) => {
+    READ_ONLY,
+    async ({ account_id, page, per_page, all, max_items, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const result = await client.listAccountMembers(account_id, { page, per_page });
-        return formatResponse(result, format, 'account_members');
+        const accountId = await context.account.resolve(api, account_id);
+        const result = all
+          ? await collectAll(
+              api.listAllAccountMembers(accountId, {
+                page,
+                per_page: fetchAllPageSize(context.pagination, max_items),
+              }),
+              max_items,
+              context.output.characterLimit
+            )
+          : await api.listAccountMembers(accountId, { page, per_page });
+        return formatResponse(result, format, 'account_members', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -8,11 +8,17 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
 import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import { READ_ONLY } from './policy.js';
 
 /**
  * Register all analytics-related tools
  */
-export function registerAnalyticsTools(server: McpServer, client: CloudflareClient): void {
+export function registerAnalyticsTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Get Zone Analytics
   // ===========================================================================
@@ -28,20 +34,23 @@ Time range examples:
   - Specific range: since=2024-01-01T00:00:00Z until=2024-01-02T00:00:00Z
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - since: Start time (ISO 8601 or negative minutes from now)
   - until: End time (ISO 8601 or negative minutes from now)
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       since: z.string().optional().describe('Start time (ISO 8601 or -minutes)'),
       until: z.string().optional().describe('End time (ISO 8601 or -minutes)'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, since, until, format }) => {
+    READ_ONLY,
+    async ({ zone_id, since, until, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const analytics = await client.getZoneAnalytics(zone_id, since, until);
-        return formatResponse(analytics, format, 'zone_analytics');
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const analytics = await api.getZoneAnalytics(zoneId, since, until);
+        return formatResponse(analytics, format, 'zone_analytics', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -65,22 +74,25 @@ Available metrics:
   - queryCount: Number of queries
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - dimensions: Dimensions to group by (as JSON array)
   - metrics: Metrics to return (as JSON array)
   - since: Start time
   - until: End time
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       dimensions: z.string().optional().describe('Dimensions as JSON array (e.g., \'["queryName", "queryType"]\')'),
       metrics: z.string().optional().describe('Metrics as JSON array (e.g., \'["queryCount"]\')'),
       since: z.string().optional().describe('Start time'),
       until: z.string().optional().describe('End time'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, dimensions, metrics, since, until, format }) => {
+    READ_ONLY,
+    async ({ zone_id, dimensions, metrics, since, until, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
+        const zoneId = await context.zones.resolve(api, zone_id);
         let parsedDimensions: string[] | undefined;
         let parsedMetrics: string[] | undefined;
 
@@ -100,14 +112,14 @@ Args:
           }
         }
 
-        const analytics = await client.getDnsAnalytics(
-          zone_id,
+        const analytics = await api.getDnsAnalytics(
+          zoneId,
           parsedDimensions,
           parsedMetrics,
           since,
           until
         );
-        return formatResponse(analytics, format, 'dns_analytics');
+        return formatResponse(analytics, format, 'dns_analytics', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
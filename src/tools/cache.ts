@@ -7,12 +7,20 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
+import type { ConfirmationImpact } from '../utils/confirmation.js';
 import { formatErrorResponse } from '../utils/formatters.js';
+import { confirmDestructiveAction } from './confirmation.js';
+import type { ToolContext } from './context.js';
+import { DESTRUCTIVE_WRITE } from './policy.js';
 
 /**
  * Register all cache-related tools
  */
-export function registerCacheTools(server: McpServer, client: CloudflareClient): void {
+export function registerCacheTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Purge Everything
   // ===========================================================================
@@ -23,14 +31,40 @@ export function registerCacheTools(server: McpServer, client: CloudflareClient):
 WARNING: This removes all cached files. The next requests will need to be
 served from your origin server, which may cause increased load.
 
+Two-phase: a call without confirmation_token changes nothing and returns what
+would be purged plus a token valid for 5 minutes. Call again with the same
+arguments and the token to proceed. Clients that support elicitation ask the
+user to approve instead.
+
 Args:
-  - zone_id: The zone ID`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - confirmation_token: Token returned by the first call; required to purge
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
+      confirmation_token: z.string().optional().describe('Token returned by the first call'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, confirmation_token, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
-        const result = await client.purgeCache(zone_id, { purge_everything: true });
+        const zoneId = await context.zones.resolve(api, zone_id);
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_purge_all_cache',
+              target: { zone_id: zoneId },
+              describe: () => describeCachePurge(api, zoneId),
+              requireToken: true,
+              token: confirmation_token,
+            },
+            extra
+          );
+        }
+        const result = await api.purgeCache(zoneId, { purge_everything: true });
         return {
           content: [
             {
@@ -63,14 +97,19 @@ Args:
 You can purge up to 30 URLs at once.
 
 Args:
-  - zone_id: The zone ID
-  - urls: Array of URLs to purge (as JSON array string)`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - urls: Array of URLs to purge (as JSON array string)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       urls: z.string().describe('JSON array of URLs to purge (e.g., \'["https://example.com/file.js"]\')'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, urls }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, urls, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
+        const zoneId = await context.zones.resolve(api, zone_id);
         let parsedUrls: string[];
         try {
           parsedUrls = JSON.parse(urls);
@@ -96,7 +135,23 @@ Args:
           };
         }
 
-        const result = await client.purgeCache(zone_id, { files: parsedUrls });
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_purge_cache_by_url',
+              target: { zone_id: zoneId, urls: parsedUrls },
+              describe: async () => ({
+                summary: `Purges ${parsedUrls.length} URL(s) from the cache of zone ${zoneId}`,
+                details: { zone_id: zoneId, urls: parsedUrls },
+              }),
+            },
+            extra
+          );
+        }
+
+        const result = await api.purgeCache(zoneId, { files: parsedUrls });
         return {
           content: [
             {
@@ -131,14 +186,19 @@ Cache tags must be set via the Cache-Tag response header from your origin.
 You can purge up to 30 tags at once.
 
 Args:
-  - zone_id: The zone ID
-  - tags: Array of cache tags to purge (as JSON array string)`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - tags: Array of cache tags to purge (as JSON array string)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       tags: z.string().describe('JSON array of cache tags (e.g., \'["tag1", "tag2"]\')'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, tags }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, tags, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
+        const zoneId = await context.zones.resolve(api, zone_id);
         let parsedTags: string[];
         try {
           parsedTags = JSON.parse(tags);
@@ -164,7 +224,23 @@ Args:
           };
         }
 
-        const result = await client.purgeCache(zone_id, { tags: parsedTags });
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_purge_cache_by_tag',
+              target: { zone_id: zoneId, tags: parsedTags },
+              describe: async () => ({
+                summary: `Purges ${parsedTags.length} tag(s) from the cache of zone ${zoneId}`,
+                details: { zone_id: zoneId, tags: parsedTags },
+              }),
+            },
+            extra
+          );
+        }
+
+        const result = await api.purgeCache(zoneId, { tags: parsedTags });
         return {
           content: [
             {
@@ -199,14 +275,19 @@ This purges all cached content for the specified hostnames.
 You can purge up to 30 hosts at once.
 
 Args:
-  - zone_id: The zone ID
-  - hosts: Array of hostnames to purge (as JSON array string)`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - hosts: Array of hostnames to purge (as JSON array string)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       hosts: z.string().describe('JSON array of hostnames (e.g., \'["www.example.com", "api.example.com"]\')'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, hosts }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, hosts, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
+        const zoneId = await context.zones.resolve(api, zone_id);
         let parsedHosts: string[];
         try {
           parsedHosts = JSON.parse(hosts);
@@ -232,7 +313,23 @@ Args:
           };
         }
 
-        const result = await client.purgeCache(zone_id, { hosts: parsedHosts });
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_purge_cache_by_host',
+              target: { zone_id: zoneId, hosts: parsedHosts },
+              describe: async () => ({
+                summary: `Purges ${parsedHosts.length} host(s) from the cache of zone ${zoneId}`,
+                details: { zone_id: zoneId, hosts: parsedHosts },
+              }),
+            },
+            extra
+          );
+        }
+
+        const result = await api.purgeCache(zoneId, { hosts: parsedHosts });
         return {
           content: [
             {
@@ -256,3 +353,24 @@ Args:
     }
   );
 }
+
+/**
+ * What purging a zone's whole cache affects
+ */
+async function describeCachePurge(
+  api: CloudflareClient,
+  zoneId: string
+): Promise<ConfirmationImpact> {
+  const zone = await api.getZone(zoneId);
+
+  return {
+    summary:
+      `Purges every cached file for ${zone.name}; ` +
+      'the origin serves all traffic until the cache refills',
+    details: {
+      zone_id: zone.id,
+      zone_name: zone.name,
+      plan: zone.plan?.name,
+    },
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Destructive Action Confirmation
+ *
+ * Deletes and purges ask the human for approval through MCP elicitation when
+ * the client supports it, showing a summary of the impact. Otherwise
+ * irreversible operations fall back to confirmation tokens, and the others
+ * run without asking.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ElicitResultSchema,
+  type ServerNotification,
+  type ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ConfirmationImpact } from '../utils/confirmation.js';
+import { CancelledError } from '../utils/errors.js';
+import type { ToolContext } from './context.js';
+
+/**
+ * A destructive tool call awaiting approval
+ */
+export interface DestructiveAction {
+  tool: string;
+
+  /** Arguments identifying what is destroyed; a confirmation token is bound to them */
+  target: Record<string, unknown>;
+
+  /** Look up what the call would destroy */
+  describe: () => Promise<ConfirmationImpact>;
+
+  /** Require a confirmation token when the client can't elicit (irreversible operations) */
+  requireToken?: boolean;
+
+  /** confirmation_token passed by the caller */
+  token?: string;
+}
+
+/**
+ * The parts of a tool handler's extra argument used for elicitation
+ */
+export type ToolRequestExtra = Pick<
+  RequestHandlerExtra<ServerRequest, ServerNotification>,
+  'signal' | 'sendRequest'
+>;
+
+/**
+ * Return once the action may run. Throws CancelledError when the user declines,
+ * and ConfirmationRequired or ValidationError from the token fallback.
+ */
+export async function confirmDestructiveAction(
+  server: McpServer,
+  context: ToolContext,
+  action: DestructiveAction,
+  extra: ToolRequestExtra
+): Promise<void> {
+  const { tool, target, describe, requireToken, token } = action;
+
+  // A caller holding a token already went through the two-phase flow
+  if (requireToken && token) {
+    await context.confirmations.verify(tool, target, token);
+    return;
+  }
+
+  if (supportsFormElicitation(server)) {
+    const impact = await describe();
+    const result = await extra.sendRequest(
+      {
+        method: 'elicitation/create',
+        params: {
+          mode: 'form',
+          message: `${impact.summary}.\n\n${JSON.stringify(impact.details, null, 2)}`,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              confirm: {
+                type: 'boolean',
+                title: 'Proceed',
+                description: `Run ${tool}; this can't be undone`,
+              },
+            },
+            required: ['confirm'],
+          },
+        },
+      },
+      ElicitResultSchema,
+      { signal: extra.signal }
+    );
+    if (result.action !== 'accept' || result.content?.confirm !== true) {
+      throw new CancelledError(`Not approved by the user, nothing was changed: ${impact.summary}`);
+    }
+    return;
+  }
+
+  if (requireToken) {
+    await context.confirmations.require(tool, target, undefined, describe);
+  }
+}
+
+/**
+ * Whether the connected client accepts form elicitation requests. An empty
+ * elicitation capability means form mode, as in earlier protocol versions.
+ *
+ * The capabilities come from initialize, so this is only true on servers that
+ * handled it: /sse sessions, not the stateless /mcp endpoint, where each POST
+ * gets a fresh server. There the token flow is used.
+ */
+function supportsFormElicitation(server: McpServer): boolean {
+  const elicitation = server.server.getClientCapabilities()?.elicitation;
+  return !!elicitation && (!!elicitation.form || !elicitation.url);
+}
@@ -0,0 +1,35 @@
+/**
+ * Tool Context
+ *
+ * Per-server settings shared by every tool registration.
+ */
+
+import type { ConfirmationTokens } from '../utils/confirmation.js';
+import type { OutputOptions } from '../utils/output.js';
+import type { PageSizeLimits } from '../utils/pagination.js';
+import type { SessionStore, SessionTokens } from '../utils/session.js';
+import type { DefaultAccount } from './default-account.js';
+import type { ZoneResolver } from './zone-resolver.js';
+
+export interface ToolContext {
+  /** Character limit and continuation storage for tool output */
+  output: OutputOptions;
+
+  /** Page size default and cap advertised in list tool schemas */
+  pagination: PageSizeLimits;
+
+  /** Signs and checks confirmation tokens for irreversible operations */
+  confirmations: ConfirmationTokens;
+
+  /** Resolves an omitted account_id to the tenant's default account */
+  account: DefaultAccount;
+
+  /** Resolves a zone_id given as a domain name, or omitted, to the zone's ID */
+  zones: ZoneResolver;
+
+  /** Account, zone and format pinned for the session */
+  session: SessionStore;
+
+  /** Signs the session state handed to stateless clients */
+  sessionTokens: SessionTokens;
+}
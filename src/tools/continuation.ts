@@ -0,0 +1,48 @@
+/**
+ * Continuation Tools
+ *
+ * MCP tools for paging through tool output that exceeded the character limit.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { formatChunkResponse, formatErrorResponse } from '../utils/formatters.js';
+import { readContinuation } from '../utils/output.js';
+import type { ToolContext } from './context.js';
+import { READ_ONLY } from './policy.js';
+
+/**
+ * Register the continuation tool
+ */
+export function registerContinuationTools(server: McpServer, context: ToolContext): void {
+  // ===========================================================================
+  // Get More
+  // ===========================================================================
+  server.tool(
+    'cloudflare_get_more',
+    `Fetch the next chunk of a tool response that was truncated.
+
+Truncated responses end with a notice containing a continuation token. Tokens
+expire after 15 minutes.
+
+Args:
+  - continuation_token: The token from the truncation notice`,
+    {
+      continuation_token: z.string().describe('Continuation token from a truncated response'),
+    },
+    READ_ONLY,
+    async ({ continuation_token }) => {
+      try {
+        const chunk = await readContinuation(continuation_token, context.output);
+        if (!chunk) {
+          throw new Error(
+            'Continuation token is invalid or has expired. Re-run the original tool call.'
+          );
+        }
+        return formatChunkResponse(chunk);
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+}
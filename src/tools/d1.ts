@@ -7,12 +7,23 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
+import type { ConfirmationImpact } from '../utils/confirmation.js';
 import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import { collectAll, fetchAllPageSize } from '../utils/pagination.js';
+import { confirmDestructiveAction } from './confirmation.js';
+import type { ToolContext } from './context.js';
+import { ADDITIVE_WRITE, DESTRUCTIVE_WRITE, READ_ONLY } from './policy.js';
 
 /**
  * Register all D1-related tools
  */
-export function registerD1Tools(server: McpServer, client: CloudflareClient): void {
+export function registerD1Tools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
+  const { defaultPerPage, maxPerPage } = context.pagination;
+
   // ===========================================================================
   // List D1 Databases
   // ===========================================================================
@@ -21,20 +32,44 @@ export function registerD1Tools(server: McpServer, client: CloudflareClient): vo
     `List all D1 databases in an account.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - page: Page number (default: 1)
-  - per_page: Results per page (default: 20)
-  - format: Response format`,
+  - per_page: Results per page (1-${maxPerPage}, default: ${defaultPerPage})
+  - all: Fetch every page from page on and return the combined list. When it stops early,
+    call again with page set to the returned nextPage and the same max_items (default: false)
+  - max_items: Maximum items to return when all is true (default: 1000)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       page: z.number().int().min(1).default(1),
-      per_page: z.number().int().min(1).max(100).default(20),
-      format: z.enum(['json', 'markdown']).default('json'),
+      per_page: z.number().int().min(1).max(maxPerPage).default(defaultPerPage),
+      all: z.boolean().default(false).describe('Fetch every page and combine the results'),
+      max_items: z
+        .number()
+        .int()
+        .min(1)
+        .max(10000)
+        .optional()
+        .describe('Maximum items to return when all is true (default: 1000)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, page, per_page, format }) => {
+    READ_ONLY,
+    async ({ account_id, page, per_page, all, max_items, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const result = await client.listD1Databases(account_id, { page, per_page });
-        return formatResponse(result, format, 'd1_databases');
+        const accountId = await context.account.resolve(api, account_id);
+        const result = all
+          ? await collectAll(
+              api.listAllD1Databases(accountId, {
+                page,
+                per_page: fetchAllPageSize(context.pagination, max_items),
+              }),
+              max_items,
+              context.output.characterLimit
+            )
+          : await api.listD1Databases(accountId, { page, per_page });
+        return formatResponse(result, format, 'd1_databases', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -49,18 +84,22 @@ Args:
     `Get details of a specific D1 database.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - database_id: The database UUID
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       database_id: z.string().describe('Database UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, database_id, format }) => {
+    READ_ONLY,
+    async ({ account_id, database_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const database = await client.getD1Database(account_id, database_id);
-        return formatResponse(database, format, 'd1_database');
+        const accountId = await context.account.resolve(api, account_id);
+        const database = await api.getD1Database(accountId, database_id);
+        return formatResponse(database, format, 'd1_database', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -75,15 +114,21 @@ Args:
     `Create a new D1 database.
 
 Args:
-  - account_id: The account ID
-  - name: The database name`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - name: The database name
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       name: z.string().describe('Database name'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, name }) => {
+    ADDITIVE_WRITE,
+    async ({ account_id, name, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const database = await client.createD1Database(account_id, name);
+        const accountId = await context.account.resolve(api, account_id);
+        const database = await api.createD1Database(accountId, name);
         return {
           content: [
             {
@@ -116,15 +161,33 @@ Args:
 WARNING: This will permanently delete the database and all its data.
 
 Args:
-  - account_id: The account ID
-  - database_id: The database UUID`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - database_id: The database UUID
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       database_id: z.string().describe('Database UUID'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, database_id }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ account_id, database_id, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
-        await client.deleteD1Database(account_id, database_id);
+        const accountId = await context.account.resolve(api, account_id);
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_delete_d1_database',
+              target: { account_id: accountId, database_id },
+              describe: () => describeD1DatabaseDeletion(api, accountId, database_id),
+            },
+            extra
+          );
+        }
+        await api.deleteD1Database(accountId, database_id);
         return {
           content: [
             {
@@ -161,20 +224,26 @@ Examples:
   - CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT)
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - database_id: The database UUID
   - sql: The SQL query to execute
   - params: Query parameters for prepared statements (optional, as JSON array)
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       database_id: z.string().describe('Database UUID'),
       sql: z.string().describe('SQL query'),
       params: z.string().optional().describe('Query parameters as JSON array (e.g., \'["value1", 123]\')'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, database_id, sql, params, format }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ account_id, database_id, sql, params, format, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
+        const accountId = await context.account.resolve(api, account_id);
         let parsedParams: unknown[] | undefined;
         if (params) {
           try {
@@ -202,7 +271,7 @@ Args:
           }
         }
 
-        const results = await client.queryD1Database(account_id, database_id, sql, parsedParams);
+        const results = await api.queryD1Database(accountId, database_id, sql, parsedParams);
 
         // D1 returns an array of result sets (one per statement)
         const response = results.map((result, index) => ({
@@ -217,10 +286,32 @@ Args:
           },
         }));
 
-        return formatResponse(response, format, 'd1_query_results');
+        return formatResponse(response, format, 'd1_query_results', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
     }
   );
 }
+
+/**
+ * What deleting a D1 database destroys
+ */
+async function describeD1DatabaseDeletion(
+  api: CloudflareClient,
+  accountId: string,
+  databaseId: string
+): Promise<ConfirmationImpact> {
+  const database = await api.getD1Database(accountId, databaseId);
+  const tables = database.num_tables ?? 'unknown';
+
+  return {
+    summary: `Deletes D1 database ${database.name} with its ${tables} tables and all their data`,
+    details: {
+      database_id: database.uuid,
+      name: database.name,
+      tables: database.num_tables,
+      file_size_bytes: database.file_size,
+    },
+  };
+}
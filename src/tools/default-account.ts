@@ -0,0 +1,89 @@
+/**
+ * Default Account
+ *
+ * Account-scoped tools take an optional account_id. Without one they use the
+ * account pinned in the session, the account from the X-CF-Account-ID header
+ * or, failing that, the only account the credentials can access. A discovered
+ * account is kept in the session, apart from the pinned one.
+ */
+
+import type { CloudflareClient } from '../client.js';
+import { ValidationError } from '../utils/errors.js';
+import { MemorySessionStore, type SessionStore } from '../utils/session.js';
+
+/**
+ * Accounts named in the error when the default is ambiguous
+ */
+const MAX_LISTED_ACCOUNTS = 5;
+
+/**
+ * Where the default account comes from
+ */
+export type AccountSource = 'pinned' | 'header' | 'discovered';
+
+/**
+ * Resolves account_id for one tenant, discovering the default at most once
+ */
+export class DefaultAccount {
+  private configured?: string;
+  private session: SessionStore;
+
+  constructor(configured?: string, session: SessionStore = new MemorySessionStore()) {
+    this.configured = configured;
+    this.session = session;
+  }
+
+  /**
+   * The account a tool call applies to: account_id when given, otherwise the
+   * default. Throws ValidationError when there is no single default account.
+   */
+  async resolve(api: CloudflareClient, accountId?: string): Promise<string> {
+    const current = accountId || this.current();
+    if (current) return current;
+
+    const only = await this.discover(api);
+    this.session.update({ discoveredAccountId: only });
+    return only;
+  }
+
+  /**
+   * The default account when it is known without a lookup
+   */
+  current(): string | undefined {
+    const state = this.session.get();
+    return state.accountId ?? this.configured ?? state.discoveredAccountId;
+  }
+
+  /**
+   * Where current() comes from, or undefined when there is no default yet
+   */
+  source(): AccountSource | undefined {
+    const state = this.session.get();
+    if (state.accountId) return 'pinned';
+    if (this.configured) return 'header';
+    return state.discoveredAccountId ? 'discovered' : undefined;
+  }
+
+  private async discover(api: CloudflareClient): Promise<string> {
+    const accounts = await api.listAccounts({ page: 1, per_page: MAX_LISTED_ACCOUNTS });
+    const total = accounts.total ?? accounts.count;
+    const [only] = accounts.items;
+    if (total === 1 && only) {
+      return only.id;
+    }
+
+    const fix =
+      'Pass account_id, set the X-CF-Account-ID header or pin one with cloudflare_set_context.';
+    if (total === 0) {
+      throw new ValidationError(
+        `account_id is required: these credentials can't list any accounts. ${fix}`
+      );
+    }
+    const listed = accounts.items.map((account) => `${account.name} (${account.id})`).join(', ');
+    const more = total > accounts.items.length ? ', ...' : '';
+    throw new ValidationError(
+      `account_id is required: these credentials can access ${total} accounts ` +
+        `(${listed}${more}). ${fix}`
+    );
+  }
+}
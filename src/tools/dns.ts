@@ -8,7 +8,14 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
 import type { DnsRecordType } from '../types/cloudflare.js';
-import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import {
+  formatErrorResponse,
+  formatResponse,
+  formatTextResponse,
+} from '../utils/formatters.js';
+import { collectAll, fetchAllPageSize } from '../utils/pagination.js';
+import type { ToolContext } from './context.js';
+import { ADDITIVE_WRITE, DESTRUCTIVE_WRITE, READ_ONLY } from './policy.js';
 
 const DNS_RECORD_TYPES = [
   'A',
@@ -27,7 +34,13 @@ const DNS_RECORD_TYPES = [
 /**
  * Register all DNS-related tools
  */
-export function registerDnsTools(server: McpServer, client: CloudflareClient): void {
+export function registerDnsTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
+  const { defaultPerPage, maxPerPage } = context.pagination;
+
   // ===========================================================================
   // List DNS Records
   // ===========================================================================
@@ -38,26 +51,55 @@ export function registerDnsTools(server: McpServer, client: CloudflareClient): v
 Returns all DNS records with their type, name, content, TTL, and proxy status.
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - type: Filter by record type (A, AAAA, CNAME, TXT, MX, etc.)
   - name: Filter by record name
   - content: Filter by record content
   - page: Page number (default: 1)
-  - per_page: Results per page (1-100, default: 20)
-  - format: Response format ('json' or 'markdown')`,
+  - per_page: Results per page (1-${maxPerPage}, default: ${defaultPerPage})
+  - all: Fetch every page from page on and return the combined list. When it stops early,
+    call again with page set to the returned nextPage and the same max_items (default: false)
+  - max_items: Maximum items to return when all is true (default: 1000)
+  - format: Response format ('json' or 'markdown'; default: the pinned format, or 'json')`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       type: z.string().optional().describe('Filter by record type (A, AAAA, CNAME, TXT, MX, etc.)'),
       name: z.string().optional().describe('Filter by record name'),
       content: z.string().optional().describe('Filter by record content'),
       page: z.number().int().min(1).default(1),
-      per_page: z.number().int().min(1).max(100).default(20),
-      format: z.enum(['json', 'markdown']).default('json'),
+      per_page: z.number().int().min(1).max(maxPerPage).default(defaultPerPage),
+      all: z.boolean().default(false).describe('Fetch every page and combine the results'),
+      max_items: z
+        .number()
+        .int()
+        .min(1)
+        .max(10000)
+        .optional()
+        .describe('Maximum items to return when all is true (default: 1000)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, type, name, content, page, per_page, format }) => {
+    READ_ONLY,
+    async (
+      { zone_id, type, name, content, page, per_page, all, max_items, format },
+      { signal }
+    ) => {
+      const api = client.withSignal(signal);
       try {
-        const result = await client.listDnsRecords(zone_id, { type, name, content, page, per_page });
-        return formatResponse(result, format, 'dns_records');
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const result = all
+          ? await collectAll(
+              api.listAllDnsRecords(zoneId, {
+                type,
+                name,
+                content,
+                page,
+                per_page: fetchAllPageSize(context.pagination, max_items),
+              }),
+              max_items,
+              context.output.characterLimit
+            )
+          : await api.listDnsRecords(zoneId, { type, name, content, page, per_page });
+        return formatResponse(result, format, 'dns_records', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -72,18 +114,21 @@ Args:
     `Get a specific DNS record by ID.
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - record_id: The DNS record ID
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       record_id: z.string().describe('DNS record ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, record_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, record_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const record = await client.getDnsRecord(zone_id, record_id);
-        return formatResponse(record, format, 'dns_record');
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const record = await api.getDnsRecord(zoneId, record_id);
+        return formatResponse(record, format, 'dns_record', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -105,16 +150,17 @@ Common record types:
   - MX: Mail exchange server (requires priority)
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - type: Record type (A, AAAA, CNAME, TXT, MX, etc.)
   - name: Record name (e.g., "@" for root, "www", "subdomain")
   - content: Record content (IP address, domain, text, etc.)
   - ttl: Time to live in seconds (1 = automatic)
   - proxied: Whether to proxy through Cloudflare (default: false)
   - priority: Priority for MX/SRV records
-  - comment: Optional comment for the record`,
+  - comment: Optional comment for the record
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       type: z.enum(DNS_RECORD_TYPES).describe('Record type'),
       name: z.string().describe('Record name (@ for root, or subdomain)'),
       content: z.string().describe('Record content (IP, domain, text, etc.)'),
@@ -122,10 +168,17 @@ Args:
       proxied: z.boolean().default(false).describe('Proxy through Cloudflare'),
       priority: z.number().int().optional().describe('Priority for MX/SRV records'),
       comment: z.string().optional().describe('Optional comment'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, type, name, content, ttl, proxied, priority, comment }) => {
+    ADDITIVE_WRITE,
+    async (
+      { zone_id, type, name, content, ttl, proxied, priority, comment, dry_run },
+      { signal }
+    ) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const record = await client.createDnsRecord(zone_id, {
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const record = await api.createDnsRecord(zoneId, {
           type: type as DnsRecordType,
           name,
           content,
@@ -164,16 +217,17 @@ Args:
     `Update an existing DNS record.
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - record_id: The DNS record ID to update
   - type: New record type (optional)
   - name: New record name (optional)
   - content: New record content (optional)
   - ttl: New TTL in seconds (optional)
   - proxied: New proxy status (optional)
-  - comment: New comment (optional)`,
+  - comment: New comment (optional)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       record_id: z.string().describe('DNS record ID'),
       type: z.enum(DNS_RECORD_TYPES).optional().describe('Record type'),
       name: z.string().optional().describe('Record name'),
@@ -181,9 +235,16 @@ Args:
       ttl: z.number().int().min(1).optional().describe('TTL in seconds'),
       proxied: z.boolean().optional().describe('Proxy through Cloudflare'),
       comment: z.string().optional().describe('Comment'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, record_id, type, name, content, ttl, proxied, comment }) => {
+    DESTRUCTIVE_WRITE,
+    async (
+      { zone_id, record_id, type, name, content, ttl, proxied, comment, dry_run },
+      { signal }
+    ) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
+        const zoneId = await context.zones.resolve(api, zone_id);
         const input: {
           type?: DnsRecordType;
           name?: string;
@@ -199,7 +260,7 @@ Args:
         if (proxied !== undefined) input.proxied = proxied;
         if (comment !== undefined) input.comment = comment;
 
-        const record = await client.updateDnsRecord(zone_id, record_id, input);
+        const record = await api.updateDnsRecord(zoneId, record_id, input);
         return {
           content: [
             {
@@ -230,15 +291,20 @@ Args:
     `Delete a DNS record.
 
 Args:
-  - zone_id: The zone ID
-  - record_id: The DNS record ID to delete`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - record_id: The DNS record ID to delete
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       record_id: z.string().describe('DNS record ID to delete'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, record_id }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, record_id, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const result = await client.deleteDnsRecord(zone_id, record_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const result = await api.deleteDnsRecord(zoneId, record_id);
         return {
           content: [
             {
@@ -270,21 +336,17 @@ Args:
 Returns the zone file as a string that can be imported to other DNS providers.
 
 Args:
-  - zone_id: The zone ID`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
     },
-    async ({ zone_id }) => {
+    READ_ONLY,
+    async ({ zone_id }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const zonefile = await client.exportDnsRecords(zone_id);
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: zonefile,
-            },
-          ],
-        };
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const zonefile = await api.exportDnsRecords(zoneId);
+        return formatTextResponse(zonefile, context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -301,15 +363,20 @@ Args:
 The file should be in standard BIND zone file format.
 
 Args:
-  - zone_id: The zone ID
-  - file_content: The zone file content as a string`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - file_content: The zone file content as a string
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       file_content: z.string().describe('Zone file content in BIND format'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, file_content }) => {
+    ADDITIVE_WRITE,
+    async ({ zone_id, file_content, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const result = await client.importDnsRecords(zone_id, file_content);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const result = await api.importDnsRecords(zoneId, file_content);
         return {
           content: [
             {
@@ -8,6 +8,8 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
 import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import { ADDITIVE_WRITE, DESTRUCTIVE_WRITE, READ_ONLY } from './policy.js';
 
 const FIREWALL_ACTIONS = [
   'block',
@@ -22,7 +24,11 @@ const FIREWALL_ACTIONS = [
 /**
  * Register all firewall-related tools
  */
-export function registerFirewallTools(server: McpServer, client: CloudflareClient): void {
+export function registerFirewallTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Firewall Rules
   // ===========================================================================
@@ -31,19 +37,23 @@ export function registerFirewallTools(server: McpServer, client: CloudflareClien
     `List all firewall rules for a zone.
 
 Args:
-  - zone_id: The zone ID
-  - format: Response format`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const rules = await client.listFirewallRules(zone_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const rules = await api.listFirewallRules(zoneId);
         return formatResponse(
           { items: rules, count: rules.length, hasMore: false },
           format,
-          'firewall_rules'
+          'firewall_rules',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
@@ -59,18 +69,21 @@ Args:
     `Get a specific firewall rule.
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - rule_id: The rule ID
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       rule_id: z.string().describe('Rule ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, rule_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, rule_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const rule = await client.getFirewallRule(zone_id, rule_id);
-        return formatResponse(rule, format, 'firewall_rule');
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const rule = await api.getFirewallRule(zoneId, rule_id);
+        return formatResponse(rule, format, 'firewall_rule', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -101,21 +114,26 @@ Actions:
   - bypass: Bypass specific security features
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - expression: Filter expression
   - action: Action to take
   - description: Rule description (optional)
-  - paused: Whether the rule is paused (default: false)`,
+  - paused: Whether the rule is paused (default: false)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       expression: z.string().describe('Filter expression'),
       action: z.enum(FIREWALL_ACTIONS).describe('Action to take'),
       description: z.string().optional().describe('Rule description'),
       paused: z.boolean().default(false).describe('Whether rule is paused'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, expression, action, description, paused }) => {
+    ADDITIVE_WRITE,
+    async ({ zone_id, expression, action, description, paused, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const rules = await client.createFirewallRule(zone_id, {
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const rules = await api.createFirewallRule(zoneId, {
           action,
           filter: {
             expression,
@@ -154,20 +172,25 @@ Args:
     `Update an existing firewall rule.
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - rule_id: The rule ID
   - action: New action (optional)
   - description: New description (optional)
-  - paused: New paused status (optional)`,
+  - paused: New paused status (optional)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       rule_id: z.string().describe('Rule ID'),
       action: z.enum(FIREWALL_ACTIONS).optional().describe('New action'),
       description: z.string().optional().describe('New description'),
       paused: z.boolean().optional().describe('New paused status'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, rule_id, action, description, paused }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, rule_id, action, description, paused, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
+        const zoneId = await context.zones.resolve(api, zone_id);
         const input: {
           action?: typeof FIREWALL_ACTIONS[number];
           description?: string;
@@ -177,7 +200,7 @@ Args:
         if (description !== undefined) input.description = description;
         if (paused !== undefined) input.paused = paused;
 
-        const rule = await client.updateFirewallRule(zone_id, rule_id, input);
+        const rule = await api.updateFirewallRule(zoneId, rule_id, input);
         return {
           content: [
             {
@@ -208,15 +231,20 @@ Args:
     `Delete a firewall rule.
 
 Args:
-  - zone_id: The zone ID
-  - rule_id: The rule ID`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - rule_id: The rule ID
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       rule_id: z.string().describe('Rule ID'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, rule_id }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, rule_id, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        await client.deleteFirewallRule(zone_id, rule_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        await api.deleteFirewallRule(zoneId, rule_id);
         return {
           content: [
             {
@@ -248,19 +276,23 @@ Args:
 Filters are the expressions used in firewall rules.
 
 Args:
-  - zone_id: The zone ID
-  - format: Response format`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const filters = await client.listFilters(zone_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const filters = await api.listFilters(zoneId);
         return formatResponse(
           { items: filters, count: filters.length, hasMore: false },
           format,
-          'filters'
+          'filters',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
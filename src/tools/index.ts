@@ -1,14 +1,54 @@
 export { registerAccountTools } from './accounts.js';
 export { registerAnalyticsTools } from './analytics.js';
 export { registerCacheTools } from './cache.js';
+export type { ToolContext } from './context.js';
+export { registerContinuationTools } from './continuation.js';
 export { registerD1Tools } from './d1.js';
+export { type AccountSource, DefaultAccount } from './default-account.js';
 export { registerDnsTools } from './dns.js';
 export { registerFirewallTools } from './firewall.js';
 export { registerKvTools } from './kv.js';
 export { registerLoadBalancerTools } from './loadbalancers.js';
 export { registerPagesTools } from './pages.js';
+export {
+  CATEGORY_PERMISSIONS,
+  type CategoryAccess,
+  type CategoryPermissions,
+  categoryAccess,
+  introspectToken,
+  loadTokenPermissions,
+  permissionToolPolicy,
+  TOKEN_PERMISSIONS_TTL_SECONDS,
+  type TokenPermissions,
+  tokenInactiveReason,
+} from './permissions.js';
+export {
+  ADDITIVE_WRITE,
+  applyToolPolicy,
+  DESTRUCTIVE_WRITE,
+  findUnknownPolicyEntries,
+  isToolAllowed,
+  READ_ONLY,
+  TOOL_CATEGORIES,
+  type ToolCategory,
+  type ToolDescriptor,
+  type ToolPolicy,
+} from './policy.js';
 export { registerR2Tools } from './r2.js';
+export {
+  CATEGORY_TITLES,
+  type RegisteredTool,
+  recordTools,
+  renderToolsMarkdown,
+  replaceToolDocs,
+  TOOL_DOCS_END,
+  TOOL_DOCS_START,
+  ToolRegistry,
+} from './registry.js';
+export { registerSessionTools } from './session.js';
 export { registerSslTools } from './ssl.js';
+export { registerTokenTools } from './tokens.js';
 export { registerWafTools } from './waf.js';
 export { registerWorkersTools } from './workers.js';
+export { ZONE_NAME_TTL_SECONDS, ZoneResolver } from './zone-resolver.js';
 export { registerZoneTools } from './zones.js';
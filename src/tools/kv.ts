@@ -7,12 +7,27 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
-import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import type { ConfirmationImpact } from '../utils/confirmation.js';
+import {
+  formatErrorResponse,
+  formatResponse,
+  formatTextResponse,
+} from '../utils/formatters.js';
+import { collectAll, FETCH_ALL_DEFAULTS, fetchAllPageSize } from '../utils/pagination.js';
+import { confirmDestructiveAction } from './confirmation.js';
+import type { ToolContext } from './context.js';
+import { ADDITIVE_WRITE, DESTRUCTIVE_WRITE, READ_ONLY } from './policy.js';
 
 /**
  * Register all KV-related tools
  */
-export function registerKvTools(server: McpServer, client: CloudflareClient): void {
+export function registerKvTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
+  const { defaultPerPage, maxPerPage } = context.pagination;
+
   // ===========================================================================
   // List KV Namespaces
   // ===========================================================================
@@ -21,20 +36,44 @@ export function registerKvTools(server: McpServer, client: CloudflareClient): vo
     `List all KV namespaces in an account.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - page: Page number (default: 1)
-  - per_page: Results per page (default: 20)
-  - format: Response format`,
+  - per_page: Results per page (1-${maxPerPage}, default: ${defaultPerPage})
+  - all: Fetch every page from page on and return the combined list. When it stops early,
+    call again with page set to the returned nextPage and the same max_items (default: false)
+  - max_items: Maximum items to return when all is true (default: 1000)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       page: z.number().int().min(1).default(1),
-      per_page: z.number().int().min(1).max(100).default(20),
-      format: z.enum(['json', 'markdown']).default('json'),
+      per_page: z.number().int().min(1).max(maxPerPage).default(defaultPerPage),
+      all: z.boolean().default(false).describe('Fetch every page and combine the results'),
+      max_items: z
+        .number()
+        .int()
+        .min(1)
+        .max(10000)
+        .optional()
+        .describe('Maximum items to return when all is true (default: 1000)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, page, per_page, format }) => {
+    READ_ONLY,
+    async ({ account_id, page, per_page, all, max_items, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const result = await client.listKvNamespaces(account_id, { page, per_page });
-        return formatResponse(result, format, 'kv_namespaces');
+        const accountId = await context.account.resolve(api, account_id);
+        const result = all
+          ? await collectAll(
+              api.listAllKvNamespaces(accountId, {
+                page,
+                per_page: fetchAllPageSize(context.pagination, max_items),
+              }),
+              max_items,
+              context.output.characterLimit
+            )
+          : await api.listKvNamespaces(accountId, { page, per_page });
+        return formatResponse(result, format, 'kv_namespaces', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -49,18 +88,22 @@ Args:
     `Get details of a specific KV namespace.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - namespace_id: The namespace ID
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       namespace_id: z.string().describe('Namespace ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, namespace_id, format }) => {
+    READ_ONLY,
+    async ({ account_id, namespace_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const namespace = await client.getKvNamespace(account_id, namespace_id);
-        return formatResponse(namespace, format, 'kv_namespace');
+        const accountId = await context.account.resolve(api, account_id);
+        const namespace = await api.getKvNamespace(accountId, namespace_id);
+        return formatResponse(namespace, format, 'kv_namespace', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -75,15 +118,21 @@ Args:
     `Create a new KV namespace.
 
 Args:
-  - account_id: The account ID
-  - title: The namespace title (must be unique in the account)`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - title: The namespace title (must be unique in the account)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       title: z.string().describe('Namespace title'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, title }) => {
+    ADDITIVE_WRITE,
+    async ({ account_id, title, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const namespace = await client.createKvNamespace(account_id, title);
+        const accountId = await context.account.resolve(api, account_id);
+        const namespace = await api.createKvNamespace(accountId, title);
         return {
           content: [
             {
@@ -114,17 +163,23 @@ Args:
     `Rename a KV namespace.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - namespace_id: The namespace ID
-  - title: The new title`,
+  - title: The new title
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       namespace_id: z.string().describe('Namespace ID'),
       title: z.string().describe('New namespace title'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, namespace_id, title }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ account_id, namespace_id, title, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        await client.renameKvNamespace(account_id, namespace_id, title);
+        const accountId = await context.account.resolve(api, account_id);
+        await api.renameKvNamespace(accountId, namespace_id, title);
         return {
           content: [
             {
@@ -155,16 +210,43 @@ Args:
 
 WARNING: This will delete all keys in the namespace.
 
+Two-phase: a call without confirmation_token changes nothing and returns what
+would be deleted plus a token valid for 5 minutes. Call again with the same
+arguments and the token to proceed. Clients that support elicitation ask the
+user to approve instead.
+
 Args:
-  - account_id: The account ID
-  - namespace_id: The namespace ID`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - namespace_id: The namespace ID
+  - confirmation_token: Token returned by the first call; required to delete
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       namespace_id: z.string().describe('Namespace ID'),
+      confirmation_token: z.string().optional().describe('Token returned by the first call'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, namespace_id }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ account_id, namespace_id, confirmation_token, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
-        await client.deleteKvNamespace(account_id, namespace_id);
+        const accountId = await context.account.resolve(api, account_id);
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_delete_kv_namespace',
+              target: { account_id: accountId, namespace_id },
+              describe: () => describeKvNamespaceDeletion(api, accountId, namespace_id),
+              requireToken: true,
+              token: confirmation_token,
+            },
+            extra
+          );
+        }
+        await api.deleteKvNamespace(accountId, namespace_id);
         return {
           content: [
             {
@@ -196,23 +278,54 @@ Args:
 Returns key names with optional metadata. Use cursor for pagination.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - namespace_id: The namespace ID
   - prefix: Filter keys by prefix (optional)
   - cursor: Pagination cursor from previous response (optional)
   - limit: Max keys to return (1-1000, default: 1000)
-  - format: Response format`,
+  - all: Follow cursors from cursor on and return every matching key. When it stops early,
+    call again with the returned cursor and the same max_items (default: false)
+  - max_items: Maximum keys to return when all is true (default: 1000)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       namespace_id: z.string().describe('Namespace ID'),
       prefix: z.string().optional().describe('Filter by key prefix'),
       cursor: z.string().optional().describe('Pagination cursor'),
       limit: z.number().int().min(1).max(1000).default(1000),
-      format: z.enum(['json', 'markdown']).default('json'),
+      all: z.boolean().default(false).describe('Follow cursors and combine the results'),
+      max_items: z
+        .number()
+        .int()
+        .min(1)
+        .max(10000)
+        .optional()
+        .describe('Maximum keys to return when all is true (default: 1000)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, namespace_id, prefix, cursor, limit, format }) => {
+    READ_ONLY,
+    async (
+      { account_id, namespace_id, prefix, cursor, limit, all, max_items, format },
+      { signal }
+    ) => {
+      const api = client.withSignal(signal);
       try {
-        const result = await client.listKvKeys(account_id, namespace_id, { prefix, cursor, limit });
+        const accountId = await context.account.resolve(api, account_id);
+        if (all) {
+          const keys = await collectAll(
+            api.listAllKvKeys(accountId, namespace_id, {
+              prefix,
+              cursor,
+              limit: Math.min(1000, max_items ?? FETCH_ALL_DEFAULTS.maxItems),
+            }),
+            max_items,
+            context.output.characterLimit
+          );
+          return formatResponse(keys, format, 'kv_keys', context.output);
+        }
+
+        const result = await api.listKvKeys(accountId, namespace_id, { prefix, cursor, limit });
         return formatResponse(
           {
             items: result.keys,
@@ -221,7 +334,8 @@ Args:
             cursor: result.cursor,
           },
           format,
-          'kv_keys'
+          'kv_keys',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
@@ -239,25 +353,22 @@ Args:
 Returns the raw value as a string.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - namespace_id: The namespace ID
   - key: The key name`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       namespace_id: z.string().describe('Namespace ID'),
       key: z.string().describe('Key name'),
     },
-    async ({ account_id, namespace_id, key }) => {
+    READ_ONLY,
+    async ({ account_id, namespace_id, key }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const value = await client.getKvValue(account_id, namespace_id, key);
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: value,
-            },
-          ],
-        };
+        const accountId = await context.account.resolve(api, account_id);
+        const value = await api.getKvValue(accountId, namespace_id, key);
+        return formatTextResponse(value, context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -272,23 +383,32 @@ Args:
     `Set a key-value pair in a KV namespace.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - namespace_id: The namespace ID
   - key: The key name
   - value: The value to store (as string)
   - expiration: Unix timestamp when the key should expire (optional)
-  - expiration_ttl: Seconds until the key expires (optional)`,
+  - expiration_ttl: Seconds until the key expires (optional)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       namespace_id: z.string().describe('Namespace ID'),
       key: z.string().describe('Key name'),
       value: z.string().describe('Value to store'),
       expiration: z.number().int().optional().describe('Unix timestamp for expiration'),
       expiration_ttl: z.number().int().optional().describe('TTL in seconds'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, namespace_id, key, value, expiration, expiration_ttl }) => {
+    DESTRUCTIVE_WRITE,
+    async (
+      { account_id, namespace_id, key, value, expiration, expiration_ttl, dry_run },
+      { signal }
+    ) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        await client.putKvValue(account_id, namespace_id, key, value, {
+        const accountId = await context.account.resolve(api, account_id);
+        await api.putKvValue(accountId, namespace_id, key, value, {
           expiration,
           expiration_ttl,
         });
@@ -321,17 +441,38 @@ Args:
     `Delete a key from a KV namespace.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - namespace_id: The namespace ID
-  - key: The key to delete`,
+  - key: The key to delete
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       namespace_id: z.string().describe('Namespace ID'),
       key: z.string().describe('Key to delete'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, namespace_id, key }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ account_id, namespace_id, key, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
-        await client.deleteKvValue(account_id, namespace_id, key);
+        const accountId = await context.account.resolve(api, account_id);
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_delete_kv_value',
+              target: { account_id: accountId, namespace_id, key },
+              describe: async () => ({
+                summary: `Deletes key "${key}" from KV namespace ${namespace_id}`,
+                details: { namespace_id, key },
+              }),
+            },
+            extra
+          );
+        }
+        await api.deleteKvValue(accountId, namespace_id, key);
         return {
           content: [
             {
@@ -353,3 +494,38 @@ Args:
     }
   );
 }
+
+/**
+ * Keys counted before a KV deletion is summarized as "more than N keys"
+ */
+const MAX_COUNTED_KV_KEYS = 10000;
+
+/**
+ * What deleting a KV namespace destroys
+ */
+async function describeKvNamespaceDeletion(
+  api: CloudflareClient,
+  accountId: string,
+  namespaceId: string
+): Promise<ConfirmationImpact> {
+  const namespace = await api.getKvNamespace(accountId, namespaceId);
+
+  let keys = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await api.listKvKeys(accountId, namespaceId, { cursor, limit: 1000 });
+    keys += page.keys.length;
+    cursor = page.cursor;
+  } while (cursor && keys < MAX_COUNTED_KV_KEYS);
+
+  const keyCount = cursor ? `more than ${keys}` : String(keys);
+  return {
+    summary: `Deletes KV namespace ${namespace.title} and its ${keyCount} keys`,
+    details: {
+      namespace_id: namespace.id,
+      title: namespace.title,
+      keys,
+      keys_counted_all: !cursor,
+    },
+  };
+}
@@ -8,11 +8,17 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
 import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import { READ_ONLY } from './policy.js';
 
 /**
  * Register all load balancer-related tools
  */
-export function registerLoadBalancerTools(server: McpServer, client: CloudflareClient): void {
+export function registerLoadBalancerTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Load Balancers
   // ===========================================================================
@@ -21,19 +27,23 @@ export function registerLoadBalancerTools(server: McpServer, client: CloudflareC
     `List all load balancers for a zone.
 
 Args:
-  - zone_id: The zone ID
-  - format: Response format`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const lbs = await client.listLoadBalancers(zone_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const lbs = await api.listLoadBalancers(zoneId);
         return formatResponse(
           { items: lbs, count: lbs.length, hasMore: false },
           format,
-          'load_balancers'
+          'load_balancers',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
@@ -49,18 +59,21 @@ Args:
     `Get details of a specific load balancer.
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - lb_id: The load balancer ID
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       lb_id: z.string().describe('Load balancer ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, lb_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, lb_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const lb = await client.getLoadBalancer(zone_id, lb_id);
-        return formatResponse(lb, format, 'load_balancer');
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const lb = await api.getLoadBalancer(zoneId, lb_id);
+        return formatResponse(lb, format, 'load_balancer', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -77,19 +90,24 @@ Args:
 Pools are collections of origins (servers) that the load balancer distributes traffic to.
 
 Args:
-  - account_id: The account ID
-  - format: Response format`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, format }) => {
+    READ_ONLY,
+    async ({ account_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const pools = await client.listLoadBalancerPools(account_id);
+        const accountId = await context.account.resolve(api, account_id);
+        const pools = await api.listLoadBalancerPools(accountId);
         return formatResponse(
           { items: pools, count: pools.length, hasMore: false },
           format,
-          'load_balancer_pools'
+          'load_balancer_pools',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
@@ -105,18 +123,22 @@ Args:
     `Get details of a specific load balancer pool.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - pool_id: The pool ID
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       pool_id: z.string().describe('Pool ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, pool_id, format }) => {
+    READ_ONLY,
+    async ({ account_id, pool_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const pool = await client.getLoadBalancerPool(account_id, pool_id);
-        return formatResponse(pool, format, 'load_balancer_pool');
+        const accountId = await context.account.resolve(api, account_id);
+        const pool = await api.getLoadBalancerPool(accountId, pool_id);
+        return formatResponse(pool, format, 'load_balancer_pool', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -133,19 +155,24 @@ Args:
 Monitors check the health of origins in pools and remove unhealthy origins from rotation.
 
 Args:
-  - account_id: The account ID
-  - format: Response format`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, format }) => {
+    READ_ONLY,
+    async ({ account_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const monitors = await client.listLoadBalancerMonitors(account_id);
+        const accountId = await context.account.resolve(api, account_id);
+        const monitors = await api.listLoadBalancerMonitors(accountId);
         return formatResponse(
           { items: monitors, count: monitors.length, hasMore: false },
           format,
-          'load_balancer_monitors'
+          'load_balancer_monitors',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
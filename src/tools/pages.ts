@@ -7,12 +7,20 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
+import type { ConfirmationImpact } from '../utils/confirmation.js';
 import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import { confirmDestructiveAction } from './confirmation.js';
+import type { ToolContext } from './context.js';
+import { ADDITIVE_WRITE, DESTRUCTIVE_WRITE, READ_ONLY } from './policy.js';
 
 /**
  * Register all Pages-related tools
  */
-export function registerPagesTools(server: McpServer, client: CloudflareClient): void {
+export function registerPagesTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Pages Projects
   // ===========================================================================
@@ -21,19 +29,24 @@ export function registerPagesTools(server: McpServer, client: CloudflareClient):
     `List all Pages projects in an account.
 
 Args:
-  - account_id: The account ID
-  - format: Response format`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, format }) => {
+    READ_ONLY,
+    async ({ account_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const projects = await client.listPagesProjects(account_id);
+        const accountId = await context.account.resolve(api, account_id);
+        const projects = await api.listPagesProjects(accountId);
         return formatResponse(
           { items: projects, count: projects.length, hasMore: false },
           format,
-          'pages_projects'
+          'pages_projects',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
@@ -49,18 +62,22 @@ Args:
     `Get details of a specific Pages project.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - project_name: The project name
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       project_name: z.string().describe('Project name'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, project_name, format }) => {
+    READ_ONLY,
+    async ({ account_id, project_name, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const project = await client.getPagesProject(account_id, project_name);
-        return formatResponse(project, format, 'pages_project');
+        const accountId = await context.account.resolve(api, account_id);
+        const project = await api.getPagesProject(accountId, project_name);
+        return formatResponse(project, format, 'pages_project', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -78,17 +95,23 @@ Note: This creates an empty project. To deploy, use the Cloudflare dashboard
 or wrangler CLI to connect a Git repository or upload files.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - name: The project name (will be used in the subdomain)
-  - production_branch: The production branch name (default: main)`,
+  - production_branch: The production branch name (default: main)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       name: z.string().describe('Project name'),
       production_branch: z.string().default('main').describe('Production branch name'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, name, production_branch }) => {
+    ADDITIVE_WRITE,
+    async ({ account_id, name, production_branch, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const project = await client.createPagesProject(account_id, name, production_branch);
+        const accountId = await context.account.resolve(api, account_id);
+        const project = await api.createPagesProject(accountId, name, production_branch);
         return {
           content: [
             {
@@ -121,16 +144,43 @@ Args:
 
 WARNING: This will delete the project and all its deployments.
 
+Two-phase: a call without confirmation_token changes nothing and returns what
+would be deleted plus a token valid for 5 minutes. Call again with the same
+arguments and the token to proceed. Clients that support elicitation ask the
+user to approve instead.
+
 Args:
-  - account_id: The account ID
-  - project_name: The project name`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - project_name: The project name
+  - confirmation_token: Token returned by the first call; required to delete
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       project_name: z.string().describe('Project name'),
+      confirmation_token: z.string().optional().describe('Token returned by the first call'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, project_name }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ account_id, project_name, confirmation_token, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
-        await client.deletePagesProject(account_id, project_name);
+        const accountId = await context.account.resolve(api, account_id);
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_delete_pages_project',
+              target: { account_id: accountId, project_name },
+              describe: () => describePagesProjectDeletion(api, accountId, project_name),
+              requireToken: true,
+              token: confirmation_token,
+            },
+            extra
+          );
+        }
+        await api.deletePagesProject(accountId, project_name);
         return {
           content: [
             {
@@ -160,21 +210,26 @@ Args:
     `List all deployments for a Pages project.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - project_name: The project name
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       project_name: z.string().describe('Project name'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, project_name, format }) => {
+    READ_ONLY,
+    async ({ account_id, project_name, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const deployments = await client.listPagesDeployments(account_id, project_name);
+        const accountId = await context.account.resolve(api, account_id);
+        const deployments = await api.listPagesDeployments(accountId, project_name);
         return formatResponse(
           { items: deployments, count: deployments.length, hasMore: false },
           format,
-          'deployments'
+          'deployments',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
@@ -190,20 +245,24 @@ Args:
     `Get details of a specific deployment.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - project_name: The project name
   - deployment_id: The deployment ID
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       project_name: z.string().describe('Project name'),
       deployment_id: z.string().describe('Deployment ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, project_name, deployment_id, format }) => {
+    READ_ONLY,
+    async ({ account_id, project_name, deployment_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const deployment = await client.getPagesDeployment(account_id, project_name, deployment_id);
-        return formatResponse(deployment, format, 'deployment');
+        const accountId = await context.account.resolve(api, account_id);
+        const deployment = await api.getPagesDeployment(accountId, project_name, deployment_id);
+        return formatResponse(deployment, format, 'deployment', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -220,17 +279,36 @@ Args:
 Note: You cannot delete the current production deployment.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - project_name: The project name
-  - deployment_id: The deployment ID`,
+  - deployment_id: The deployment ID
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       project_name: z.string().describe('Project name'),
       deployment_id: z.string().describe('Deployment ID'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, project_name, deployment_id }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ account_id, project_name, deployment_id, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
-        await client.deletePagesDeployment(account_id, project_name, deployment_id);
+        const accountId = await context.account.resolve(api, account_id);
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_delete_pages_deployment',
+              target: { account_id: accountId, project_name, deployment_id },
+              describe: () =>
+                describePagesDeploymentDeletion(api, accountId, project_name, deployment_id),
+            },
+            extra
+          );
+        }
+        await api.deletePagesDeployment(accountId, project_name, deployment_id);
         return {
           content: [
             {
@@ -262,18 +340,24 @@ Args:
 This will make the specified deployment the new production deployment.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - project_name: The project name
-  - deployment_id: The deployment ID to rollback to`,
+  - deployment_id: The deployment ID to rollback to
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       project_name: z.string().describe('Project name'),
       deployment_id: z.string().describe('Deployment ID to rollback to'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, project_name, deployment_id }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ account_id, project_name, deployment_id, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const deployment = await client.rollbackPagesDeployment(
-          account_id,
+        const accountId = await context.account.resolve(api, account_id);
+        const deployment = await api.rollbackPagesDeployment(
+          accountId,
           project_name,
           deployment_id
         );
@@ -299,3 +383,52 @@ Args:
     }
   );
 }
+
+/**
+ * What deleting a Pages project destroys
+ */
+async function describePagesProjectDeletion(
+  api: CloudflareClient,
+  accountId: string,
+  projectName: string
+): Promise<ConfirmationImpact> {
+  const [project, deployments] = await Promise.all([
+    api.getPagesProject(accountId, projectName),
+    api.listPagesDeployments(accountId, projectName),
+  ]);
+  const domains = project.domains ?? [];
+
+  return {
+    summary:
+      `Deletes Pages project ${project.name} (${project.subdomain}) with its ` +
+      `${deployments.length} deployments and ${domains.length} domains`,
+    details: {
+      project_name: project.name,
+      subdomain: project.subdomain,
+      domains,
+      deployments: deployments.length,
+    },
+  };
+}
+
+/**
+ * What deleting a Pages deployment destroys
+ */
+async function describePagesDeploymentDeletion(
+  api: CloudflareClient,
+  accountId: string,
+  projectName: string,
+  deploymentId: string
+): Promise<ConfirmationImpact> {
+  const deployment = await api.getPagesDeployment(accountId, projectName, deploymentId);
+
+  return {
+    summary: `Deletes ${deployment.environment} deployment ${deployment.url} of ${projectName}`,
+    details: {
+      deployment_id: deployment.id,
+      environment: deployment.environment,
+      url: deployment.url,
+      branch: deployment.deployment_trigger?.metadata?.branch,
+    },
+  };
+}
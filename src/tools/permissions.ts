@@ -0,0 +1,185 @@
+/**
+ * Token Permissions
+ *
+ * Maps tool categories to the Cloudflare API token permission groups they
+ * need, and reads the groups a tenant's token actually has, so that tools the
+ * token can't use are never registered. Lookups are cached per credential.
+ *
+ * Matching is by category and ignores resource scoping: a token limited to one
+ * zone still gets every zone tool, and calls on other zones fail with 403.
+ */
+
+import type { CloudflareClient } from '../client.js';
+import type { TokenVerification } from '../types/cloudflare.js';
+import { AuthenticationError, PermissionError } from '../utils/errors.js';
+import { hashScope, type KeyValueStore } from '../utils/store.js';
+import type { ToolCategory, ToolPolicy } from './policy.js';
+
+/**
+ * Permission groups that give read or write access to a category. Any one
+ * group is enough, and a write group also grants read access.
+ */
+export interface CategoryPermissions {
+  read: string[];
+  write: string[];
+}
+
+/**
+ * Permission groups per category. Categories that aren't listed need no permission.
+ */
+export const CATEGORY_PERMISSIONS: Partial<Record<ToolCategory, CategoryPermissions>> = {
+  zones: {
+    read: ['Zone Read', 'Zone Settings Read'],
+    write: ['Zone Write', 'Zone Settings Write'],
+  },
+  dns: { read: ['DNS Read'], write: ['DNS Write'] },
+  workers: {
+    read: ['Workers Scripts Read', 'Workers Routes Read'],
+    write: ['Workers Scripts Write', 'Workers Routes Write'],
+  },
+  kv: { read: ['Workers KV Storage Read'], write: ['Workers KV Storage Write'] },
+  d1: { read: ['D1 Read'], write: ['D1 Write'] },
+  r2: { read: ['Workers R2 Storage Read'], write: ['Workers R2 Storage Write'] },
+  pages: { read: ['Pages Read'], write: ['Pages Write'] },
+  cache: { read: [], write: ['Cache Purge'] },
+  firewall: { read: ['Firewall Services Read'], write: ['Firewall Services Write'] },
+  waf: { read: ['Zone WAF Read'], write: ['Zone WAF Write'] },
+  load_balancers: {
+    read: ['Load Balancers Read', 'Load Balancing: Monitors and Pools Read'],
+    write: ['Load Balancers Write'],
+  },
+  ssl: { read: ['SSL and Certificates Read'], write: ['SSL and Certificates Write'] },
+  accounts: { read: ['Account Settings Read', 'User Details Read'], write: [] },
+  analytics: { read: ['Analytics Read'], write: [] },
+};
+
+/**
+ * What the tenant's API token may do
+ */
+export interface TokenPermissions {
+  tokenId: string;
+  status: TokenVerification['status'];
+  expiresOn?: string;
+  notBefore?: string;
+
+  /**
+   * Permission group names granted by the token's allow policies. Undefined
+   * when the token can't read its own policies (it lacks "API Tokens Read").
+   */
+  groups?: string[];
+}
+
+/**
+ * A category's access under a token
+ */
+export type CategoryAccess = 'read_write' | 'read' | 'write' | 'none';
+
+/**
+ * How long a token lookup is reused, in seconds
+ */
+export const TOKEN_PERMISSIONS_TTL_SECONDS = 600;
+
+/**
+ * Verify the token and read its permission groups, reusing a cached lookup
+ * for the same credential when there is one
+ */
+export async function loadTokenPermissions(
+  client: CloudflareClient,
+  store: KeyValueStore,
+  scope: string
+): Promise<TokenPermissions> {
+  const key = `permissions:${await hashScope(scope)}`;
+  const cached = await store.get(key);
+  if (cached) {
+    return JSON.parse(cached) as TokenPermissions;
+  }
+
+  const permissions = await introspectToken(client);
+  try {
+    await store.put(key, JSON.stringify(permissions), {
+      expirationTtl: TOKEN_PERMISSIONS_TTL_SECONDS,
+    });
+  } catch {
+    // Caching only saves two API calls on the next request
+  }
+  return permissions;
+}
+
+/**
+ * Verify the token and read its permission groups from the API
+ */
+export async function introspectToken(client: CloudflareClient): Promise<TokenPermissions> {
+  const verification = await client.verifyToken();
+  const permissions: TokenPermissions = {
+    tokenId: verification.id,
+    status: verification.status,
+    expiresOn: verification.expires_on,
+    notBefore: verification.not_before,
+  };
+
+  try {
+    const token = await client.getApiToken(verification.id);
+    const groups = token.policies
+      .filter((policy) => policy.effect === 'allow')
+      .flatMap((policy) => policy.permission_groups.map((group) => group.name));
+    permissions.groups = [...new Set(groups)].sort();
+  } catch (error) {
+    if (!(error instanceof PermissionError || error instanceof AuthenticationError)) {
+      throw error;
+    }
+  }
+  return permissions;
+}
+
+/**
+ * Access to a category given a token's permission groups
+ */
+export function categoryAccess(category: ToolCategory, groups: string[]): CategoryAccess {
+  const required = CATEGORY_PERMISSIONS[category];
+  if (!required) return 'read_write';
+
+  const has = (group: string) => groups.includes(group);
+  if (required.write.some(has)) {
+    return required.read.length > 0 ? 'read_write' : 'write';
+  }
+  return required.read.some(has) ? 'read' : 'none';
+}
+
+/**
+ * Why a token can't be used right now, or undefined when it can. Lookups are
+ * cached, so the dates are checked against now rather than trusting status.
+ */
+export function tokenInactiveReason(
+  permissions: TokenPermissions,
+  now = Date.now()
+): string | undefined {
+  if (permissions.status !== 'active') {
+    return `The token is ${permissions.status}`;
+  }
+  if (permissions.expiresOn && Date.parse(permissions.expiresOn) <= now) {
+    return `The token expired on ${permissions.expiresOn}`;
+  }
+  if (permissions.notBefore && Date.parse(permissions.notBefore) > now) {
+    return `The token is not valid before ${permissions.notBefore}`;
+  }
+  return undefined;
+}
+
+/**
+ * Tool policy hiding the categories a token can't use, and the write tools of
+ * categories it can only read. A token that isn't active can't use any of
+ * them. Undefined when the token's groups are unknown.
+ */
+export function permissionToolPolicy(permissions: TokenPermissions): ToolPolicy | undefined {
+  const categories = Object.keys(CATEGORY_PERMISSIONS) as ToolCategory[];
+  if (tokenInactiveReason(permissions)) {
+    return { deny: categories };
+  }
+  const groups = permissions.groups;
+  if (!groups) return undefined;
+
+  return {
+    deny: categories.filter((category) => categoryAccess(category, groups) === 'none'),
+    readOnlyFor: categories.filter((category) => categoryAccess(category, groups) === 'read'),
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Tool Policy
+ *
+ * Annotations that mark each tool as read-only or mutating, and the per-tenant
+ * policy that decides which tools get registered at all. Tools a tenant may
+ * not use are never registered, so they don't appear in tools/list.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+// =============================================================================
+// Annotations
+// =============================================================================
+
+/** Lists, gets, exports and analytics: no side effects */
+export const READ_ONLY: ToolAnnotations = { readOnlyHint: true };
+
+/** Creates and other writes that only add to the account */
+export const ADDITIVE_WRITE: ToolAnnotations = { readOnlyHint: false, destructiveHint: false };
+
+/** Updates, deletes and purges: may overwrite or remove existing state */
+export const DESTRUCTIVE_WRITE: ToolAnnotations = { readOnlyHint: false, destructiveHint: true };
+
+// =============================================================================
+// Categories
+// =============================================================================
+
+/**
+ * Tool categories, one per register*Tools function (plus the connection test
+ * and continuation tools). Policies can name a category instead of every tool in it.
+ */
+export const TOOL_CATEGORIES = [
+  'zones',
+  'dns',
+  'workers',
+  'kv',
+  'd1',
+  'r2',
+  'pages',
+  'cache',
+  'firewall',
+  'waf',
+  'load_balancers',
+  'ssl',
+  'accounts',
+  'analytics',
+  'connection',
+  'session',
+  'continuation',
+] as const;
+
+export type ToolCategory = (typeof TOOL_CATEGORIES)[number];
+
+/**
+ * Categories available under any allowlist: truncated output is unusable
+ * without cloudflare_get_more. They can still be denied explicitly.
+ */
+const IMPLICITLY_ALLOWED_CATEGORIES: readonly ToolCategory[] = ['continuation'];
+
+// =============================================================================
+// Policy
+// =============================================================================
+
+/**
+ * Which tools a tenant may use. allow and deny entries are tool names
+ * (e.g. "cloudflare_list_zones") or category names (e.g. "dns").
+ */
+export interface ToolPolicy {
+  /** Register only read-only tools */
+  readOnly?: boolean;
+
+  /** Register only the read-only tools among those matching an entry */
+  readOnlyFor?: string[];
+
+  /** When non-empty, register only tools matching an entry */
+  allow?: string[];
+
+  /** Never register tools matching an entry; takes precedence over allow */
+  deny?: string[];
+}
+
+/**
+ * A tool being registered, as seen by the policy
+ */
+export interface ToolDescriptor {
+  name: string;
+  category: ToolCategory;
+  annotations?: ToolAnnotations;
+}
+
+/**
+ * Whether a tool may be registered under every one of the policies (e.g. the
+ * operator's policy for the credential and the one requested in headers).
+ * Tools without annotations are treated as mutating.
+ */
+export function isToolAllowed(policies: ToolPolicy[], tool: ToolDescriptor): boolean {
+  const matches = (entries: string[]) =>
+    entries.includes(tool.name) || entries.includes(tool.category);
+
+  return policies.every((policy) => {
+    if (policy.deny && matches(policy.deny)) {
+      return false;
+    }
+    const readOnly = policy.readOnly || (policy.readOnlyFor && matches(policy.readOnlyFor));
+    if (readOnly && tool.annotations?.readOnlyHint !== true) {
+      return false;
+    }
+    if (policy.allow?.length && !matches(policy.allow)) {
+      return IMPLICITLY_ALLOWED_CATEGORIES.includes(tool.category);
+    }
+    return true;
+  });
+}
+
+/**
+ * Entries that are neither a category nor one of toolNames, usually typos.
+ * toolNames is every tool the server can register (see getToolCatalogue).
+ */
+export function findUnknownPolicyEntries(
+  policy: ToolPolicy,
+  toolNames: readonly string[]
+): string[] {
+  const categories: readonly string[] = TOOL_CATEGORIES;
+  const entries = [...(policy.allow ?? []), ...(policy.deny ?? []), ...(policy.readOnlyFor ?? [])];
+  return entries.filter((entry) => !categories.includes(entry) && !toolNames.includes(entry));
+}
+
+/**
+ * Wrap a server so that tool registrations the policies reject are skipped.
+ * Register functions keep calling server.tool() as usual and don't need to
+ * know about policies; they only have to annotate their tools.
+ */
+export function applyToolPolicy(
+  server: McpServer,
+  policies: ToolPolicy[],
+  category: ToolCategory
+): McpServer {
+  const register = server.tool.bind(server) as (...args: unknown[]) => unknown;
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== 'tool') {
+        return Reflect.get(target, property, receiver);
+      }
+      return (...args: unknown[]) => {
+        // Every tool here uses the (name, description, schema, annotations, callback) form
+        const name = args[0] as string;
+        const annotations = args.length === 5 ? (args[3] as ToolAnnotations) : undefined;
+        return isToolAllowed(policies, { name, category, annotations })
+          ? register(...args)
+          : undefined;
+      };
+    },
+  });
+}
@@ -7,12 +7,20 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
+import type { ConfirmationImpact } from '../utils/confirmation.js';
 import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import { confirmDestructiveAction } from './confirmation.js';
+import type { ToolContext } from './context.js';
+import { ADDITIVE_WRITE, DESTRUCTIVE_WRITE, READ_ONLY } from './policy.js';
 
 /**
  * Register all R2-related tools
  */
-export function registerR2Tools(server: McpServer, client: CloudflareClient): void {
+export function registerR2Tools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List R2 Buckets
   // ===========================================================================
@@ -21,19 +29,24 @@ export function registerR2Tools(server: McpServer, client: CloudflareClient): vo
     `List all R2 buckets in an account.
 
 Args:
-  - account_id: The account ID
-  - format: Response format`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, format }) => {
+    READ_ONLY,
+    async ({ account_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const buckets = await client.listR2Buckets(account_id);
+        const accountId = await context.account.resolve(api, account_id);
+        const buckets = await api.listR2Buckets(accountId);
         return formatResponse(
           { items: buckets, count: buckets.length, hasMore: false },
           format,
-          'r2_buckets'
+          'r2_buckets',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
@@ -49,18 +62,22 @@ Args:
     `Get details of a specific R2 bucket.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - bucket_name: The bucket name
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       bucket_name: z.string().describe('Bucket name'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, bucket_name, format }) => {
+    READ_ONLY,
+    async ({ account_id, bucket_name, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const bucket = await client.getR2Bucket(account_id, bucket_name);
-        return formatResponse(bucket, format, 'r2_bucket');
+        const accountId = await context.account.resolve(api, account_id);
+        const bucket = await api.getR2Bucket(accountId, bucket_name);
+        return formatResponse(bucket, format, 'r2_bucket', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -88,17 +105,23 @@ Location hints:
   - apac: Asia Pacific
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - name: The bucket name
-  - location_hint: Preferred location for the bucket (optional)`,
+  - location_hint: Preferred location for the bucket (optional)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       name: z.string().describe('Bucket name'),
       location_hint: z.string().optional().describe('Location hint (wnam, enam, weur, eeur, apac)'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, name, location_hint }) => {
+    ADDITIVE_WRITE,
+    async ({ account_id, name, location_hint, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const bucket = await client.createR2Bucket(account_id, name, location_hint);
+        const accountId = await context.account.resolve(api, account_id);
+        const bucket = await api.createR2Bucket(accountId, name, location_hint);
         return {
           content: [
             {
@@ -130,16 +153,43 @@ Args:
 
 WARNING: The bucket must be empty before it can be deleted.
 
+Two-phase: a call without confirmation_token changes nothing and returns what
+would be deleted plus a token valid for 5 minutes. Call again with the same
+arguments and the token to proceed. Clients that support elicitation ask the
+user to approve instead.
+
 Args:
-  - account_id: The account ID
-  - bucket_name: The bucket name`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - bucket_name: The bucket name
+  - confirmation_token: Token returned by the first call; required to delete
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       bucket_name: z.string().describe('Bucket name'),
+      confirmation_token: z.string().optional().describe('Token returned by the first call'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, bucket_name }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ account_id, bucket_name, confirmation_token, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
-        await client.deleteR2Bucket(account_id, bucket_name);
+        const accountId = await context.account.resolve(api, account_id);
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_delete_r2_bucket',
+              target: { account_id: accountId, bucket_name },
+              describe: () => describeR2BucketDeletion(api, accountId, bucket_name),
+              requireToken: true,
+              token: confirmation_token,
+            },
+            extra
+          );
+        }
+        await api.deleteR2Bucket(accountId, bucket_name);
         return {
           content: [
             {
@@ -161,3 +211,25 @@ Args:
     }
   );
 }
+
+/**
+ * What deleting an R2 bucket destroys. The API has no object listing, but it
+ * refuses to delete a bucket that still holds objects.
+ */
+async function describeR2BucketDeletion(
+  api: CloudflareClient,
+  accountId: string,
+  bucketName: string
+): Promise<ConfirmationImpact> {
+  const bucket = await api.getR2Bucket(accountId, bucketName);
+
+  return {
+    summary: `Deletes R2 bucket ${bucket.name}${bucket.location ? ` in ${bucket.location}` : ''}`,
+    details: {
+      bucket_name: bucket.name,
+      location: bucket.location,
+      created: bucket.creation_date,
+      note: 'Deletion fails while the bucket still contains objects',
+    },
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Tool Registry
+ *
+ * Records every tool a server is asked to register: its name, category,
+ * description, input schema and whether it has side effects. The root
+ * endpoint's catalogue, GET /tools and the tool list in the README are all
+ * generated from it (see getToolCatalogue), so they can't drift from the
+ * register*Tools functions.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { type ZodRawShape, z } from 'zod';
+import {
+  ADDITIVE_WRITE,
+  DESTRUCTIVE_WRITE,
+  READ_ONLY,
+  TOOL_CATEGORIES,
+  type ToolCategory,
+  type ToolDescriptor,
+} from './policy.js';
+
+export interface RegisteredTool {
+  name: string;
+  category: ToolCategory;
+
+  /** Changes state in the Cloudflare account (not annotated read-only) */
+  mutating: boolean;
+
+  /** May overwrite or remove existing state */
+  destructive: boolean;
+
+  description: string;
+
+  /** JSON Schema of the tool's arguments */
+  inputSchema: Record<string, unknown>;
+}
+
+/**
+ * Headings for the categories in generated documentation
+ */
+export const CATEGORY_TITLES: Record<ToolCategory, string> = {
+  zones: 'Zones',
+  dns: 'DNS',
+  workers: 'Workers',
+  kv: 'KV',
+  d1: 'D1',
+  r2: 'R2',
+  pages: 'Pages',
+  cache: 'Cache',
+  firewall: 'Firewall',
+  waf: 'WAF',
+  load_balancers: 'Load Balancers',
+  ssl: 'SSL',
+  accounts: 'Accounts',
+  analytics: 'Analytics',
+  connection: 'Connection',
+  session: 'Session',
+  continuation: 'Continuation',
+};
+
+export class ToolRegistry {
+  private tools: RegisteredTool[] = [];
+
+  record(tool: RegisteredTool): void {
+    this.tools.push(tool);
+  }
+
+  /**
+   * Every recorded tool, in category order, then registration order
+   */
+  list(): RegisteredTool[] {
+    return [...this.tools].sort(
+      (a, b) => TOOL_CATEGORIES.indexOf(a.category) - TOOL_CATEGORIES.indexOf(b.category)
+    );
+  }
+
+  /**
+   * A recorded tool as the policies see it, so it can be checked without
+   * registering it. Undefined when no tool has that name.
+   */
+  descriptor(name: string): ToolDescriptor | undefined {
+    const tool = this.tools.find((entry) => entry.name === name);
+    if (!tool) return undefined;
+
+    const annotations = !tool.mutating
+      ? READ_ONLY
+      : tool.destructive
+        ? DESTRUCTIVE_WRITE
+        : ADDITIVE_WRITE;
+    return { name: tool.name, category: tool.category, annotations };
+  }
+
+  /**
+   * Tool names by category, for categories with at least one tool
+   */
+  byCategory(): Partial<Record<ToolCategory, string[]>> {
+    const categories: Partial<Record<ToolCategory, string[]>> = {};
+    for (const tool of this.list()) {
+      categories[tool.category] = [...(categories[tool.category] ?? []), tool.name];
+    }
+    return categories;
+  }
+}
+
+/**
+ * Wrap a server so that every tool registered through it is recorded in the
+ * registry under category, then registered as usual
+ */
+export function recordTools(
+  server: McpServer,
+  registry: ToolRegistry,
+  category: ToolCategory
+): McpServer {
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (property !== 'tool') {
+        return value;
+      }
+      return (...args: unknown[]) => {
+        // Every tool here uses the (name, description, schema, annotations, callback) form
+        const annotations = args.length === 5 ? (args[3] as ToolAnnotations) : undefined;
+        registry.record({
+          name: args[0] as string,
+          category,
+          mutating: annotations?.readOnlyHint !== true,
+          destructive: annotations?.destructiveHint === true,
+          description: args[1] as string,
+          inputSchema: z.toJSONSchema(z.object(args[2] as ZodRawShape), { io: 'input' }),
+        });
+        return (value as (...args: unknown[]) => unknown).apply(target, args);
+      };
+    },
+  });
+}
+
+/**
+ * Markdown list of the tools by category, as in the README's Available Tools
+ * section. Each tool is listed with the first line of its description.
+ */
+export function renderToolsMarkdown(registry: ToolRegistry): string {
+  const tools = registry.list();
+  const sections = TOOL_CATEGORIES.flatMap((category) => {
+    const inCategory = tools.filter((tool) => tool.category === category);
+    if (inCategory.length === 0) return [];
+    const lines = inCategory.map((tool) => {
+      const access = tool.destructive ? ' (destructive)' : tool.mutating ? ' (write)' : '';
+      const summary = tool.description.trim().split('\n')[0];
+      return `- \`${tool.name}\`${access} - ${summary}`;
+    });
+    return [`### ${CATEGORY_TITLES[category]}\n${lines.join('\n')}`];
+  });
+  return sections.join('\n\n');
+}
+
+/**
+ * Comments around the generated tool list in the README
+ */
+export const TOOL_DOCS_START = '<!-- tools:start (generated by `bun run docs`) -->';
+export const TOOL_DOCS_END = '<!-- tools:end -->';
+
+/**
+ * Replace the generated tool list in a README with markdown. Throws when the
+ * README has no generated section.
+ */
+export function replaceToolDocs(readme: string, markdown: string): string {
+  const start = readme.indexOf(TOOL_DOCS_START);
+  const end = readme.indexOf(TOOL_DOCS_END);
+  if (start === -1 || end < start) {
+    throw new Error(`README has no ${TOOL_DOCS_START} ... ${TOOL_DOCS_END} section`);
+  }
+  return `${readme.slice(0, start + TOOL_DOCS_START.length)}\n${markdown}\n${readme.slice(end)}`;
+}
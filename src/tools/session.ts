@@ -0,0 +1,129 @@
+/**
+ * Session Context Tools
+ *
+ * MCP tools for pinning the default account, zone and output format for the
+ * rest of a conversation, so later calls can omit account_id, zone_id and format.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { CloudflareClient } from '../client.js';
+import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import type { SessionState } from '../utils/session.js';
+import type { ToolContext } from './context.js';
+import { READ_ONLY } from './policy.js';
+
+/**
+ * Register the session context tools
+ */
+export function registerSessionTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Set Context
+  // ===========================================================================
+  server.tool(
+    'cloudflare_set_context',
+    `Pin the default account, zone and output format for the rest of the session.
+
+Tools called without account_id, zone_id or format use the pinned values.
+Arguments that are omitted keep their current value. The account and zone are
+checked before they are pinned.
+
+Returns session_token. On the stateless /mcp endpoint, the client must send it
+as the X-CF-Session header on later requests for the context to apply; /sse
+sessions keep it without the header.
+
+Args:
+  - account_id: Account to pin
+  - zone_id: Zone to pin, as a zone ID or a domain name such as example.com
+  - format: Output format to pin ('json' or 'markdown')
+  - reset: Clear the pinned values before applying these (default: false)`,
+    {
+      account_id: z.string().optional().describe('Account ID to pin'),
+      zone_id: z.string().optional().describe('Zone ID or domain name to pin'),
+      format: z.enum(['json', 'markdown']).optional().describe('Output format to pin'),
+      reset: z.boolean().default(false).describe('Clear the pinned values first'),
+    },
+    // Only changes this session's defaults, nothing in the Cloudflare account
+    READ_ONLY,
+    async ({ account_id, zone_id, format, reset }, { signal }) => {
+      const api = client.withSignal(signal);
+      try {
+        const changes: Partial<SessionState> = reset
+          ? { accountId: undefined, zoneId: undefined, format: undefined }
+          : {};
+        if (account_id) {
+          changes.accountId = (await api.getAccount(account_id)).id;
+        }
+        if (zone_id) {
+          changes.zoneId = (await api.getZone(await context.zones.resolve(api, zone_id))).id;
+        }
+        if (format) {
+          changes.format = format;
+        }
+        context.session.update(changes);
+
+        const state = context.session.get();
+        const { token, expiresAt } = await context.sessionTokens.issue(state);
+        return formatResponse(
+          {
+            success: true,
+            context: describeContext(context),
+            session_token: token,
+            expires_at: expiresAt,
+            message:
+              'Context pinned. On the stateless /mcp endpoint, send session_token as the ' +
+              'X-CF-Session header on later requests.',
+          },
+          'json',
+          'session_context',
+          context.output
+        );
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Context
+  // ===========================================================================
+  server.tool(
+    'cloudflare_get_context',
+    `Show the defaults that apply when account_id, zone_id or format is omitted.
+
+Returns the effective account, zone and format, and which of them are pinned
+with cloudflare_set_context. account_source says where the account comes from:
+pinned, the X-CF-Account-ID header, or discovered as the only account.`,
+    {},
+    READ_ONLY,
+    async () => {
+      try {
+        return formatResponse(describeContext(context), 'json', 'session_context', context.output);
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+}
+
+/**
+ * Effective defaults and the pinned values behind them
+ */
+function describeContext(context: ToolContext): Record<string, unknown> {
+  const pinned = context.session.get();
+  return {
+    account_id: context.account.current() ?? null,
+    account_source: context.account.source() ?? null,
+    zone_id: pinned.zoneId ?? null,
+    format: pinned.format ?? 'json',
+    pinned: {
+      account_id: pinned.accountId ?? null,
+      zone_id: pinned.zoneId ?? null,
+      format: pinned.format ?? null,
+    },
+  };
+}
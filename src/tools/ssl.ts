@@ -8,11 +8,17 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
 import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import { READ_ONLY } from './policy.js';
 
 /**
  * Register all SSL/TLS-related tools
  */
-export function registerSslTools(server: McpServer, client: CloudflareClient): void {
+export function registerSslTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List SSL Certificates
   // ===========================================================================
@@ -23,19 +29,23 @@ export function registerSslTools(server: McpServer, client: CloudflareClient): v
 Returns Universal SSL, Advanced Certificate Manager, and custom certificates.
 
 Args:
-  - zone_id: The zone ID
-  - format: Response format`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const certs = await client.listSslCertificates(zone_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const certs = await api.listSslCertificates(zoneId);
         return formatResponse(
           { items: certs, count: certs.length, hasMore: false },
           format,
-          'ssl_certificates'
+          'ssl_certificates',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
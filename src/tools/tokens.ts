@@ -0,0 +1,104 @@
+/**
+ * API Token Tools
+ *
+ * MCP tools for inspecting the tenant's Cloudflare API token.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CloudflareClient } from '../client.js';
+import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import {
+  CATEGORY_PERMISSIONS,
+  categoryAccess,
+  introspectToken,
+  type TokenPermissions,
+  tokenInactiveReason,
+} from './permissions.js';
+import { READ_ONLY, type ToolCategory } from './policy.js';
+
+/**
+ * Register all API token tools
+ */
+export function registerTokenTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Get Token Permissions
+  // ===========================================================================
+  server.tool(
+    'cloudflare_get_token_permissions',
+    `Explain what the API token in use can do.
+
+Returns the token status and, per tool category, the access it has (read_write,
+read, write or none), the permission groups it has, and the groups that would
+add access. Tools in categories without access are not registered for this token,
+and neither are any Cloudflare API tools while it is disabled, expired or not yet valid.`,
+    {},
+    READ_ONLY,
+    async (_args, { signal }) => {
+      const api = client.withSignal(signal);
+      try {
+        const permissions = await introspectToken(api);
+        return formatResponse(
+          describeTokenPermissions(permissions),
+          'json',
+          'token_permissions',
+          context.output
+        );
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+}
+
+/**
+ * Per-category report of present and missing permission groups
+ */
+function describeTokenPermissions(permissions: TokenPermissions): Record<string, unknown> {
+  const token = {
+    id: permissions.tokenId,
+    status: permissions.status,
+    expires_on: permissions.expiresOn,
+    not_before: permissions.notBefore,
+  };
+  const inactive = tokenInactiveReason(permissions);
+  if (inactive) {
+    return {
+      token,
+      active: false,
+      message:
+        `${inactive}, so only the connection, session and continuation tools are ` +
+        'registered. Use an active token to get the others back.',
+    };
+  }
+  const groups = permissions.groups;
+  if (!groups) {
+    return {
+      token,
+      active: true,
+      permissions_known: false,
+      message:
+        'The token is valid but cannot read its own policies, so every tool stays registered. ' +
+        'Add the "API Tokens Read" permission to see its scopes.',
+    };
+  }
+
+  // Missing groups are the ones that would add access: write groups for a
+  // read-only category, any group for one without access
+  const categories = Object.entries(CATEGORY_PERMISSIONS).map(([name, required]) => {
+    const access = categoryAccess(name as ToolCategory, groups);
+    const all = [...required.read, ...required.write];
+    return {
+      category: name,
+      access,
+      present: all.filter((group) => groups.includes(group)),
+      missing: access === 'read' ? required.write : access === 'none' ? all : [],
+    };
+  });
+
+  return { token, active: true, permissions_known: true, permission_groups: groups, categories };
+}
@@ -8,11 +8,17 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
 import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import { DESTRUCTIVE_WRITE, READ_ONLY } from './policy.js';
 
 /**
  * Register all WAF-related tools
  */
-export function registerWafTools(server: McpServer, client: CloudflareClient): void {
+export function registerWafTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List WAF Packages
   // ===========================================================================
@@ -24,19 +30,23 @@ WAF packages contain groups of rules that protect against different threats.
 Common packages include Cloudflare Managed Ruleset and OWASP Core Ruleset.
 
 Args:
-  - zone_id: The zone ID
-  - format: Response format`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const packages = await client.listWafPackages(zone_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const packages = await api.listWafPackages(zoneId);
         return formatResponse(
           { items: packages, count: packages.length, hasMore: false },
           format,
-          'waf_packages'
+          'waf_packages',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
@@ -52,21 +62,25 @@ Args:
     `List all WAF rules in a package.
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - package_id: The WAF package ID
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       package_id: z.string().describe('WAF package ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, package_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, package_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const rules = await client.listWafRules(zone_id, package_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const rules = await api.listWafRules(zoneId, package_id);
         return formatResponse(
           { items: rules, count: rules.length, hasMore: false },
           format,
-          'waf_rules'
+          'waf_rules',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
@@ -89,19 +103,24 @@ Modes:
   - challenge: Present a challenge to matching requests
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - package_id: The WAF package ID
   - rule_id: The rule ID
-  - mode: The new mode for the rule`,
+  - mode: The new mode for the rule
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       package_id: z.string().describe('WAF package ID'),
       rule_id: z.string().describe('Rule ID'),
       mode: z.enum(['default', 'disable', 'simulate', 'block', 'challenge']).describe('Rule mode'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, package_id, rule_id, mode }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, package_id, rule_id, mode, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const rule = await client.updateWafRule(zone_id, package_id, rule_id, mode);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const rule = await api.updateWafRule(zoneId, package_id, rule_id, mode);
         return {
           content: [
             {
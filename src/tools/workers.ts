@@ -7,12 +7,22 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
-import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import {
+  formatErrorResponse,
+  formatResponse,
+  formatTextResponse,
+} from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import { ADDITIVE_WRITE, DESTRUCTIVE_WRITE, READ_ONLY } from './policy.js';
 
 /**
  * Register all Workers-related tools
  */
-export function registerWorkersTools(server: McpServer, client: CloudflareClient): void {
+export function registerWorkersTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Workers
   // ===========================================================================
@@ -23,16 +33,25 @@ export function registerWorkersTools(server: McpServer, client: CloudflareClient
 Returns all deployed Workers with their metadata.
 
 Args:
-  - account_id: The account ID
-  - format: Response format ('json' or 'markdown')`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - format: Response format ('json' or 'markdown'; default: the pinned format, or 'json')`,
     {
-      account_id: z.string().describe('Account ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, format }) => {
+    READ_ONLY,
+    async ({ account_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const workers = await client.listWorkers(account_id);
-        return formatResponse({ items: workers, count: workers.length, hasMore: false }, format, 'workers');
+        const accountId = await context.account.resolve(api, account_id);
+        const workers = await api.listWorkers(accountId);
+        return formatResponse(
+          { items: workers, count: workers.length, hasMore: false },
+          format,
+          'workers',
+          context.output
+        );
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -49,23 +68,20 @@ Args:
 Returns the JavaScript/TypeScript source code.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - script_name: The Worker script name`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       script_name: z.string().describe('Worker script name'),
     },
-    async ({ account_id, script_name }) => {
+    READ_ONLY,
+    async ({ account_id, script_name }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const script = await client.getWorker(account_id, script_name);
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: script,
-            },
-          ],
-        };
+        const accountId = await context.account.resolve(api, account_id);
+        const script = await api.getWorker(accountId, script_name);
+        return formatTextResponse(script, context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -82,15 +98,21 @@ Args:
 WARNING: This will permanently delete the Worker and all its versions.
 
 Args:
-  - account_id: The account ID
-  - script_name: The Worker script name to delete`,
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
+  - script_name: The Worker script name to delete
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       script_name: z.string().describe('Worker script name'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ account_id, script_name }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ account_id, script_name, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        await client.deleteWorker(account_id, script_name);
+        const accountId = await context.account.resolve(api, account_id);
+        await api.deleteWorker(accountId, script_name);
         return {
           content: [
             {
@@ -122,16 +144,24 @@ Args:
 Routes map URL patterns to Worker scripts.
 
 Args:
-  - zone_id: The zone ID
-  - format: Response format`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - format: Response format (default: the pinned format, or json)`,
     {
-      zone_id: z.string().describe('Zone ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const routes = await client.listWorkerRoutes(zone_id);
-        return formatResponse({ items: routes, count: routes.length, hasMore: false }, format, 'worker_routes');
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const routes = await api.listWorkerRoutes(zoneId);
+        return formatResponse(
+          { items: routes, count: routes.length, hasMore: false },
+          format,
+          'worker_routes',
+          context.output
+        );
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -151,17 +181,22 @@ Pattern examples:
   - example.com/api/* (specific path prefix)
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - pattern: URL pattern to match
-  - script: Worker script name (optional, leave empty to disable)`,
+  - script: Worker script name (optional, leave empty to disable)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       pattern: z.string().describe('URL pattern (e.g., "example.com/*")'),
       script: z.string().optional().describe('Worker script name'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, pattern, script }) => {
+    ADDITIVE_WRITE,
+    async ({ zone_id, pattern, script, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const route = await client.createWorkerRoute(zone_id, pattern, script);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const route = await api.createWorkerRoute(zoneId, pattern, script);
         return {
           content: [
             {
@@ -192,15 +227,20 @@ Args:
     `Delete a Worker route.
 
 Args:
-  - zone_id: The zone ID
-  - route_id: The route ID to delete`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - route_id: The route ID to delete
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       route_id: z.string().describe('Route ID'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, route_id }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, route_id, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        await client.deleteWorkerRoute(zone_id, route_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        await api.deleteWorkerRoute(zoneId, route_id);
         return {
           content: [
             {
@@ -230,21 +270,26 @@ Args:
     `Get cron triggers (scheduled events) for a Worker.
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - script_name: The Worker script name
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       script_name: z.string().describe('Worker script name'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, script_name, format }) => {
+    READ_ONLY,
+    async ({ account_id, script_name, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const triggers = await client.getWorkerCronTriggers(account_id, script_name);
+        const accountId = await context.account.resolve(api, account_id);
+        const triggers = await api.getWorkerCronTriggers(accountId, script_name);
         return formatResponse(
           { items: triggers, count: triggers.length, hasMore: false },
           format,
-          'cron_triggers'
+          'cron_triggers',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
@@ -262,21 +307,26 @@ Args:
 Note: Only secret names are returned, not values (for security).
 
 Args:
-  - account_id: The account ID
+  - account_id: The account ID (default: the pinned account, the X-CF-Account-ID header,
+    or the only account)
   - script_name: The Worker script name
-  - format: Response format`,
+  - format: Response format (default: the pinned format, or json)`,
     {
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       script_name: z.string().describe('Worker script name'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ account_id, script_name, format }) => {
+    READ_ONLY,
+    async ({ account_id, script_name, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const secrets = await client.listWorkerSecrets(account_id, script_name);
+        const accountId = await context.account.resolve(api, account_id);
+        const secrets = await api.listWorkerSecrets(accountId, script_name);
         return formatResponse(
           { items: secrets, count: secrets.length, hasMore: false },
           format,
-          'worker_secrets'
+          'worker_secrets',
+          context.output
         );
       } catch (error) {
         return formatErrorResponse(error);
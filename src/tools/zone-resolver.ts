@@ -0,0 +1,95 @@
+/**
+ * Zone Resolver
+ *
+ * zone_id arguments take a zone ID or a domain name, and default to the zone
+ * pinned in the session. Names are looked up with the zones list filter, from
+ * the full name up to its apex, so "api.example.com" resolves to the example.com
+ * zone. Resolved names are cached per tenant; a zone deleted and added again
+ * resolves to its old ID until the entry expires.
+ */
+
+import type { CloudflareClient } from '../client.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { MemorySessionStore, type SessionStore } from '../utils/session.js';
+import { hashScope, type KeyValueStore } from '../utils/store.js';
+
+/**
+ * How long a resolved name is reused, in seconds
+ */
+export const ZONE_NAME_TTL_SECONDS = 300;
+
+/**
+ * Zone IDs are 32 hex characters
+ */
+const ZONE_ID_PATTERN = /^[0-9a-f]{32}$/i;
+
+/**
+ * Resolves zone names to zone IDs for one tenant
+ */
+export class ZoneResolver {
+  private store: KeyValueStore;
+  private scope: string;
+  private session: SessionStore;
+  private ttlSeconds: number;
+
+  constructor(
+    store: KeyValueStore,
+    scope: string,
+    session: SessionStore = new MemorySessionStore(),
+    ttlSeconds = ZONE_NAME_TTL_SECONDS
+  ) {
+    this.store = store;
+    this.scope = scope;
+    this.session = session;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * The zone ID for a zone_id argument, or for the pinned zone when it is
+   * omitted. IDs, and anything that isn't a domain name, are returned
+   * unchanged. Throws NotFoundError when no zone covers a name.
+   */
+  async resolve(api: CloudflareClient, zoneIdOrName?: string): Promise<string> {
+    const zone = zoneIdOrName || this.session.get().zoneId;
+    if (!zone) {
+      throw new ValidationError(
+        'zone_id is required: pass a zone ID or domain name, or pin a zone with ' +
+          'cloudflare_set_context.'
+      );
+    }
+    const name = zone.trim().toLowerCase().replace(/\.$/, '');
+    if (ZONE_ID_PATTERN.test(name) || !name.includes('.')) {
+      return zone;
+    }
+
+    const key = `zone:${await hashScope(this.scope)}:${name}`;
+    const cached = await this.store.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const zoneId = await this.lookup(api, name);
+    try {
+      await this.store.put(key, zoneId, { expirationTtl: this.ttlSeconds });
+    } catch {
+      // Caching only saves the lookup on the next call
+    }
+    return zoneId;
+  }
+
+  private async lookup(api: CloudflareClient, name: string): Promise<string> {
+    const labels = name.split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      const candidate = labels.slice(i).join('.');
+      const zones = await api.listZones({ name: candidate, page: 1, per_page: 5 });
+      const zone = zones.items.find((item) => item.status === 'active') ?? zones.items[0];
+      if (zone) {
+        return zone.id;
+      }
+    }
+    throw new NotFoundError(
+      `No zone found for ${name}. Pass a zone ID, or a domain in a zone these credentials ` +
+        'can access.'
+    );
+  }
+}
@@ -7,12 +7,23 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { CloudflareClient } from '../client.js';
+import type { ConfirmationImpact } from '../utils/confirmation.js';
 import { formatErrorResponse, formatResponse } from '../utils/formatters.js';
+import { collectAll, fetchAllPageSize } from '../utils/pagination.js';
+import { confirmDestructiveAction } from './confirmation.js';
+import type { ToolContext } from './context.js';
+import { ADDITIVE_WRITE, DESTRUCTIVE_WRITE, READ_ONLY } from './policy.js';
 
 /**
  * Register all zone-related tools
  */
-export function registerZoneTools(server: McpServer, client: CloudflareClient): void {
+export function registerZoneTools(
+  server: McpServer,
+  client: CloudflareClient,
+  context: ToolContext
+): void {
+  const { defaultPerPage, maxPerPage } = context.pagination;
+
   // ===========================================================================
   // List Zones
   // ===========================================================================
@@ -26,19 +37,49 @@ Args:
   - name: Filter by zone name (optional)
   - status: Filter by status (active, pending, etc.) (optional)
   - page: Page number (default: 1)
-  - per_page: Results per page (1-100, default: 20)
-  - format: Response format ('json' or 'markdown')`,
+  - per_page: Results per page (1-${maxPerPage}, default: ${defaultPerPage})
+  - all: Fetch every page from page on and return the combined list. When it stops early,
+    call again with page set to the returned nextPage and the same max_items (default: false)
+  - max_items: Maximum items to return when all is true (default: 1000)
+  - format: Response format ('json' or 'markdown'; default: the pinned format, or 'json')`,
     {
       name: z.string().optional().describe('Filter by zone name'),
       status: z.string().optional().describe('Filter by status (active, pending, etc.)'),
       page: z.number().int().min(1).default(1).describe('Page number'),
-      per_page: z.number().int().min(1).max(100).default(20).describe('Results per page'),
-      format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
+      per_page: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxPerPage)
+        .default(defaultPerPage)
+        .describe('Results per page'),
+      all: z.boolean().default(false).describe('Fetch every page and combine the results'),
+      max_items: z
+        .number()
+        .int()
+        .min(1)
+        .max(10000)
+        .optional()
+        .describe('Maximum items to return when all is true (default: 1000)'),
+      format: z.enum(['json', 'markdown']).optional().describe('Response format'),
     },
-    async ({ name, status, page, per_page, format }) => {
+    READ_ONLY,
+    async ({ name, status, page, per_page, all, max_items, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const result = await client.listZones({ name, status, page, per_page });
-        return formatResponse(result, format, 'zones');
+        const result = all
+          ? await collectAll(
+              api.listAllZones({
+                name,
+                status,
+                page,
+                per_page: fetchAllPageSize(context.pagination, max_items),
+              }),
+              max_items,
+              context.output.characterLimit
+            )
+          : await api.listZones({ name, status, page, per_page });
+        return formatResponse(result, format, 'zones', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -53,16 +94,19 @@ Args:
     `Get detailed information about a specific zone.
 
 Args:
-  - zone_id: The zone ID
-  - format: Response format ('json' or 'markdown')`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - format: Response format ('json' or 'markdown'; default: the pinned format, or 'json')`,
     {
-      zone_id: z.string().describe('Zone ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const zone = await client.getZone(zone_id);
-        return formatResponse(zone, format, 'zone');
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const zone = await api.getZone(zoneId);
+        return formatResponse(zone, format, 'zone', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -78,20 +122,26 @@ Args:
 
 Args:
   - name: The domain name (e.g., "example.com")
-  - account_id: The account ID to add the zone to
+  - account_id: The account ID to add the zone to (default: the X-CF-Account-ID header, or the
+    only account)
   - type: Zone type ('full' for full setup, 'partial' for CNAME setup)
-  - jump_start: Whether to scan for existing DNS records (default: true)`,
+  - jump_start: Whether to scan for existing DNS records (default: true)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
       name: z.string().describe('Domain name (e.g., "example.com")'),
-      account_id: z.string().describe('Account ID'),
+      account_id: z.string().optional().describe('Account ID (optional, see X-CF-Account-ID)'),
       type: z.enum(['full', 'partial', 'secondary']).default('full').describe('Zone type'),
       jump_start: z.boolean().default(true).describe('Scan for existing DNS records'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ name, account_id, type, jump_start }) => {
+    ADDITIVE_WRITE,
+    async ({ name, account_id, type, jump_start, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const zone = await client.createZone({
+        const accountId = await context.account.resolve(api, account_id);
+        const zone = await api.createZone({
           name,
-          account: { id: account_id },
+          account: { id: accountId },
           type,
           jump_start,
         });
@@ -125,24 +175,29 @@ Args:
     `Update zone settings.
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - paused: Pause the zone (stops all Cloudflare features)
   - plan_id: Change the zone plan
-  - type: Change zone type`,
+  - type: Change zone type
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       paused: z.boolean().optional().describe('Pause the zone'),
       plan_id: z.string().optional().describe('New plan ID'),
       type: z.enum(['full', 'partial', 'secondary']).optional().describe('Zone type'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, paused, plan_id, type }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, paused, plan_id, type, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
+        const zoneId = await context.zones.resolve(api, zone_id);
         const input: { paused?: boolean; plan?: { id: string }; type?: 'full' | 'partial' | 'secondary' } = {};
         if (paused !== undefined) input.paused = paused;
         if (plan_id) input.plan = { id: plan_id };
         if (type) input.type = type;
 
-        const zone = await client.updateZone(zone_id, input);
+        const zone = await api.updateZone(zoneId, input);
         return {
           content: [
             {
@@ -174,14 +229,40 @@ Args:
 
 WARNING: This will remove the zone and all its settings permanently.
 
+Two-phase: a call without confirmation_token changes nothing and returns what
+would be deleted plus a token valid for 5 minutes. Call again with the same
+arguments and the token to proceed. Clients that support elicitation ask the
+user to approve instead.
+
 Args:
-  - zone_id: The zone ID to delete`,
+  - zone_id: The zone ID to delete, or its domain name
+  - confirmation_token: Token returned by the first call; required to delete
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID to delete'),
+      zone_id: z.string().describe('Zone ID or domain name to delete'),
+      confirmation_token: z.string().optional().describe('Token returned by the first call'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, confirmation_token, dry_run }, extra) => {
+      const api = client.withSignal(extra.signal).withDryRun(dry_run);
       try {
-        const result = await client.deleteZone(zone_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        if (!api.isDryRun()) {
+          await confirmDestructiveAction(
+            server,
+            context,
+            {
+              tool: 'cloudflare_delete_zone',
+              target: { zone_id: zoneId },
+              describe: () => describeZoneDeletion(api, zoneId),
+              requireToken: true,
+              token: confirmation_token,
+            },
+            extra
+          );
+        }
+        const result = await api.deleteZone(zoneId);
         return {
           content: [
             {
@@ -213,16 +294,19 @@ Args:
 Returns settings like SSL mode, minification, caching, security settings, etc.
 
 Args:
-  - zone_id: The zone ID
-  - format: Response format ('json' or 'markdown')`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - format: Response format ('json' or 'markdown'; default: the pinned format, or 'json')`,
     {
-      zone_id: z.string().describe('Zone ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
+      format: z.enum(['json', 'markdown']).optional(),
     },
-    async ({ zone_id, format }) => {
+    READ_ONLY,
+    async ({ zone_id, format }, { signal }) => {
+      const api = client.withSignal(signal);
       try {
-        const settings = await client.getZoneSettings(zone_id);
-        return formatResponse(settings, format, 'zone_settings');
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const settings = await api.getZoneSettings(zoneId);
+        return formatResponse(settings, format, 'zone_settings', context.output);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -248,17 +332,22 @@ Common settings:
   - minify: Minification settings (object with css, html, js)
 
 Args:
-  - zone_id: The zone ID
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
   - setting_id: The setting ID to update
-  - value: The new value for the setting`,
+  - value: The new value for the setting
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
       setting_id: z.string().describe('Setting ID (e.g., ssl, always_use_https)'),
       value: z.unknown().describe('New value for the setting'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id, setting_id, value }) => {
+    DESTRUCTIVE_WRITE,
+    async ({ zone_id, setting_id, value, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const setting = await client.updateZoneSetting(zone_id, setting_id, value);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const setting = await api.updateZoneSetting(zoneId, setting_id, value);
         return {
           content: [
             {
@@ -291,13 +380,18 @@ Args:
 Use this for zones that are in "pending" status to check if the nameservers have been updated.
 
 Args:
-  - zone_id: The zone ID`,
+  - zone_id: The zone ID, or a domain name such as example.com (default: the pinned zone)
+  - dry_run: Return the request and a before/after diff without applying it (default: false)`,
     {
-      zone_id: z.string().describe('Zone ID'),
+      zone_id: z.string().optional().describe('Zone ID or domain name (default: pinned zone)'),
+      dry_run: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ zone_id }) => {
+    ADDITIVE_WRITE,
+    async ({ zone_id, dry_run }, { signal }) => {
+      const api = client.withSignal(signal).withDryRun(dry_run);
       try {
-        const result = await client.activationCheck(zone_id);
+        const zoneId = await context.zones.resolve(api, zone_id);
+        const result = await api.activationCheck(zoneId);
         return {
           content: [
             {
@@ -320,3 +414,32 @@ Args:
     }
   );
 }
+
+/**
+ * What deleting a zone destroys
+ */
+async function describeZoneDeletion(
+  api: CloudflareClient,
+  zoneId: string
+): Promise<ConfirmationImpact> {
+  const [zone, records, routes] = await Promise.all([
+    api.getZone(zoneId),
+    api.listDnsRecords(zoneId, { per_page: 1 }),
+    api.listWorkerRoutes(zoneId),
+  ]);
+  const dnsRecords = records.total ?? records.count;
+
+  return {
+    summary:
+      `Deletes zone ${zone.name} with its ${dnsRecords} DNS records, ` +
+      `${routes.length} Worker routes and all settings`,
+    details: {
+      zone_id: zone.id,
+      zone_name: zone.name,
+      status: zone.status,
+      plan: zone.plan?.name,
+      dns_records: dnsRecords,
+      worker_routes: routes.length,
+    },
+  };
+}
@@ -20,6 +20,9 @@ export interface CloudflareResponse<T> {
 export interface CloudflareError {
   code: number;
   message: string;
+  documentation_url?: string;
+  source?: { pointer?: string };
+  error_chain?: CloudflareError[];
 }
 
 export interface CloudflareMessage {
@@ -51,6 +54,10 @@ export interface PaginatedResponse<T> {
   hasMore: boolean;
   page?: number;
   totalPages?: number;
+
+  /** Where a fetch-all list that stopped early carries on (see collectAll) */
+  nextPage?: number;
+  cursor?: string;
 }
 
 // =============================================================================
@@ -104,6 +111,33 @@ export interface AccountRole {
   permissions: Record<string, { read: boolean; edit: boolean }>;
 }
 
+// =============================================================================
+// API Tokens
+// =============================================================================
+
+export interface TokenVerification {
+  id: string;
+  status: 'active' | 'disabled' | 'expired';
+  expires_on?: string;
+  not_before?: string;
+}
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  status: 'active' | 'disabled' | 'expired';
+  expires_on?: string;
+  not_before?: string;
+  policies: ApiTokenPolicy[];
+}
+
+export interface ApiTokenPolicy {
+  id: string;
+  effect: 'allow' | 'deny';
+  resources: Record<string, unknown>;
+  permission_groups: Array<{ id: string; name: string }>;
+}
+
 // =============================================================================
 // Zone
 // =============================================================================
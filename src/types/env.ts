@@ -12,9 +12,24 @@
  * - X-CF-API-Token: Cloudflare API token (recommended)
  * - X-CF-API-Email: Email for legacy API key authentication
  * - X-CF-API-Key: Legacy global API key
+ * - X-CF-Tenant-Key: Key for credentials stored in the credential vault
  * - X-CF-Account-ID: Account ID for account-scoped operations
+ * - X-CF-Max-Retries: Retry budget for transient API failures (optional)
+ * - X-CF-Timeout-Ms: Per-attempt Cloudflare API timeout in milliseconds (optional)
+ * - X-CF-Dry-Run: Preview every write instead of sending it (optional)
+ * - X-CF-Mode: "read-only" registers only tools without side effects (optional)
+ * - X-CF-Tools-Allow / X-CF-Tools-Deny: Comma-separated tool or category names (optional)
+ * - X-CF-Session: Session token from cloudflare_set_context (optional)
+ *
+ * When OAuth is configured, "Authorization: Bearer <token>" with an access token
+ * issued by this server can replace the credential headers.
  */
 
+import type { IdentityProviderConfig } from '../auth/oauth.js';
+import type { CredentialVault } from '../auth/vault.js';
+import type { ToolPolicy } from '../tools/policy.js';
+import { sha256Hex } from '../utils/store.js';
+
 // =============================================================================
 // Tenant Credentials (parsed from request headers)
 // =============================================================================
@@ -34,11 +49,31 @@ export interface TenantCredentials {
 }
 
 /**
- * Parse tenant credentials from request headers
+ * Parse tenant credentials from request headers. An X-CF-Tenant-Key header is
+ * resolved to the credentials stored in the vault; throws when there is no
+ * vault or the key is invalid or revoked.
  */
-export function parseTenantCredentials(request: Request): TenantCredentials {
+export async function parseTenantCredentials(
+  request: Request,
+  vault?: CredentialVault
+): Promise<TenantCredentials> {
   const headers = request.headers;
 
+  const tenantKey = headers.get('X-CF-Tenant-Key');
+  if (tenantKey) {
+    if (!vault) {
+      throw new Error('X-CF-Tenant-Key is not supported: this server has no credential vault.');
+    }
+    const stored = await vault.resolve(tenantKey);
+    if (!stored) {
+      throw new Error('Tenant key is invalid or revoked.');
+    }
+    return {
+      ...stored,
+      accountId: stored.accountId ?? (headers.get('X-CF-Account-ID') || undefined),
+    };
+  }
+
   return {
     apiToken: headers.get('X-CF-API-Token') || undefined,
     email: headers.get('X-CF-API-Email') || undefined,
@@ -47,6 +82,64 @@ export function parseTenantCredentials(request: Request): TenantCredentials {
   };
 }
 
+/**
+ * Parse the retry budget for this request (from X-CF-Max-Retries header)
+ */
+export function parseMaxRetries(request: Request): number | undefined {
+  const value = request.headers.get('X-CF-Max-Retries');
+  if (!value) return undefined;
+
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+/**
+ * Parse the per-attempt API timeout for this request (from X-CF-Timeout-Ms header)
+ */
+export function parseTimeoutMs(request: Request): number | undefined {
+  const value = request.headers.get('X-CF-Timeout-Ms');
+  if (!value) return undefined;
+
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+/**
+ * Whether every write in this request should be previewed (from X-CF-Dry-Run header)
+ */
+export function parseDryRun(request: Request): boolean {
+  const value = request.headers.get('X-CF-Dry-Run')?.toLowerCase();
+  return value === 'true' || value === '1';
+}
+
+/**
+ * The session token issued by cloudflare_set_context (from X-CF-Session header)
+ */
+export function parseSessionToken(request: Request): string | undefined {
+  return request.headers.get('X-CF-Session') || undefined;
+}
+
+/**
+ * Parse the tool policy requested in headers (X-CF-Mode, X-CF-Tools-Allow, X-CF-Tools-Deny)
+ */
+export function parseToolPolicy(request: Request): ToolPolicy {
+  return {
+    readOnly: request.headers.get('X-CF-Mode')?.toLowerCase() === 'read-only',
+    allow: parseList(request.headers.get('X-CF-Tools-Allow')),
+    deny: parseList(request.headers.get('X-CF-Tools-Deny')),
+  };
+}
+
+/**
+ * Split a comma-separated header value, dropping empty entries
+ */
+function parseList(value: string | null): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
 /**
  * Validate that required credentials are present
  */
@@ -79,11 +172,82 @@ export interface Env {
   /** Maximum page size allowed */
   MAX_PAGE_SIZE: string;
 
+  /** Cloudflare API base URL override, e.g. a local mock or egress proxy (optional) */
+  CLOUDFLARE_API_BASE_URL?: string;
+
+  /** API requests allowed per credential every 5 minutes (optional, default: 1200) */
+  API_RATE_LIMIT?: string;
+
+  /** Set to "true" to cache slow-changing API reads in CACHE_KV (optional) */
+  RESPONSE_CACHE?: string;
+
+  /**
+   * Comma-separated SHA-256 hex digests of credentials that are always read-only:
+   * the API token, or "email:apiKey" for global API keys (optional)
+   */
+  READ_ONLY_CREDENTIALS?: string;
+
+  /**
+   * JSON object mapping credential digests (as for READ_ONLY_CREDENTIALS) to tool
+   * policies, e.g. {"<digest>": {"allow": ["dns", "cache"]}} (optional)
+   */
+  TOOL_POLICIES?: string;
+
+  /**
+   * Key for signing confirmation tokens of destructive tools; set it as a secret
+   * (optional, default: a random key per isolate, so tokens may fail across isolates)
+   */
+  CONFIRMATION_SECRET?: string;
+
+  /**
+   * Key for signing session tokens issued by cloudflare_set_context; set it as a
+   * secret (optional, default: a random key per isolate, so pins may be lost across isolates)
+   */
+  SESSION_SECRET?: string;
+
+  /**
+   * Upstream identity provider for OAuth sign-in. OAuth is enabled when the
+   * authorize, token and userinfo URLs and the client ID are all set (optional)
+   */
+  OAUTH_IDP_AUTHORIZE_URL?: string;
+  OAUTH_IDP_TOKEN_URL?: string;
+  OAUTH_IDP_USERINFO_URL?: string;
+  OAUTH_IDP_CLIENT_ID?: string;
+
+  /** Client secret at the identity provider; set it as a secret (optional) */
+  OAUTH_IDP_CLIENT_SECRET?: string;
+
+  /** Scope requested from the identity provider (optional, default: "openid") */
+  OAUTH_IDP_SCOPE?: string;
+
+  /**
+   * JSON object mapping identity provider user IDs ("sub") to Cloudflare
+   * credentials, e.g. {"user-1": {"apiToken": "...", "accountId": "..."}}; set it
+   * as a secret. Removing a user revokes their OAuth access (optional)
+   */
+  OAUTH_CREDENTIALS?: string;
+
+  /**
+   * Secret that credentials in the vault are encrypted with; the vault (POST
+   * /tenants and X-CF-Tenant-Key) is enabled when it is set. Use a random value,
+   * e.g. `openssl rand -base64 32` (optional)
+   */
+  VAULT_KEY?: string;
+
+  /** Former VAULT_KEY, still accepted while records are re-encrypted (optional) */
+  VAULT_PREVIOUS_KEY?: string;
+
+  /** Bearer token for the vault's /admin/tenants endpoints (optional) */
+  VAULT_ADMIN_TOKEN?: string;
+
   // ===========================================================================
   // Bindings
   // ===========================================================================
 
-  /** KV namespace for caching (optional) */
+  /**
+   * KV namespace for continuations, rate limit state, cached responses, OAuth
+   * clients and tokens, and the credential vault. Required with OAuth or VAULT_KEY.
+   */
   CACHE_KV?: KVNamespace;
 
   /** Durable Object namespace for MCP sessions */
@@ -129,3 +293,66 @@ export function getDefaultPageSize(env: Env): number {
 export function getMaxPageSize(env: Env): number {
   return getEnvNumber(env, 'MAX_PAGE_SIZE', 100);
 }
+
+/**
+ * Get the per-credential API rate limit (requests per 5 minutes) from environment
+ */
+export function getApiRateLimit(env: Env): number {
+  return getEnvNumber(env, 'API_RATE_LIMIT', 1200);
+}
+
+/**
+ * Get the operator's tool policy for these credentials (from READ_ONLY_CREDENTIALS
+ * and TOOL_POLICIES). Throws if TOOL_POLICIES isn't valid JSON, so a broken
+ * config fails closed instead of exposing every tool.
+ */
+export async function getCredentialToolPolicy(
+  env: Env,
+  credentials: TenantCredentials
+): Promise<ToolPolicy | undefined> {
+  if (!env.READ_ONLY_CREDENTIALS && !env.TOOL_POLICIES) return undefined;
+
+  const credential = credentials.apiToken ?? `${credentials.email}:${credentials.apiKey}`;
+  const digest = await sha256Hex(credential);
+  const policies = env.TOOL_POLICIES
+    ? (JSON.parse(env.TOOL_POLICIES) as Record<string, ToolPolicy>)
+    : {};
+  const readOnly = parseList(env.READ_ONLY_CREDENTIALS ?? null).includes(digest);
+
+  const policy = policies[digest];
+  if (!policy && !readOnly) return undefined;
+  return { ...policy, readOnly: readOnly || policy?.readOnly === true };
+}
+
+/**
+ * Get the OAuth identity provider settings; undefined when OAuth isn't configured
+ */
+export function getIdentityProviderConfig(env: Env): IdentityProviderConfig | undefined {
+  const authorizeUrl = env.OAUTH_IDP_AUTHORIZE_URL;
+  const tokenUrl = env.OAUTH_IDP_TOKEN_URL;
+  const userInfoUrl = env.OAUTH_IDP_USERINFO_URL;
+  const clientId = env.OAUTH_IDP_CLIENT_ID;
+  if (!authorizeUrl || !tokenUrl || !userInfoUrl || !clientId) return undefined;
+
+  return {
+    authorizeUrl,
+    tokenUrl,
+    userInfoUrl,
+    clientId,
+    clientSecret: env.OAUTH_IDP_CLIENT_SECRET,
+    scope: env.OAUTH_IDP_SCOPE,
+  };
+}
+
+/**
+ * Get the Cloudflare credentials stored for an identity provider user (from
+ * OAUTH_CREDENTIALS). Throws if OAUTH_CREDENTIALS isn't valid JSON.
+ */
+export function getLinkedCredentials(env: Env, userId: string): TenantCredentials | undefined {
+  if (!env.OAUTH_CREDENTIALS) return undefined;
+
+  const linked = JSON.parse(env.OAUTH_CREDENTIALS) as Record<string, TenantCredentials>;
+  const credentials = Object.hasOwn(linked, userId) ? linked[userId] : undefined;
+  const usable = !!credentials?.apiToken || (!!credentials?.email && !!credentials?.apiKey);
+  return usable ? credentials : undefined;
+}
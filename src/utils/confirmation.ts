@@ -0,0 +1,153 @@
+/**
+ * Confirmation Token Utilities
+ *
+ * Two-phase confirmation for irreversible operations. The first call returns
+ * what would be destroyed plus a short-lived token signed with HMAC-SHA256; the
+ * operation only runs when the same tool is called again, with the same target
+ * and credential, passing that token back.
+ *
+ * Tokens are stateless, so they can be replayed until they expire. Without a
+ * configured secret they are signed with a per-isolate key and only verify in
+ * the isolate that issued them.
+ */
+
+import { ValidationError } from './errors.js';
+import { HmacSigner } from './signing.js';
+import { hashScope } from './store.js';
+
+/**
+ * What a confirmed operation will destroy
+ */
+export interface ConfirmationImpact {
+  /** One-line description, e.g. "Deletes zone example.com and its 12 DNS records" */
+  summary: string;
+
+  /** Counts and identifiers behind the summary */
+  details: Record<string, unknown>;
+}
+
+/**
+ * A freshly issued token and what it confirms
+ */
+export interface IssuedConfirmation {
+  tool: string;
+  token: string;
+  expiresAt: string;
+  impact: ConfirmationImpact;
+}
+
+/**
+ * Thrown instead of running an unconfirmed operation. Tool handlers render it
+ * as a normal (non-error) response carrying the token.
+ */
+export class ConfirmationRequired extends Error {
+  public confirmation: IssuedConfirmation;
+
+  constructor(confirmation: IssuedConfirmation) {
+    super(`${confirmation.tool} needs confirmation: ${confirmation.impact.summary}`);
+    this.name = 'ConfirmationRequired';
+    this.confirmation = confirmation;
+  }
+}
+
+/**
+ * Default token lifetime, in seconds
+ */
+export const CONFIRMATION_TTL_SECONDS = 300;
+
+/**
+ * Signed token contents
+ */
+interface ConfirmationClaims {
+  tool: string;
+  target: Record<string, unknown>;
+  scope: string;
+  summary: string;
+  exp: number;
+}
+
+/**
+ * Issues and checks confirmation tokens for one tenant
+ */
+export class ConfirmationTokens {
+  private signer: HmacSigner;
+  private scope: string;
+  private ttlSeconds: number;
+
+  constructor(secret: string | undefined, scope: string, ttlSeconds = CONFIRMATION_TTL_SECONDS) {
+    this.signer = new HmacSigner(secret);
+    this.scope = scope;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Return when token confirms this tool call. Without a token, describes the
+   * impact and throws ConfirmationRequired with a new token; with an invalid,
+   * expired or mismatched token, throws ValidationError.
+   */
+  async require(
+    tool: string,
+    target: Record<string, unknown>,
+    token: string | undefined,
+    describe: () => Promise<ConfirmationImpact>
+  ): Promise<void> {
+    if (token) {
+      await this.verify(tool, target, token);
+      return;
+    }
+    throw new ConfirmationRequired(await this.issue(tool, target, await describe()));
+  }
+
+  /**
+   * Sign a token for one tool call
+   */
+  async issue(
+    tool: string,
+    target: Record<string, unknown>,
+    impact: ConfirmationImpact
+  ): Promise<IssuedConfirmation> {
+    const exp = Math.floor(Date.now() / 1000) + this.ttlSeconds;
+    const claims: ConfirmationClaims = {
+      tool,
+      target: canonicalize(target),
+      scope: await hashScope(this.scope),
+      summary: impact.summary,
+      exp,
+    };
+
+    return {
+      tool,
+      token: await this.signer.sign(claims),
+      expiresAt: new Date(exp * 1000).toISOString(),
+      impact,
+    };
+  }
+
+  /**
+   * Check a token against the call it is passed to
+   */
+  async verify(tool: string, target: Record<string, unknown>, token: string): Promise<void> {
+    const retry = `Call ${tool} without confirmation_token to get a new one.`;
+    const claims = await this.signer.verify<ConfirmationClaims>(token);
+    if (!claims) {
+      throw new ValidationError(`Invalid confirmation token. ${retry}`);
+    }
+    if (claims.exp * 1000 <= Date.now()) {
+      throw new ValidationError(`Confirmation token expired. ${retry}`);
+    }
+    if (
+      claims.tool !== tool ||
+      claims.scope !== (await hashScope(this.scope)) ||
+      JSON.stringify(claims.target) !== JSON.stringify(canonicalize(target))
+    ) {
+      throw new ValidationError(`Confirmation token was issued for a different call. ${retry}`);
+    }
+  }
+}
+
+/**
+ * Copy an object with its keys sorted, so equal targets serialize identically
+ */
+function canonicalize(target: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(target).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -0,0 +1,150 @@
+/**
+ * Dry-Run Utilities
+ *
+ * In dry-run mode the client never sends writes. It reads the current state
+ * of the target instead, and reports the exact request it would have made plus
+ * a before/after diff by throwing a DryRunPreview, which tool handlers render
+ * as a normal (non-error) response.
+ */
+
+/**
+ * A write the client would have sent
+ */
+export interface PlannedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * One changed field, addressed by JSON pointer
+ */
+export interface DryRunChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Everything a dry run reports
+ */
+export interface DryRunPlan {
+  request: PlannedRequest;
+  before: unknown;
+  after: unknown;
+  diff: DryRunChange[];
+  warnings?: string[];
+}
+
+/**
+ * Thrown by the client instead of sending a write in dry-run mode
+ */
+export class DryRunPreview extends Error {
+  public plan: DryRunPlan;
+
+  constructor(plan: DryRunPlan) {
+    super(`Dry run: ${plan.request.method} ${plan.request.url} was not sent`);
+    this.name = 'DryRunPreview';
+    this.plan = plan;
+  }
+}
+
+/**
+ * Longest string shown in a preview; scripts and KV values are cut beyond this
+ */
+const MAX_PREVIEW_STRING_LENGTH = 2000;
+
+const REDACTED_HEADERS = new Set(['authorization', 'x-auth-key']);
+
+/**
+ * Build the dry-run report for a write.
+ *
+ * before is the current state (null when the target doesn't exist yet). The
+ * projected after state is: nothing for DELETE, the body merged over the
+ * current state when both are objects (Cloudflare's PATCH/PUT semantics for
+ * settings and records), and the body itself otherwise.
+ */
+export function createDryRunPlan(
+  request: { method: string; url: string; headers: Record<string, string>; body?: BodyInit | null },
+  before: unknown,
+  warnings: string[] = []
+): DryRunPlan {
+  const body = parseBody(request.body);
+  let after: unknown;
+  if (request.method === 'DELETE') {
+    after = null;
+  } else if (isPlainObject(before) && isPlainObject(body)) {
+    after = { ...before, ...body };
+  } else {
+    after = body ?? null;
+  }
+
+  return {
+    request: {
+      method: request.method,
+      url: request.url,
+      headers: redactHeaders(request.headers),
+      ...(body !== undefined && { body: truncateStrings(body) }),
+    },
+    before: truncateStrings(before),
+    after: truncateStrings(after),
+    diff: diffValues(before, after).map((change) => truncateStrings(change)),
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+/**
+ * List the fields that differ between two values. Objects are compared key by
+ * key; anything else (including arrays) is compared as a whole.
+ */
+export function diffValues(before: unknown, after: unknown, path = ''): DryRunChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) =>
+      diffValues(before[key], after[key], `${path}/${escapePointer(key)}`)
+    );
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path: path || '/', before, after }];
+}
+
+function parseBody(body: BodyInit | null | undefined): unknown {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body !== 'string') return '[binary body]';
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      REDACTED_HEADERS.has(name.toLowerCase()) ? '[redacted]' : value,
+    ])
+  );
+}
+
+function truncateStrings<T>(value: T): T {
+  const limit = MAX_PREVIEW_STRING_LENGTH;
+  return JSON.parse(
+    JSON.stringify(value ?? null, (_key, item) =>
+      typeof item === 'string' && item.length > limit
+        ? `${item.slice(0, limit)}... (${item.length - limit} more characters)`
+        : item
+    )
+  ) as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
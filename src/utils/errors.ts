@@ -4,6 +4,8 @@
  * Custom error classes and error handling helpers for Cloudflare API.
  */
 
+import type { CloudflareError } from '../types/cloudflare.js';
+
 /**
  * Base Cloudflare API error
  */
@@ -12,6 +14,9 @@ export class CloudflareApiError extends Error {
   public code: string;
   public retryable: boolean;
 
+  /** The errors[] payload Cloudflare returned, if any */
+  public apiErrors: CloudflareError[] = [];
+
   constructor(message: string, statusCode?: number, code?: string, retryable = false) {
     super(message);
     this.name = 'CloudflareApiError';
@@ -22,13 +27,15 @@ export class CloudflareApiError extends Error {
 }
 
 /**
- * Rate limit exceeded error
+ * Rate limit exceeded error. Not retryable when the client-side limiter
+ * rejects a call: it has already waited as long as it may.
  */
 export class RateLimitError extends CloudflareApiError {
-  public retryAfterSeconds: number;
+  /** How long to wait, when the response said (Retry-After) */
+  public retryAfterSeconds?: number;
 
-  constructor(message: string, retryAfterSeconds: number) {
-    super(message, 429, 'RATE_LIMIT_EXCEEDED', true);
+  constructor(message: string, retryAfterSeconds?: number, retryable = true) {
+    super(message, 429, 'RATE_LIMIT_EXCEEDED', retryable);
     this.name = 'RateLimitError';
     this.retryAfterSeconds = retryAfterSeconds;
   }
@@ -44,16 +51,81 @@ export class AuthenticationError extends CloudflareApiError {
   }
 }
 
+/**
+ * Permission error (credentials are valid but lack a required permission or scope)
+ */
+export class PermissionError extends CloudflareApiError {
+  constructor(message: string) {
+    super(message, 403, 'PERMISSION_DENIED', false);
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * Network error (request never reached Cloudflare or the connection dropped)
+ */
+export class NetworkError extends CloudflareApiError {
+  constructor(message: string) {
+    super(message, undefined, 'NETWORK_ERROR', true);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Timeout error (Cloudflare didn't respond within the request timeout). The
+ * client only retries it for idempotent methods: a timed-out write may still
+ * be applied.
+ */
+export class TimeoutError extends CloudflareApiError {
+  public timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`, undefined, 'TIMEOUT', true);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Cancellation error (the caller aborted the request)
+ */
+export class CancelledError extends CloudflareApiError {
+  constructor(message = 'Request was cancelled') {
+    super(message, undefined, 'CANCELLED', false);
+    this.name = 'CancelledError';
+  }
+}
+
 /**
  * Not found error
  */
 export class NotFoundError extends CloudflareApiError {
-  constructor(entityType: string, id: string) {
-    super(`${entityType} with ID '${id}' not found`, 404, 'NOT_FOUND', false);
+  constructor(message: string) {
+    super(message, 404, 'NOT_FOUND', false);
     this.name = 'NotFoundError';
   }
 }
 
+/**
+ * Conflict error (the resource already exists or is in a conflicting state)
+ */
+export class ConflictError extends CloudflareApiError {
+  constructor(message: string) {
+    super(message, 409, 'CONFLICT', false);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Plan restriction error (the feature isn't available on the zone or account plan)
+ */
+export class PlanRestrictedError extends CloudflareApiError {
+  constructor(message: string, statusCode = 403) {
+    super(message, statusCode, 'PLAN_RESTRICTED', false);
+    this.name = 'PlanRestrictedError';
+  }
+}
+
 /**
  * Validation error
  */
@@ -67,6 +139,127 @@ export class ValidationError extends CloudflareApiError {
   }
 }
 
+// =============================================================================
+// Cloudflare errors[] Mapping
+// =============================================================================
+
+/** Cloudflare error codes meaning the referenced resource doesn't exist */
+const NOT_FOUND_CODES = new Set([
+  7000, 7003, 7404, 10006, 10007, 10009, 10013, 81044, 8000007, 8000009,
+]);
+
+/** Cloudflare error codes meaning the resource already exists */
+const CONFLICT_CODES = new Set([1061, 10004, 10014, 81053, 81057, 81058, 8000002]);
+
+/** Cloudflare error codes meaning the credentials themselves are invalid */
+const INVALID_CREDENTIAL_CODES = new Set([6003, 6103, 6111, 9103, 9106, 9107]);
+
+const NOT_FOUND_PATTERN = /not found|does not exist|could not (?:be )?find|no route/i;
+const CONFLICT_PATTERN = /already exists|already taken|duplicate/i;
+const PLAN_PATTERN =
+  /\bnot entitled\b|\bentitlements?\b|\b(?:your|current|zone|account) plan\b|\bupgrade (?:your|to|the)\b/i;
+
+/**
+ * Flatten errors[] including nested error_chain entries
+ */
+function flattenApiErrors(errors: CloudflareError[]): CloudflareError[] {
+  return errors.flatMap((error) => [error, ...flattenApiErrors(error.error_chain ?? [])]);
+}
+
+/**
+ * Build a typed error from an HTTP status and Cloudflare's errors[] payload
+ */
+export function createApiError(
+  statusCode: number,
+  errors: CloudflareError[] = []
+): CloudflareApiError {
+  const all = flattenApiErrors(errors);
+  const codes = all.map((error) => error.code);
+  const messages = all.map((error) => error.message).filter(Boolean);
+  const message = messages.join('; ') || `API error: ${statusCode}`;
+  const matches = (pattern: RegExp) => messages.some((text) => pattern.test(text));
+
+  let error: CloudflareApiError;
+  if (statusCode >= 500) {
+    error = new CloudflareApiError(message, statusCode, undefined, true);
+  } else if (matches(PLAN_PATTERN)) {
+    error = new PlanRestrictedError(message, statusCode);
+  } else if (statusCode === 401) {
+    error = new AuthenticationError(
+      messages.length > 0 ? message : 'Authentication failed. Check your API credentials.'
+    );
+  } else if (statusCode === 403) {
+    error = codes.some((code) => INVALID_CREDENTIAL_CODES.has(code))
+      ? new AuthenticationError(message)
+      : new PermissionError(messages.length > 0 ? message : 'Permission denied');
+  } else if (
+    statusCode === 404 ||
+    codes.some((code) => NOT_FOUND_CODES.has(code)) ||
+    matches(NOT_FOUND_PATTERN)
+  ) {
+    error = new NotFoundError(message);
+  } else if (
+    statusCode === 409 ||
+    codes.some((code) => CONFLICT_CODES.has(code)) ||
+    matches(CONFLICT_PATTERN)
+  ) {
+    error = new ConflictError(message);
+  } else if (statusCode >= 400) {
+    const details: Record<string, string[]> = {};
+    for (const item of all) {
+      const field = item.source?.pointer;
+      if (field) {
+        details[field] = [...(details[field] ?? []), item.message];
+      }
+    }
+    error = new ValidationError(message, details);
+  } else {
+    error = new CloudflareApiError(message, statusCode);
+  }
+
+  error.apiErrors = errors;
+  return error;
+}
+
+/**
+ * Suggest how an agent or operator can recover from an error
+ */
+export function getRemediationHint(error: unknown): string | undefined {
+  if (error instanceof RateLimitError) {
+    const wait =
+      error.retryAfterSeconds === undefined ? 'a few seconds' : `${error.retryAfterSeconds}s`;
+    return `Cloudflare rate limit reached. Wait ${wait} before retrying, and avoid tight loops of list calls.`;
+  }
+  if (error instanceof AuthenticationError) {
+    return 'Check the X-CF-API-Token header (or X-CF-API-Email and X-CF-API-Key) and that the token has not expired or been revoked.';
+  }
+  if (error instanceof PermissionError) {
+    return 'The credentials are valid but lack a permission for this operation. Add the missing permission to the API token, or make sure the token covers this account and zone.';
+  }
+  if (error instanceof PlanRestrictedError) {
+    return 'This feature is not available on the current plan. Upgrade the zone or account plan, or use an alternative feature.';
+  }
+  if (error instanceof NotFoundError) {
+    return 'Check the ID. Use the matching list tool (e.g. cloudflare_list_zones or cloudflare_list_dns_records) to find valid IDs.';
+  }
+  if (error instanceof ConflictError) {
+    return 'The resource already exists. Look up the existing resource and update it instead of creating it again.';
+  }
+  if (error instanceof ValidationError) {
+    return 'Cloudflare rejected the request arguments. Correct the fields named in the error and retry.';
+  }
+  if (error instanceof TimeoutError) {
+    return 'Cloudflare did not respond in time. Retry, or narrow the request with filters or a smaller page size.';
+  }
+  if (error instanceof NetworkError) {
+    return 'Cloudflare could not be reached. Retry shortly.';
+  }
+  if (error instanceof CloudflareApiError && error.retryable) {
+    return 'Cloudflare returned a transient error. Retry shortly.';
+  }
+  return undefined;
+}
+
 /**
  * Check if an error is retryable
  */
@@ -96,6 +289,9 @@ export function formatErrorForLogging(error: unknown): Record<string, unknown> {
       code: error.code,
       statusCode: error.statusCode,
       retryable: error.retryable,
+      ...(error.apiErrors.length > 0 && {
+        errors: error.apiErrors.map(({ code, message }) => ({ code, message })),
+      }),
       ...(error instanceof RateLimitError && { retryAfterSeconds: error.retryAfterSeconds }),
       ...(error instanceof ValidationError && { details: error.details }),
     };
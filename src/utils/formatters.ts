@@ -17,7 +17,16 @@ import type {
   Worker,
   Zone,
 } from '../types/cloudflare.js';
-import { CloudflareApiError, formatErrorForLogging } from './errors.js';
+import { ConfirmationRequired } from './confirmation.js';
+import { DryRunPreview } from './dry-run.js';
+import { CloudflareApiError, formatErrorForLogging, getRemediationHint } from './errors.js';
+import {
+  formatContinuationNotice,
+  limitOutput,
+  type OutputChunk,
+  type OutputOptions,
+} from './output.js';
+import type { RateLimitStatus } from './rate-limit.js';
 
 /**
  * MCP tool response type
@@ -30,28 +39,86 @@ export interface ToolResponse {
 }
 
 /**
- * Format a successful response
+ * Format a successful response, enforcing the output limit when one is given.
+ * Without a format, uses the session's pinned format, or JSON.
  */
-export function formatResponse(
+export async function formatResponse(
   data: unknown,
-  format: ResponseFormat,
-  entityType: string
+  format: ResponseFormat | undefined,
+  entityType: string,
+  output?: OutputOptions
+): Promise<ToolResponse> {
+  const resolved = format ?? output?.session?.get().format ?? 'json';
+  const text =
+    resolved === 'markdown' ? formatAsMarkdown(data, entityType) : JSON.stringify(data, null, 2);
+  return formatTextResponse(text, output);
+}
+
+/**
+ * Format raw text (zone files, scripts, KV values), enforcing the output limit when one is given
+ */
+export async function formatTextResponse(
+  text: string,
+  output?: OutputOptions
+): Promise<ToolResponse> {
+  if (!output) {
+    return { content: [{ type: 'text', text }] };
+  }
+  const response = formatChunkResponse(await limitOutput(text, output));
+  return withRateLimitStatus(response, output.rateLimiter?.status);
+}
+
+/**
+ * Format one chunk of limited output, with a notice when it isn't the whole text
+ */
+export function formatChunkResponse(chunk: OutputChunk): ToolResponse {
+  const content: ToolResponse['content'] = [{ type: 'text', text: chunk.text }];
+  if (chunk.continuationToken || chunk.offset > 0) {
+    content.push({ type: 'text', text: formatContinuationNotice(chunk) });
+  }
+  return { content };
+}
+
+/**
+ * Share of the rate limit below which responses warn about the remaining budget
+ */
+const RATE_LIMIT_WARNING_RATIO = 0.1;
+
+/**
+ * Report the tenant's remaining API budget in _meta, with a visible warning when it runs low
+ */
+export function withRateLimitStatus(
+  response: ToolResponse,
+  status?: RateLimitStatus
 ): ToolResponse {
-  if (format === 'markdown') {
-    return {
-      content: [{ type: 'text', text: formatAsMarkdown(data, entityType) }],
-    };
+  if (!status) {
+    return response;
   }
-  return {
-    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-  };
+
+  const content = [...response.content];
+  if (status.remaining < status.limit * RATE_LIMIT_WARNING_RATIO) {
+    content.push({
+      type: 'text',
+      text: `[Rate limit: ${status.remaining} of ${status.limit} API requests left for this credential, fully replenished in ${status.resetSeconds}s. Batch or slow down further calls.]`,
+    });
+  }
+  return { ...response, content, _meta: { rateLimit: status } };
 }
 
 /**
- * Format an error response
+ * Format an error response. A DryRunPreview or ConfirmationRequired isn't a
+ * failure, so it is rendered as a successful response describing the skipped write.
  */
 export function formatErrorResponse(error: unknown): ToolResponse {
+  if (error instanceof DryRunPreview) {
+    return formatDryRunResponse(error);
+  }
+  if (error instanceof ConfirmationRequired) {
+    return formatConfirmationResponse(error);
+  }
+
   const errorInfo = formatErrorForLogging(error);
+  const hint = getRemediationHint(error);
 
   let message: string;
   if (error instanceof CloudflareApiError) {
@@ -69,13 +136,42 @@ export function formatErrorResponse(error: unknown): ToolResponse {
     content: [
       {
         type: 'text',
-        text: JSON.stringify({ error: message, details: errorInfo }, null, 2),
+        text: JSON.stringify({ error: message, ...(hint && { hint }), details: errorInfo }, null, 2),
       },
     ],
     isError: true,
   };
 }
 
+/**
+ * Format the report for a write skipped in dry-run mode
+ */
+export function formatDryRunResponse(preview: DryRunPreview): ToolResponse {
+  const report = {
+    dry_run: true,
+    message: 'Dry run: nothing was changed. Repeat the call with dry run off to apply it.',
+    ...preview.plan,
+  };
+  return { content: [{ type: 'text', text: JSON.stringify(report, null, 2) }] };
+}
+
+/**
+ * Format the impact and token for an operation awaiting confirmation
+ */
+export function formatConfirmationResponse(required: ConfirmationRequired): ToolResponse {
+  const { tool, token, expiresAt, impact } = required.confirmation;
+  const report = {
+    confirmation_required: true,
+    message:
+      `Nothing was changed yet. ${impact.summary}. To proceed, call ${tool} again with the ` +
+      'same arguments plus confirmation_token.',
+    impact: impact.details,
+    confirmation_token: token,
+    expires_at: expiresAt,
+  };
+  return { content: [{ type: 'text', text: JSON.stringify(report, null, 2) }] };
+}
+
 /**
  * Format data as Markdown
  */
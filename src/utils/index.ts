@@ -1,3 +1,11 @@
+export * from './confirmation.js';
+export * from './dry-run.js';
 export * from './errors.js';
 export * from './formatters.js';
+export * from './output.js';
 export * from './pagination.js';
+export * from './rate-limit.js';
+export * from './response-cache.js';
+export * from './retry.js';
+export * from './session.js';
+export * from './store.js';
@@ -0,0 +1,124 @@
+/**
+ * Output Limiting Utilities
+ *
+ * Enforces the per-response character limit on tool output. Oversized output
+ * is split at a line boundary; the rest is stashed in a continuation store and
+ * can be fetched chunk by chunk with the cloudflare_get_more tool.
+ */
+
+import type { TokenBucketRateLimiter } from './rate-limit.js';
+import type { SessionStore } from './session.js';
+import { hashScope, type KeyValueStore } from './store.js';
+
+/**
+ * Default maximum characters of tool output per response
+ */
+export const DEFAULT_CHARACTER_LIMIT = 50000;
+
+/**
+ * How long truncated output stays retrievable, in seconds
+ */
+export const CONTINUATION_TTL_SECONDS = 900;
+
+/**
+ * Output limiting configuration
+ */
+export interface OutputOptions {
+  /** Maximum characters of tool output per response */
+  characterLimit: number;
+
+  /** Where truncated output is kept for cloudflare_get_more */
+  store: KeyValueStore;
+
+  /** Tenant identity; continuation tokens only resolve for the tenant that created them */
+  scope: string;
+
+  /** Tenant rate limiter whose remaining budget is reported with each response */
+  rateLimiter?: TokenBucketRateLimiter;
+
+  /** Session whose pinned format applies to tools called without format */
+  session?: SessionStore;
+}
+
+/**
+ * A chunk of output, plus the token for the next chunk when more remains
+ */
+export interface OutputChunk {
+  text: string;
+  continuationToken?: string;
+  offset: number;
+  totalLength: number;
+}
+
+/**
+ * Truncate text to the character limit, storing the full text for continuation
+ */
+export async function limitOutput(text: string, options: OutputOptions): Promise<OutputChunk> {
+  if (text.length <= options.characterLimit) {
+    return { text, offset: 0, totalLength: text.length };
+  }
+
+  const id = crypto.randomUUID();
+  await options.store.put(await storeKey(options.scope, id), text, {
+    expirationTtl: CONTINUATION_TTL_SECONDS,
+  });
+  return sliceChunk(text, id, 0, options.characterLimit);
+}
+
+/**
+ * Fetch the chunk a continuation token points at.
+ * Returns undefined when the token is malformed, expired, or from another tenant.
+ */
+export async function readContinuation(
+  token: string,
+  options: OutputOptions
+): Promise<OutputChunk | undefined> {
+  const match = /^([0-9a-f-]{36})\.(\d+)$/.exec(token);
+  if (!match) return undefined;
+
+  const [, id, offsetText] = match;
+  const text = await options.store.get(await storeKey(options.scope, id));
+  const offset = parseInt(offsetText, 10);
+  if (text === null || offset >= text.length) return undefined;
+
+  return sliceChunk(text, id, offset, options.characterLimit);
+}
+
+/**
+ * Describe where a chunk sits in the full output and how to get the rest
+ */
+export function formatContinuationNotice(chunk: OutputChunk): string {
+  const end = chunk.offset + chunk.text.length;
+  const position = `characters ${chunk.offset + 1}-${end} of ${chunk.totalLength}`;
+  if (!chunk.continuationToken) {
+    return `[End of output: ${position}]`;
+  }
+  return `[Output truncated: ${position}. Call cloudflare_get_more with continuation_token "${chunk.continuationToken}" for the next chunk.]`;
+}
+
+/**
+ * Cut a chunk starting at offset, preferring to end on a line boundary
+ */
+function sliceChunk(text: string, id: string, offset: number, limit: number): OutputChunk {
+  let end = Math.min(offset + limit, text.length);
+  if (end < text.length) {
+    const newline = text.lastIndexOf('\n', end - 1);
+    if (newline > offset + limit / 2) {
+      end = newline + 1;
+    }
+  }
+
+  return {
+    text: text.slice(offset, end),
+    continuationToken: end < text.length ? `${id}.${end}` : undefined,
+    offset,
+    totalLength: text.length,
+  };
+}
+
+/**
+ * Build the store key for a continuation
+ */
+async function storeKey(scope: string, id: string): Promise<string> {
+  return `continuation:${await hashScope(scope)}:${id}`;
+}
@@ -5,6 +5,7 @@
  */
 
 import type { PaginatedResponse, PaginationParams, ResultInfo } from '../types/cloudflare.js';
+import { DEFAULT_CHARACTER_LIMIT } from './output.js';
 
 /**
  * Default pagination settings
@@ -15,16 +16,58 @@ export const PAGINATION_DEFAULTS = {
   maxPerPage: 100,
 } as const;
 
+/**
+ * Operator-configured page sizes (from DEFAULT_PAGE_SIZE / MAX_PAGE_SIZE)
+ */
+export interface PageSizeLimits {
+  /** Page size used when a request doesn't ask for one */
+  defaultPerPage: number;
+
+  /** Largest page size a request may ask for */
+  maxPerPage: number;
+}
+
+/**
+ * Fill in missing page size limits, keeping the default within 1..max
+ */
+export function resolvePageSizeLimits(limits: Partial<PageSizeLimits> = {}): PageSizeLimits {
+  const maxPerPage = Math.max(1, limits.maxPerPage ?? PAGINATION_DEFAULTS.maxPerPage);
+  const defaultPerPage = Math.min(
+    Math.max(1, limits.defaultPerPage ?? PAGINATION_DEFAULTS.per_page),
+    maxPerPage
+  );
+  return { defaultPerPage, maxPerPage };
+}
+
+/**
+ * Limits applied when aggregating every page of a list ("fetch all" mode)
+ */
+export const FETCH_ALL_DEFAULTS = {
+  maxItems: 1000,
+  characterLimit: DEFAULT_CHARACTER_LIMIT,
+} as const;
+
+/**
+ * Page size for fetch-all mode: the largest allowed, but no more than maxItems,
+ * so that collectAll never has to cut a page short
+ */
+export function fetchAllPageSize(
+  limits: PageSizeLimits,
+  maxItems: number = FETCH_ALL_DEFAULTS.maxItems
+): number {
+  return Math.min(limits.maxPerPage, maxItems);
+}
+
 /**
  * Normalize pagination parameters
  */
 export function normalizePaginationParams(
   params?: PaginationParams,
-  maxPerPage = PAGINATION_DEFAULTS.maxPerPage
+  limits: PageSizeLimits = resolvePageSizeLimits()
 ): Required<PaginationParams> {
   return {
     page: params?.page || PAGINATION_DEFAULTS.page,
-    per_page: Math.min(params?.per_page || PAGINATION_DEFAULTS.per_page, maxPerPage),
+    per_page: Math.min(params?.per_page || limits.defaultPerPage, limits.maxPerPage),
   };
 }
 
@@ -67,10 +110,94 @@ export function createPaginatedResponse<T>(
 /**
  * Build query string from pagination params
  */
-export function buildPaginationQuery(params?: PaginationParams): URLSearchParams {
-  const normalized = normalizePaginationParams(params);
+export function buildPaginationQuery(
+  params?: PaginationParams,
+  limits?: PageSizeLimits
+): URLSearchParams {
+  const normalized = normalizePaginationParams(params, limits);
   const queryParams = new URLSearchParams();
   queryParams.set('page', String(normalized.page));
   queryParams.set('per_page', String(normalized.per_page));
   return queryParams;
 }
+
+/**
+ * One page of a list, and where the next one starts: a page number for
+ * result_info lists, a cursor for KV. Neither is set on the last page.
+ */
+export interface ListPage<T> {
+  items: T[];
+  nextPage?: number;
+  cursor?: string;
+}
+
+/**
+ * Iterate the pages of a paged list from firstPage, following result_info
+ * until the last page
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<PaginatedResponse<T>>,
+  firstPage = 1
+): AsyncGenerator<ListPage<T>> {
+  for (let page = firstPage; ; page++) {
+    const result = await fetchPage(page);
+    const last = !result.hasMore || result.items.length === 0;
+    yield { items: result.items, nextPage: last ? undefined : page + 1 };
+    if (last) {
+      return;
+    }
+  }
+}
+
+/**
+ * Collect the pages of a list into a single response.
+ *
+ * Stops early (with hasMore set) after maxItems, or before the serialized items
+ * would exceed characterLimit, so large accounts can't produce unbounded output.
+ * It only stops between pages, and returns the nextPage or cursor of the first
+ * page left out, so the caller can carry on from there. The first page is
+ * always kept whole, so pages should hold at most maxItems items (see
+ * fetchAllPageSize). Stopping early ends the iterator, so no further pages are
+ * requested.
+ */
+export async function collectAll<T>(
+  pages: AsyncIterable<ListPage<T>>,
+  maxItems: number = FETCH_ALL_DEFAULTS.maxItems,
+  characterLimit: number = FETCH_ALL_DEFAULTS.characterLimit
+): Promise<PaginatedResponse<T>> {
+  const collected: T[] = [];
+  let size = 0;
+  let lastPage: ListPage<T> | undefined;
+
+  for await (const page of pages) {
+    const pageSize = page.items.reduce((total, item) => total + itemSize(item), 0);
+    if (
+      lastPage &&
+      (collected.length + page.items.length > maxItems || size + pageSize > characterLimit)
+    ) {
+      break;
+    }
+    collected.push(...page.items);
+    size += pageSize;
+    lastPage = page;
+    if (collected.length >= maxItems || size >= characterLimit) {
+      break;
+    }
+  }
+
+  const hasMore = lastPage?.nextPage !== undefined || lastPage?.cursor !== undefined;
+  return {
+    items: collected,
+    count: collected.length,
+    hasMore,
+    ...(hasMore && { nextPage: lastPage?.nextPage, cursor: lastPage?.cursor }),
+  };
+}
+
+/**
+ * An item's size as it appears in the formatted response: nested two levels deep
+ */
+function itemSize(item: unknown): number {
+  const text = JSON.stringify(item, null, 2);
+  return text.length + 4 * text.split('\n').length + 2;
+}
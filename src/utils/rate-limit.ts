@@ -0,0 +1,178 @@
+/**
+ * Rate Limiting Utilities
+ *
+ * Client-side token bucket that keeps each tenant under Cloudflare's per-token
+ * API rate limit (1200 requests per 5 minutes). Bucket state is kept in a
+ * shared store under a hash of the tenant credential, so every request for the
+ * same tenant draws from the same budget.
+ *
+ * KV is eventually consistent and has no compare-and-swap, so concurrent
+ * isolates can overspend slightly; the upstream 429 handling remains the backstop.
+ */
+
+import { RateLimitError } from './errors.js';
+import { sleep } from './retry.js';
+import { hashScope, type KeyValueStore } from './store.js';
+
+/**
+ * Token bucket configuration
+ */
+export interface RateLimitOptions {
+  /** Requests allowed per window, and the bucket's capacity */
+  capacity: number;
+
+  /** Time for an empty bucket to refill completely, in seconds */
+  windowSeconds: number;
+
+  /** Longest a call queues for a token before it is rejected, in milliseconds */
+  maxWaitMs: number;
+}
+
+/**
+ * Default limits, matching Cloudflare's per-token API rate limit
+ */
+export const RATE_LIMIT_DEFAULTS: RateLimitOptions = {
+  capacity: 1200,
+  windowSeconds: 300,
+  maxWaitMs: 5000,
+};
+
+/**
+ * A tenant's remaining API budget
+ */
+export interface RateLimitStatus {
+  /** Requests allowed per window */
+  limit: number;
+
+  /** Requests that can be made right now */
+  remaining: number;
+
+  /** Seconds until the budget is fully replenished */
+  resetSeconds: number;
+}
+
+/**
+ * Persisted bucket state
+ */
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * KV rejects expiration TTLs under 60 seconds
+ */
+const MIN_STATE_TTL_SECONDS = 60;
+
+/**
+ * Per-tenant token bucket backed by a shared key-value store
+ */
+export class TokenBucketRateLimiter {
+  private store: KeyValueStore;
+  private scope: string;
+  private options: RateLimitOptions;
+
+  /** Budget observed by the most recent acquire or drain */
+  status?: RateLimitStatus;
+
+  constructor(store: KeyValueStore, scope: string, options: Partial<RateLimitOptions> = {}) {
+    this.store = store;
+    this.scope = scope;
+    this.options = { ...RATE_LIMIT_DEFAULTS, ...options };
+  }
+
+  /**
+   * Take one token, queueing up to maxWaitMs for the bucket to refill.
+   * Throws a non-retryable RateLimitError when the wait would be longer, so
+   * withRetry doesn't wait again, and CancelledError if the signal aborts
+   * while queued.
+   */
+  async acquire(signal?: AbortSignal): Promise<RateLimitStatus> {
+    const key = await this.storeKey();
+    const deadline = Date.now() + this.options.maxWaitMs;
+
+    for (;;) {
+      const now = Date.now();
+      const bucket = this.refill(await this.read(key, now), now);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        await this.write(key, bucket);
+        return this.observe(bucket);
+      }
+
+      this.observe(bucket);
+      const waitMs = Math.ceil((1 - bucket.tokens) / this.refillPerMs());
+      if (now + waitMs > deadline) {
+        const { capacity, windowSeconds } = this.options;
+        throw new RateLimitError(
+          `Client-side rate limit reached (${capacity} requests per ${windowSeconds}s per credential)`,
+          Math.ceil(waitMs / 1000),
+          false
+        );
+      }
+      await sleep(waitMs, signal);
+    }
+  }
+
+  /**
+   * Empty the bucket, e.g. after Cloudflare answers 429, so other requests for
+   * the tenant back off instead of spending their attempts on more 429s
+   */
+  async drain(): Promise<void> {
+    const bucket = { tokens: 0, updatedAt: Date.now() };
+    await this.write(await this.storeKey(), bucket);
+    this.observe(bucket);
+  }
+
+  private refillPerMs(): number {
+    return this.options.capacity / (this.options.windowSeconds * 1000);
+  }
+
+  private refill(bucket: BucketState, now: number): BucketState {
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    return {
+      tokens: Math.min(this.options.capacity, bucket.tokens + elapsed * this.refillPerMs()),
+      updatedAt: now,
+    };
+  }
+
+  private observe(bucket: BucketState): RateLimitStatus {
+    const missing = this.options.capacity - bucket.tokens;
+    this.status = {
+      limit: this.options.capacity,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: Math.ceil(missing / this.refillPerMs() / 1000),
+    };
+    return this.status;
+  }
+
+  private async read(key: string, now: number): Promise<BucketState> {
+    const raw = await this.store.get(key);
+    if (raw) {
+      try {
+        const state = JSON.parse(raw) as BucketState;
+        if (typeof state.tokens === 'number' && typeof state.updatedAt === 'number') {
+          return state;
+        }
+      } catch {
+        // Corrupt state: start over with a full bucket
+      }
+    }
+    return { tokens: this.options.capacity, updatedAt: now };
+  }
+
+  private async write(key: string, bucket: BucketState): Promise<void> {
+    try {
+      await this.store.put(key, JSON.stringify(bucket), {
+        expirationTtl: Math.max(MIN_STATE_TTL_SECONDS, this.options.windowSeconds),
+      });
+    } catch {
+      // KV allows one write per key per second; losing a write only makes the
+      // shared budget slightly optimistic, so it must not fail the API call
+    }
+  }
+
+  private async storeKey(): Promise<string> {
+    return `ratelimit:${await hashScope(this.scope)}`;
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Response Cache Utilities
+ *
+ * Read-through cache for slow-changing GET endpoints, keyed by a hash of the
+ * tenant credential plus the endpoint. Entries are grouped by the zone or
+ * account they belong to; a mutation bumps its group's generation, which
+ * orphans every cached read in the group (KV can't delete by prefix).
+ *
+ * KV is eventually consistent, so an invalidation can take up to a minute to
+ * reach other locations.
+ */
+
+import { hashScope, type KeyValueStore } from './store.js';
+
+/**
+ * Resources whose reads can be cached
+ */
+export type CachedResource =
+  | 'accounts'
+  | 'zones'
+  | 'zone_settings'
+  | 'dns_records'
+  | 'firewall_rules'
+  | 'waf'
+  | 'load_balancers'
+  | 'ssl_certificates';
+
+/**
+ * Default cache lifetime per resource, in seconds
+ */
+export const RESPONSE_CACHE_TTLS: Record<CachedResource, number> = {
+  accounts: 300,
+  zones: 300,
+  zone_settings: 300,
+  dns_records: 60,
+  firewall_rules: 120,
+  waf: 3600,
+  load_balancers: 120,
+  ssl_certificates: 600,
+};
+
+/**
+ * Endpoint paths (without query string) served from the cache
+ */
+const CACHE_RULES: Array<{ resource: CachedResource; pattern: RegExp }> = [
+  { resource: 'accounts', pattern: /^\/accounts(\/[^/]+(\/members)?)?$/ },
+  { resource: 'zones', pattern: /^\/zones(\/[^/]+)?$/ },
+  { resource: 'zone_settings', pattern: /^\/zones\/[^/]+\/settings(\/[^/]+)?$/ },
+  { resource: 'dns_records', pattern: /^\/zones\/[^/]+\/dns_records(\/[^/]+)?$/ },
+  { resource: 'firewall_rules', pattern: /^\/zones\/[^/]+\/(firewall\/rules|filters)(\/[^/]+)?$/ },
+  { resource: 'waf', pattern: /^\/zones\/[^/]+\/firewall\/waf\/packages(\/.*)?$/ },
+  { resource: 'load_balancers', pattern: /^\/zones\/[^/]+\/load_balancers(\/[^/]+)?$/ },
+  { resource: 'ssl_certificates', pattern: /^\/zones\/[^/]+\/ssl\/certificate_packs$/ },
+];
+
+/**
+ * KV rejects expiration TTLs under 60 seconds
+ */
+const MIN_TTL_SECONDS = 60;
+
+/**
+ * Read-through cache for one tenant's API responses
+ */
+export class ResponseCache {
+  private store: KeyValueStore;
+  private scope: string;
+  private ttls: Record<CachedResource, number>;
+
+  constructor(
+    store: KeyValueStore,
+    scope: string,
+    ttls: Partial<Record<CachedResource, number>> = {}
+  ) {
+    this.store = store;
+    this.scope = scope;
+    this.ttls = { ...RESPONSE_CACHE_TTLS, ...ttls };
+  }
+
+  /**
+   * Return the cached value for a GET endpoint, loading and storing it on a miss.
+   * Endpoints without a cache rule always call load.
+   */
+  async read<T>(endpoint: string, load: () => Promise<T>): Promise<T> {
+    const ttl = this.ttlFor(endpoint);
+    if (!ttl) {
+      return load();
+    }
+
+    const key = await this.entryKey(endpoint);
+    const cached = await this.store.get(key);
+    if (cached !== null) {
+      return JSON.parse(cached) as T;
+    }
+
+    const value = await load();
+    await this.store.put(key, JSON.stringify(value), { expirationTtl: ttl });
+    return value;
+  }
+
+  /**
+   * Invalidate every cached read related to a mutated endpoint: the zone or
+   * account it belongs to, plus the top-level list when the zone or account
+   * itself was created, changed or deleted
+   */
+  async invalidate(endpoint: string): Promise<void> {
+    const hash = await hashScope(this.scope);
+    const generation = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    await Promise.all(
+      mutationGroups(endpoint).map((group) =>
+        this.store.put(`${generationPrefix(hash)}${group}`, generation, {
+          expirationTtl: this.maxTtl(),
+        })
+      )
+    );
+  }
+
+  private ttlFor(endpoint: string): number | undefined {
+    const path = endpointPath(endpoint);
+    const rule = CACHE_RULES.find(({ pattern }) => pattern.test(path));
+    return rule && Math.max(MIN_TTL_SECONDS, this.ttls[rule.resource]);
+  }
+
+  /**
+   * Generations must outlive every entry written before them, so that an
+   * expired generation can't resurrect stale entries
+   */
+  private maxTtl(): number {
+    return Math.max(MIN_TTL_SECONDS, ...Object.values(this.ttls));
+  }
+
+  private async entryKey(endpoint: string): Promise<string> {
+    const hash = await hashScope(this.scope);
+    const group = readGroup(endpoint);
+    const generation = (await this.store.get(`${generationPrefix(hash)}${group}`)) ?? '0';
+    return `cache:${hash}:${group}@${generation}:${endpoint}`;
+  }
+}
+
+function generationPrefix(hash: string): string {
+  return `cache:${hash}:generation:`;
+}
+
+function endpointPath(endpoint: string): string {
+  return endpoint.split('?')[0];
+}
+
+/**
+ * The zone or account an endpoint belongs to, e.g. "zones/<id>", or the
+ * top-level collection ("zones") for list endpoints
+ */
+function readGroup(endpoint: string): string {
+  return endpointPath(endpoint).split('/').filter(Boolean).slice(0, 2).join('/');
+}
+
+function mutationGroups(endpoint: string): string[] {
+  const segments = endpointPath(endpoint).split('/').filter(Boolean);
+  const groups = [readGroup(endpoint)];
+  if (segments.length === 2) {
+    groups.push(segments[0]);
+  }
+  return groups;
+}
@@ -0,0 +1,110 @@
+/**
+ * Retry Utilities
+ *
+ * Helpers for retrying transient Cloudflare API failures with backoff.
+ */
+
+import { CancelledError, isRetryableError, RateLimitError } from './errors.js';
+
+/**
+ * Retry configuration
+ */
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+
+  /** Base delay for exponential backoff, in milliseconds */
+  baseDelayMs: number;
+
+  /** Upper bound for any single delay, in milliseconds */
+  maxDelayMs: number;
+}
+
+/**
+ * Default retry settings
+ */
+export const RETRY_DEFAULTS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Upper bound for RetryOptions.maxRetries, whatever the caller asks for
+ */
+export const MAX_RETRIES = 10;
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * Rate limit errors wait for the server-provided Retry-After, up to
+ * maxDelayMs; everything else, including 429s without a usable Retry-After,
+ * uses exponential backoff with full jitter.
+ */
+export function computeRetryDelay(error: unknown, attempt: number, options: RetryOptions): number {
+  if (error instanceof RateLimitError && error.retryAfterSeconds !== undefined) {
+    return Math.min(error.retryAfterSeconds * 1000, options.maxDelayMs);
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header, given as seconds or as an HTTP date, into
+ * seconds from now. Returns undefined when it is missing or unparseable.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+/**
+ * Sleep for the given number of milliseconds, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an operation, retrying failures shouldRetry accepts (by default, every
+ * retryable one) until the budget is spent. Aborting the signal stops any
+ * pending backoff.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = RETRY_DEFAULTS,
+  signal?: AbortSignal,
+  shouldRetry: (error: unknown) => boolean = isRetryableError
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.maxRetries || !shouldRetry(error)) {
+        throw error;
+      }
+
+      await sleep(computeRetryDelay(error, attempt, options), signal);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Session State
+ *
+ * State a conversation accumulates across tool calls: the account, zone and
+ * output format pinned with cloudflare_set_context, and the discovered default
+ * account. Durable Object sessions persist it in the agent's state. The
+ * stateless server keeps it for one request, so it is handed to the client as
+ * a signed session token and read back from the X-CF-Session header.
+ */
+
+import type { ResponseFormat } from '../types/cloudflare.js';
+import { HmacSigner } from './signing.js';
+import { hashScope } from './store.js';
+
+export interface SessionState {
+  /** Account that account-scoped tools use when account_id is omitted */
+  accountId?: string;
+
+  /** Zone that zone-scoped tools use when zone_id is omitted */
+  zoneId?: string;
+
+  /** Output format of tools called without format */
+  format?: ResponseFormat;
+
+  /**
+   * The only account the credentials can access, found when no account was
+   * given. Kept apart from accountId, which only cloudflare_set_context pins.
+   */
+  discoveredAccountId?: string;
+}
+
+export interface SessionStore {
+  get(): SessionState;
+  update(changes: Partial<SessionState>): void;
+}
+
+/**
+ * Session state held in memory, for servers that live for a single request
+ */
+export class MemorySessionStore implements SessionStore {
+  private state: SessionState;
+
+  constructor(initial: SessionState = {}) {
+    this.state = initial;
+  }
+
+  get(): SessionState {
+    return this.state;
+  }
+
+  update(changes: Partial<SessionState>): void {
+    this.state = { ...this.state, ...changes };
+  }
+}
+
+/**
+ * Default session token lifetime, in seconds (7 days)
+ */
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Signed token contents
+ */
+interface SessionClaims {
+  state: SessionState;
+  scope: string;
+  exp: number;
+}
+
+/**
+ * Issues and reads session tokens for one tenant. Tokens are bound to the
+ * credential, so another tenant's token reads as no session.
+ */
+export class SessionTokens {
+  private signer: HmacSigner;
+  private scope: string;
+  private ttlSeconds: number;
+
+  constructor(secret: string | undefined, scope: string, ttlSeconds = SESSION_TTL_SECONDS) {
+    this.signer = new HmacSigner(secret);
+    this.scope = scope;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  async issue(state: SessionState): Promise<{ token: string; expiresAt: string }> {
+    const exp = Math.floor(Date.now() / 1000) + this.ttlSeconds;
+    const claims: SessionClaims = { state, scope: await hashScope(this.scope), exp };
+    return {
+      token: await this.signer.sign(claims),
+      expiresAt: new Date(exp * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * The state in a token; undefined when it is invalid, expired or was issued
+   * for other credentials
+   */
+  async read(token: string): Promise<SessionState | undefined> {
+    const claims = await this.signer.verify<SessionClaims>(token);
+    if (
+      !claims ||
+      claims.exp * 1000 <= Date.now() ||
+      claims.scope !== (await hashScope(this.scope))
+    ) {
+      return undefined;
+    }
+    return claims.state;
+  }
+}
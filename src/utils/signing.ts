@@ -0,0 +1,84 @@
+/**
+ * Signing Utilities
+ *
+ * Compact HMAC-SHA256 signed tokens ("payload.signature", both base64url) for
+ * state the server hands to clients and reads back, such as confirmation and
+ * session tokens. Payloads are signed, not encrypted.
+ */
+
+/**
+ * Signing key used when no secret is configured. Generated on first use:
+ * Workers don't allow random values at global scope.
+ */
+let isolateSecret: string | undefined;
+
+/**
+ * Signs and verifies JSON payloads with one secret. Without a secret, tokens
+ * are signed with a per-isolate key and only verify in the isolate that signed them.
+ */
+export class HmacSigner {
+  private secret?: string;
+  private key?: Promise<CryptoKey>;
+
+  constructor(secret?: string) {
+    this.secret = secret;
+  }
+
+  async sign(payload: object): Promise<string> {
+    const encoded = encodeBase64Url(encode(JSON.stringify(payload)));
+    const signature = await crypto.subtle.sign('HMAC', await this.signingKey(), encode(encoded));
+    return `${encoded}.${encodeBase64Url(new Uint8Array(signature))}`;
+  }
+
+  /**
+   * The payload of a token signed with this key; undefined when the token is
+   * malformed or its signature doesn't match
+   */
+  async verify<T>(token: string): Promise<T | undefined> {
+    const [payload, signature, extra] = token.split('.');
+    if (!payload || !signature || extra !== undefined) return undefined;
+
+    try {
+      const valid = await crypto.subtle.verify(
+        'HMAC',
+        await this.signingKey(),
+        decodeBase64Url(signature),
+        encode(payload)
+      );
+      if (!valid) return undefined;
+      return JSON.parse(new TextDecoder().decode(decodeBase64Url(payload))) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private signingKey(): Promise<CryptoKey> {
+    if (!this.key) {
+      isolateSecret ??= crypto.randomUUID();
+      this.key = crypto.subtle.importKey(
+        'raw',
+        encode(this.secret || isolateSecret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+      );
+    }
+    return this.key;
+  }
+}
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+export function encodeBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
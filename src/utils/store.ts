@@ -0,0 +1,72 @@
+/**
+ * Key-Value Store Utilities
+ *
+ * Storage shared across requests for per-tenant state (continuations, rate
+ * limit buckets). Backed by the CACHE_KV binding when it is bound, otherwise
+ * by isolate memory.
+ */
+
+/**
+ * Minimal key-value storage.
+ * A KVNamespace (e.g. the CACHE_KV binding) satisfies this interface.
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory store, used when no KV binding is configured.
+ * Only visible to the isolate that wrote it; evicts the oldest entries past maxEntries.
+ * Like KV, entries put without expirationTtl don't expire.
+ */
+export class MemoryKeyValueStore implements KeyValueStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+  private maxEntries: number;
+
+  constructor(maxEntries = 100) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void> {
+    const ttl = options?.expirationTtl;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl * 1000 : Infinity });
+
+    // Map iteration is insertion-ordered, so the first key is the oldest
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Hex-encoded SHA-256 digest of a string
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash a tenant scope for use in store keys, so no credential material ends up in key names
+ */
+export async function hashScope(scope: string): Promise<string> {
+  return (await sha256Hex(scope)).slice(0, 32);
+}
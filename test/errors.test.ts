@@ -0,0 +1,354 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { FAKE_IDS, FakeCloudflareApi } from '../src/testing/fake-api.js';
+import { MAX_RETRIES } from '../src/utils/retry.js';
+import { createHarness, type Harness } from './helpers.js';
+
+const zone = FAKE_IDS.zone;
+
+describe('API error handling', () => {
+  let harness: Harness | undefined;
+
+  afterEach(async () => {
+    await harness?.close();
+    harness = undefined;
+  });
+
+  it('reports a missing or rejected token as an authentication error', async () => {
+    harness = await createHarness({ fake: new FakeCloudflareApi({ apiToken: 'other-token' }) });
+    const result = await harness.call('cloudflare_get_zone', { zone_id: zone });
+
+    expect(result.isError).toBe(true);
+    expect(result.json()).toMatchObject({
+      details: { name: 'AuthenticationError', code: 'AUTHENTICATION_FAILED', statusCode: 401 },
+    });
+  });
+
+  it('treats 403 from a valid token as a missing permission', async () => {
+    harness = await createHarness();
+    harness.fake.failNext({
+      status: 403,
+      errors: [{ code: 9109, message: 'Unauthorized to access requested resource' }],
+    });
+    const result = await harness.call('cloudflare_list_zones');
+
+    expect(result.json()).toMatchObject({
+      hint: expect.stringContaining('permission'),
+      details: { name: 'PermissionError', code: 'PERMISSION_DENIED', statusCode: 403 },
+    });
+  });
+
+  it('treats 403 with invalid credential codes as an authentication error', async () => {
+    harness = await createHarness();
+    harness.fake.failNext({
+      status: 403,
+      errors: [{ code: 9103, message: 'Unknown X-Auth-Key or X-Auth-Email' }],
+    });
+    const result = await harness.call('cloudflare_list_zones');
+
+    expect(result.json()).toMatchObject({ details: { name: 'AuthenticationError' } });
+  });
+
+  it('maps not-found codes to NotFoundError with every Cloudflare error', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_get_zone', { zone_id: 'missing' });
+
+    expect(result.isError).toBe(true);
+    expect(result.json()).toMatchObject({
+      error: expect.stringContaining('Could not route'),
+      hint: expect.stringContaining('cloudflare_list_zones'),
+      details: {
+        name: 'NotFoundError',
+        code: 'NOT_FOUND',
+        retryable: false,
+        errors: [{ code: 7003 }],
+      },
+    });
+  });
+
+  it('maps errors from raw (non-JSON) endpoints', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_get_kv_value', {
+      account_id: FAKE_IDS.account,
+      namespace_id: FAKE_IDS.kvNamespace,
+      key: 'missing',
+    });
+
+    expect(result.json()).toMatchObject({
+      details: { name: 'NotFoundError', errors: [{ code: 10009 }] },
+    });
+  });
+
+  it('maps "already exists" errors to ConflictError', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_create_kv_namespace', {
+      account_id: FAKE_IDS.account,
+      title: 'SESSIONS',
+    });
+
+    expect(result.json()).toMatchObject({
+      hint: expect.stringContaining('already exists'),
+      details: { name: 'ConflictError', code: 'CONFLICT', errors: [{ code: 10014 }] },
+    });
+  });
+
+  it('maps plan restrictions to PlanRestrictedError', async () => {
+    harness = await createHarness();
+    harness.fake.failNext({
+      status: 403,
+      errors: [{ code: 1007, message: 'Load Balancing is not entitled on your plan' }],
+    });
+    const result = await harness.call('cloudflare_list_load_balancers', { zone_id: zone });
+
+    expect(result.json()).toMatchObject({
+      details: { name: 'PlanRestrictedError', code: 'PLAN_RESTRICTED' },
+    });
+  });
+
+  it('maps other client errors to ValidationError with field details', async () => {
+    harness = await createHarness();
+    harness.fake.failNext({
+      status: 400,
+      errors: [
+        {
+          code: 1004,
+          message: 'DNS Validation Error',
+          error_chain: [
+            {
+              code: 9005,
+              message: 'Content for A record is invalid',
+              source: { pointer: '/content' },
+            },
+          ],
+        },
+      ],
+    });
+    const result = await harness.call('cloudflare_create_dns_record', {
+      zone_id: zone,
+      type: 'A',
+      name: 'bad',
+      content: 'not-an-ip',
+    });
+
+    expect(result.json()).toMatchObject({
+      error: 'Error: DNS Validation Error; Content for A record is invalid',
+      details: {
+        name: 'ValidationError',
+        details: { '/content': ['Content for A record is invalid'] },
+      },
+    });
+  });
+
+  it('reports rate limiting with the Retry-After value when retries are exhausted', async () => {
+    harness = await createHarness();
+    harness.fake.failNext({ status: 429, headers: { 'Retry-After': '12' } });
+    const result = await harness.call('cloudflare_list_zones');
+
+    expect(result.json()).toMatchObject({
+      error: expect.stringContaining('(retryable)'),
+      details: { name: 'RateLimitError', retryAfterSeconds: 12 },
+    });
+  });
+
+  it('retries rate-limited and 5xx responses before succeeding', async () => {
+    harness = await createHarness({ clientOptions: { retry: { maxRetries: 2, baseDelayMs: 1 } } });
+    harness.fake.failNext({ status: 429, headers: { 'Retry-After': '0' } });
+    harness.fake.failNext({ status: 503, body: 'upstream unavailable' });
+    const result = await harness.call('cloudflare_list_zones');
+
+    expect(result.isError).toBe(false);
+    expect(harness.fake.requests.filter((r) => r.path === '/zones')).toHaveLength(3);
+  });
+
+  it('retries rate limits without a usable Retry-After, and caps long waits', async () => {
+    harness = await createHarness({
+      clientOptions: { retry: { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 5 } },
+    });
+    harness.fake.failNext({ status: 429 });
+    harness.fake.failNext({ status: 429, headers: { 'Retry-After': 'not-a-number' } });
+    harness.fake.failNext({ status: 429, headers: { 'Retry-After': '3600' } });
+    const result = await harness.call('cloudflare_list_zones');
+
+    expect(result.isError).toBe(false);
+    expect(harness.fake.requests.filter((r) => r.path === '/zones')).toHaveLength(4);
+  });
+
+  it('caps the retry budget', async () => {
+    harness = await createHarness({
+      clientOptions: { retry: { maxRetries: 1000, baseDelayMs: 0 } },
+    });
+    harness.fake.failNext({ status: 503, body: 'upstream unavailable' }, { times: 20 });
+    await harness.call('cloudflare_list_zones');
+
+    expect(harness.fake.requests).toHaveLength(MAX_RETRIES + 1);
+  });
+
+  it('retries writes on rate limits but not on 5xx or network errors', async () => {
+    harness = await createHarness({ clientOptions: { retry: { maxRetries: 2, baseDelayMs: 1 } } });
+    const args = { zone_id: zone, type: 'A', name: 'www', content: '192.0.2.1' };
+    const creates = () =>
+      harness?.fake.requests.filter((r) => r.method === 'POST' && r.path.endsWith('/dns_records'));
+
+    harness.fake.failNext({ status: 503, body: 'upstream unavailable' });
+    expect((await harness.call('cloudflare_create_dns_record', args)).isError).toBe(true);
+    expect(creates()).toHaveLength(1);
+
+    harness.fake.failNext({ status: 429, headers: { 'Retry-After': '0' } });
+    expect((await harness.call('cloudflare_create_dns_record', args)).isError).toBe(false);
+    expect(creates()).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    harness = await createHarness({ clientOptions: { retry: { maxRetries: 2, baseDelayMs: 1 } } });
+    harness.fake.failNext({ status: 400, errors: [{ code: 1004, message: 'Invalid record' }] });
+    const result = await harness.call('cloudflare_create_dns_record', {
+      zone_id: zone,
+      type: 'A',
+      name: 'bad',
+      content: 'not-an-ip',
+    });
+
+    expect(result.json()).toMatchObject({ error: 'Error: Invalid record' });
+    expect(harness.fake.requests).toHaveLength(1);
+  });
+
+  it('reports transport failures as network errors', async () => {
+    harness = await createHarness({
+      clientOptions: { fetch: () => Promise.reject(new TypeError('connection refused')) },
+    });
+    const result = await harness.call('cloudflare_list_zones');
+
+    expect(result.json()).toMatchObject({
+      details: { name: 'NetworkError', code: 'NETWORK_ERROR', retryable: true },
+    });
+  });
+});
+
+describe('timeouts and cancellation', () => {
+  let harness: Harness | undefined;
+
+  afterEach(async () => {
+    await harness?.close();
+    harness = undefined;
+  });
+
+  /** A transport that never responds, recording the abort reason of each request */
+  function hangingTransport(aborts: unknown[]) {
+    return (_input: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          aborts.push(init.signal?.reason);
+          reject(init.signal?.reason);
+        });
+      });
+  }
+
+  it('times out hung requests', async () => {
+    const aborts: unknown[] = [];
+    harness = await createHarness({
+      clientOptions: { fetch: hangingTransport(aborts), timeoutMs: 20 },
+    });
+    const result = await harness.call('cloudflare_list_zones');
+
+    expect(result.json()).toMatchObject({
+      error: 'Error: Request timed out after 20ms (retryable)',
+      details: { name: 'TimeoutError', code: 'TIMEOUT' },
+    });
+    expect(aborts).toHaveLength(1);
+  });
+
+  it('retries timed-out reads but not timed-out writes', async () => {
+    const aborts: unknown[] = [];
+    harness = await createHarness({
+      clientOptions: {
+        fetch: hangingTransport(aborts),
+        timeoutMs: 20,
+        retry: { maxRetries: 2, baseDelayMs: 1 },
+      },
+    });
+
+    await harness.call('cloudflare_list_zones');
+    expect(aborts).toHaveLength(3);
+
+    const result = await harness.call('cloudflare_query_d1_database', {
+      account_id: FAKE_IDS.account,
+      database_id: FAKE_IDS.d1Database,
+      sql: 'INSERT INTO users (email) VALUES (?)',
+      params: '["user@example.com"]',
+    });
+    expect(result.json()).toMatchObject({ details: { name: 'TimeoutError' } });
+    expect(aborts).toHaveLength(4);
+  });
+
+  it('aborts the outgoing request when the MCP caller cancels', async () => {
+    const aborts: unknown[] = [];
+    harness = await createHarness({ clientOptions: { fetch: hangingTransport(aborts) } });
+    const controller = new AbortController();
+
+    const call = harness.client.callTool(
+      { name: 'cloudflare_get_zone', arguments: { zone_id: zone } },
+      undefined,
+      { signal: controller.signal }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort('user cancelled');
+
+    await expect(call).rejects.toThrow();
+    await expect.poll(() => aborts.length).toBe(1);
+  });
+});
+
+describe('client-side rate limiting', () => {
+  let harness: Harness | undefined;
+
+  afterEach(async () => {
+    await harness?.close();
+    harness = undefined;
+  });
+
+  it('reports the remaining budget and rejects calls once it is spent', async () => {
+    harness = await createHarness({ serverOptions: { rateLimit: { capacity: 2, maxWaitMs: 0 } } });
+
+    const first = await harness.call('cloudflare_get_zone', { zone_id: zone });
+    expect(first.meta).toMatchObject({ rateLimit: { limit: 2, remaining: 1 } });
+
+    const second = await harness.call('cloudflare_get_zone', { zone_id: zone });
+    expect(second.meta).toMatchObject({ rateLimit: { remaining: 0 } });
+    expect(second.text).toContain('[Rate limit: 0 of 2 API requests left');
+
+    const third = await harness.call('cloudflare_get_zone', { zone_id: zone });
+    expect(third.json()).toMatchObject({
+      error: expect.stringContaining('Client-side rate limit reached'),
+      details: { name: 'RateLimitError' },
+    });
+    expect(harness.fake.requests).toHaveLength(2);
+  });
+
+  it('rejects calls over budget without retrying or waiting', async () => {
+    harness = await createHarness({
+      clientOptions: { retry: { maxRetries: 3 } },
+      serverOptions: { rateLimit: { capacity: 1, maxWaitMs: 0 } },
+    });
+    await harness.call('cloudflare_get_zone', { zone_id: zone });
+
+    for (const [tool, args] of [
+      ['cloudflare_get_zone', { zone_id: zone }],
+      ['cloudflare_create_kv_namespace', { account_id: FAKE_IDS.account, title: 'over-budget' }],
+    ] as const) {
+      const started = Date.now();
+      const result = await harness.call(tool, args);
+      expect(result.json()).toMatchObject({ details: { name: 'RateLimitError' } });
+      expect(Date.now() - started).toBeLessThan(1000);
+    }
+    expect(harness.fake.requests).toHaveLength(1);
+  });
+
+  it('empties the bucket when Cloudflare answers 429', async () => {
+    harness = await createHarness({ serverOptions: { rateLimit: { maxWaitMs: 0 } } });
+    harness.fake.failNext({ status: 429, headers: { 'Retry-After': '0' } });
+    await harness.call('cloudflare_list_zones');
+
+    const result = await harness.call('cloudflare_list_zones');
+    expect(result.json()).toMatchObject({ details: { name: 'RateLimitError' } });
+    expect(harness.fake.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Test Harness
+ *
+ * Builds the stateless MCP server against the in-memory fake Cloudflare API
+ * and connects an MCP client to it, so tests exercise tools over the protocol.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  type ElicitRequest,
+  ElicitRequestSchema,
+  type ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { CloudflareClientOptions } from '../src/client.js';
+import { createStatelessServer, type ServerOptions } from '../src/server.js';
+import { FakeCloudflareApi } from '../src/testing/fake-api.js';
+import type { TenantCredentials } from '../src/types/env.js';
+
+export interface ToolResult {
+  text: string;
+  isError: boolean;
+  meta?: Record<string, unknown>;
+  json<T = Record<string, unknown>>(): T;
+}
+
+export interface Harness {
+  fake: FakeCloudflareApi;
+  client: Client;
+  call(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  /** Call a tool that needs confirmation, then call it again with the returned token */
+  confirm(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  close(): Promise<void>;
+}
+
+export interface HarnessOptions {
+  fake?: FakeCloudflareApi;
+  credentials?: TenantCredentials;
+  clientOptions?: CloudflareClientOptions;
+  serverOptions?: ServerOptions;
+  /** Advertise form elicitation and answer elicitation requests with this */
+  elicit?: (params: ElicitRequest['params']) => ElicitResult;
+}
+
+export async function createHarness(options: HarnessOptions = {}): Promise<Harness> {
+  const fake = options.fake ?? new FakeCloudflareApi();
+  const server = createStatelessServer(
+    options.credentials ?? { apiToken: 'test-token' },
+    { fetch: fake.fetch, retry: { maxRetries: 0 }, ...options.clientOptions },
+    options.serverOptions
+  );
+
+  const client = new Client(
+    { name: 'test-client', version: '1.0.0' },
+    { capabilities: options.elicit ? { elicitation: { form: {} } } : {} }
+  );
+  const elicit = options.elicit;
+  if (elicit) {
+    client.setRequestHandler(ElicitRequestSchema, (request) => elicit(request.params));
+  }
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  const call: Harness['call'] = async (name, args = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as Array<{ type: string; text: string }>;
+    const text = content.map((part) => part.text).join('\n');
+    return {
+      text,
+      isError: result.isError === true,
+      meta: result._meta,
+      json: <T>() => JSON.parse(text) as T,
+    };
+  };
+
+  return {
+    fake,
+    client,
+    call,
+    async confirm(name, args = {}) {
+      const first = await call(name, args);
+      if (first.isError) return first;
+      const { confirmation_token } = first.json<{ confirmation_token: string }>();
+      return call(name, { ...args, confirmation_token });
+    },
+    async close() {
+      await client.close();
+      await server.close();
+    },
+  };
+}
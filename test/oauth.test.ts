@@ -0,0 +1,347 @@
+import { describe, expect, it } from 'vitest';
+import { OAuthServer } from '../src/auth/oauth.js';
+import { StubIdentityProvider } from '../src/testing/stub-idp.js';
+import type { TenantCredentials } from '../src/types/env.js';
+import { encodeBase64Url } from '../src/utils/signing.js';
+import { MemoryKeyValueStore } from '../src/utils/store.js';
+
+const ORIGIN = 'https://mcp.test';
+const REDIRECT_URI = 'http://localhost:3000/callback';
+const VERIFIER = 'a'.repeat(43);
+
+interface Setup {
+  idp: StubIdentityProvider;
+  oauth: OAuthServer;
+  linked: Record<string, TenantCredentials>;
+}
+
+function setup(): Setup {
+  const idp = new StubIdentityProvider();
+  const linked: Record<string, TenantCredentials> = { 'user-1': { apiToken: 'cf-token' } };
+  const oauth = new OAuthServer({
+    idp: idp.config,
+    store: new MemoryKeyValueStore(1000),
+    fetch: idp.fetch,
+    credentials: async (userId) => linked[userId],
+  });
+  return { idp, oauth, linked };
+}
+
+async function send(oauth: OAuthServer, path: string, init?: RequestInit): Promise<Response> {
+  const response = await oauth.handle(new Request(`${ORIGIN}${path}`, init));
+  if (!response) throw new Error(`No OAuth route for ${path}`);
+  return response;
+}
+
+function post(values: Record<string, string>, cookie?: string): RequestInit {
+  return {
+    method: 'POST',
+    body: new URLSearchParams(values),
+    headers: cookie ? { Cookie: cookie } : {},
+  };
+}
+
+async function challengeFor(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return encodeBase64Url(new Uint8Array(digest));
+}
+
+async function register(oauth: OAuthServer): Promise<string> {
+  const response = await send(oauth, '/register', {
+    method: 'POST',
+    body: JSON.stringify({ client_name: 'Test Client', redirect_uris: [REDIRECT_URI] }),
+  });
+  expect(response.status).toBe(201);
+  return ((await response.json()) as { client_id: string }).client_id;
+}
+
+/**
+ * Run the browser side of the flow: consent, identity provider, callback.
+ * Returns where the client's redirect URI was sent.
+ */
+async function authorize(
+  { idp, oauth }: Setup,
+  clientId: string,
+  params: Record<string, string> = {}
+): Promise<URL> {
+  const query = new URLSearchParams({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: REDIRECT_URI,
+    state: 'client-state',
+    code_challenge: await challengeFor(VERIFIER),
+    code_challenge_method: 'S256',
+    ...params,
+  });
+  const consent = await send(oauth, `/authorize?${query}`);
+  if (consent.status === 302) {
+    return new URL(consent.headers.get('Location') ?? '');
+  }
+  expect(consent.status).toBe(200);
+  const cookie = (consent.headers.get('Set-Cookie') ?? '').split(';')[0];
+  const requestId = /name="request" value="([^"]+)"/.exec(await consent.text())?.[1] ?? '';
+
+  const approved = await send(
+    oauth,
+    '/authorize',
+    post({ request: requestId, decision: 'allow' }, cookie)
+  );
+  expect(approved.status).toBe(302);
+  const signedIn = await idp.fetch(approved.headers.get('Location') ?? '');
+  const callback = new URL(signedIn.headers.get('Location') ?? '');
+  expect(callback.origin + callback.pathname).toBe(`${ORIGIN}/oauth/callback`);
+
+  const redirected = await send(oauth, `${callback.pathname}${callback.search}`, {
+    headers: { Cookie: cookie },
+  });
+  expect(redirected.status).toBe(302);
+  return new URL(redirected.headers.get('Location') ?? '');
+}
+
+interface Tokens {
+  access_token: string;
+  refresh_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+async function exchange(oauth: OAuthServer, clientId: string, code: string, verifier = VERIFIER) {
+  return send(
+    oauth,
+    '/token',
+    post({
+      grant_type: 'authorization_code',
+      code,
+      client_id: clientId,
+      redirect_uri: REDIRECT_URI,
+      code_verifier: verifier,
+    })
+  );
+}
+
+async function signIn(context: Setup): Promise<{ clientId: string; tokens: Tokens }> {
+  const clientId = await register(context.oauth);
+  const redirect = await authorize(context, clientId);
+  const response = await exchange(context.oauth, clientId, redirect.searchParams.get('code') ?? '');
+  expect(response.status).toBe(200);
+  return { clientId, tokens: (await response.json()) as Tokens };
+}
+
+function bearer(token: string): Request {
+  return new Request(`${ORIGIN}/mcp`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+describe('OAuth authorization server', () => {
+  it('serves authorization server and protected resource metadata', async () => {
+    const { oauth } = setup();
+
+    const server = (await (
+      await send(oauth, '/.well-known/oauth-authorization-server')
+    ).json()) as Record<string, unknown>;
+    expect(server).toMatchObject({
+      issuer: ORIGIN,
+      authorization_endpoint: `${ORIGIN}/authorize`,
+      token_endpoint: `${ORIGIN}/token`,
+      registration_endpoint: `${ORIGIN}/register`,
+      code_challenge_methods_supported: ['S256'],
+    });
+
+    const resource = (await (
+      await send(oauth, '/.well-known/oauth-protected-resource/mcp')
+    ).json()) as Record<string, unknown>;
+    expect(resource).toMatchObject({
+      resource: `${ORIGIN}/mcp`,
+      authorization_servers: [ORIGIN],
+    });
+  });
+
+  it('leaves other paths to the MCP endpoints', async () => {
+    const { oauth } = setup();
+    expect(await oauth.handle(new Request(`${ORIGIN}/mcp`, { method: 'POST' }))).toBeUndefined();
+  });
+
+  it('points unauthenticated clients at the resource metadata', () => {
+    const { oauth } = setup();
+    expect(oauth.challenge(new Request(`${ORIGIN}/mcp`), 'invalid_token')).toBe(
+      `Bearer resource_metadata="${ORIGIN}/.well-known/oauth-protected-resource", ` +
+        'error="invalid_token"'
+    );
+  });
+
+  it('rejects redirect URIs that are neither HTTPS nor localhost', async () => {
+    const { oauth } = setup();
+    const response = await send(oauth, '/register', {
+      method: 'POST',
+      body: JSON.stringify({ redirect_uris: ['http://evil.example/callback'] }),
+    });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'invalid_redirect_uri' });
+  });
+
+  it('issues access tokens that map to the stored Cloudflare credentials', async () => {
+    const context = setup();
+    const { tokens } = await signIn(context);
+
+    expect(tokens).toMatchObject({ token_type: 'Bearer', expires_in: 3600 });
+    expect(await context.oauth.authenticate(bearer(tokens.access_token))).toEqual({
+      apiToken: 'cf-token',
+    });
+    expect(await context.oauth.authenticate(bearer('made-up'))).toBeUndefined();
+  });
+
+  it('returns the client state with the authorization code', async () => {
+    const context = setup();
+    const redirect = await authorize(context, await register(context.oauth));
+    expect(redirect.origin + redirect.pathname).toBe(REDIRECT_URI);
+    expect(redirect.searchParams.get('state')).toBe('client-state');
+    expect(redirect.searchParams.get('code')).toBeTruthy();
+  });
+
+  it('requires the PKCE verifier and accepts each code once', async () => {
+    const context = setup();
+    const clientId = await register(context.oauth);
+    const code = (await authorize(context, clientId)).searchParams.get('code') ?? '';
+
+    const wrong = await exchange(context.oauth, clientId, code, 'b'.repeat(43));
+    expect(wrong.status).toBe(400);
+    expect(await wrong.json()).toMatchObject({ error: 'invalid_grant' });
+
+    // The failed attempt used the code up
+    expect((await exchange(context.oauth, clientId, code)).status).toBe(400);
+  });
+
+  it('requires PKCE on the authorization request', async () => {
+    const context = setup();
+    const redirect = await authorize(context, await register(context.oauth), {
+      code_challenge_method: 'plain',
+    });
+    expect(redirect.searchParams.get('error')).toBe('invalid_request');
+    expect(redirect.searchParams.get('state')).toBe('client-state');
+  });
+
+  it('rejects unregistered clients and redirect URIs without redirecting', async () => {
+    const context = setup();
+    const unknown = await send(context.oauth, '/authorize?client_id=nope');
+    expect(unknown.status).toBe(401);
+
+    const clientId = await register(context.oauth);
+    const query = new URLSearchParams({ client_id: clientId, redirect_uri: 'https://evil.test' });
+    const mismatched = await send(context.oauth, `/authorize?${query}`);
+    expect(mismatched.status).toBe(400);
+    expect(mismatched.headers.get('Location')).toBeNull();
+  });
+
+  it('only accepts consent from the browser that opened the request', async () => {
+    const context = setup();
+    const clientId = await register(context.oauth);
+    const query = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: REDIRECT_URI,
+      code_challenge: await challengeFor(VERIFIER),
+      code_challenge_method: 'S256',
+    });
+    const consent = await send(context.oauth, `/authorize?${query}`);
+    const requestId = /name="request" value="([^"]+)"/.exec(await consent.text())?.[1] ?? '';
+    // form-action would also block the redirects that follow the form post
+    expect(consent.headers.get('Content-Security-Policy')).not.toContain('form-action');
+
+    const forged = await send(
+      context.oauth,
+      '/authorize',
+      post({ request: requestId, decision: 'allow' }, 'oauth_request=other')
+    );
+    expect(forged.status).toBe(400);
+    expect(await forged.json()).toMatchObject({ error: 'access_denied' });
+  });
+
+  it('denies users without stored Cloudflare credentials', async () => {
+    const context = setup();
+    context.idp.userId = 'user-2';
+    const redirect = await authorize(context, await register(context.oauth));
+    expect(redirect.searchParams.get('error')).toBe('access_denied');
+    expect(redirect.searchParams.get('code')).toBeNull();
+  });
+
+  it('rejects a resource that is not a URL', async () => {
+    const context = setup();
+    const clientId = await register(context.oauth);
+    const query = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: REDIRECT_URI,
+      code_challenge: await challengeFor(VERIFIER),
+      code_challenge_method: 'S256',
+      resource: 'https://[not a host',
+    });
+
+    const response = await send(context.oauth, `/authorize?${query}`);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'invalid_target' });
+  });
+
+  it('rejects bodies that are not form-encoded', async () => {
+    const { oauth } = setup();
+    for (const path of ['/token', '/revoke', '/authorize']) {
+      for (const body of [JSON.stringify({ grant_type: 'refresh_token' }), undefined]) {
+        const response = await send(oauth, path, { method: 'POST', body });
+        expect(response.status, path).toBe(400);
+        expect(await response.json()).toMatchObject({ error: 'invalid_request' });
+      }
+    }
+  });
+
+  it('rotates refresh tokens', async () => {
+    const context = setup();
+    const { clientId, tokens } = await signIn(context);
+    const refresh = () =>
+      send(
+        context.oauth,
+        '/token',
+        post({
+          grant_type: 'refresh_token',
+          refresh_token: tokens.refresh_token,
+          client_id: clientId,
+        })
+      );
+
+    const first = await refresh();
+    expect(first.status).toBe(200);
+    const rotated = (await first.json()) as Tokens;
+    expect(rotated.refresh_token).not.toBe(tokens.refresh_token);
+    expect(await context.oauth.authenticate(bearer(rotated.access_token))).toBeDefined();
+
+    const reused = await refresh();
+    expect(reused.status).toBe(400);
+  });
+
+  it('revokes access tokens', async () => {
+    const context = setup();
+    const { tokens } = await signIn(context);
+
+    const response = await send(context.oauth, '/revoke', post({ token: tokens.access_token }));
+    expect(response.status).toBe(200);
+    expect(await context.oauth.authenticate(bearer(tokens.access_token))).toBeUndefined();
+  });
+
+  it('revokes every token of a user whose credentials are removed', async () => {
+    const context = setup();
+    const { clientId, tokens } = await signIn(context);
+    delete context.linked['user-1'];
+
+    expect(await context.oauth.authenticate(bearer(tokens.access_token))).toBeUndefined();
+    const refreshed = await send(
+      context.oauth,
+      '/token',
+      post({
+        grant_type: 'refresh_token',
+        refresh_token: tokens.refresh_token,
+        client_id: clientId,
+      })
+    );
+    expect(refreshed.status).toBe(400);
+  });
+});
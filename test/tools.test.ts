@@ -0,0 +1,1940 @@
+import { readFileSync } from 'node:fs';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ElicitResult, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PROMPT_TOOLS } from '../src/prompts/index.js';
+import {
+  createStatelessServer,
+  getToolCatalogue,
+  loadTenantSession,
+  loadTenantTokenPermissions,
+} from '../src/server.js';
+import { FAKE_IDS, FakeCloudflareApi } from '../src/testing/fake-api.js';
+import {
+  ADDITIVE_WRITE,
+  DESTRUCTIVE_WRITE,
+  findUnknownPolicyEntries,
+  READ_ONLY,
+  renderToolsMarkdown,
+  replaceToolDocs,
+  type ToolPolicy,
+  ToolRegistry,
+} from '../src/tools/index.js';
+import { MemorySessionStore } from '../src/utils/session.js';
+import { MemoryKeyValueStore } from '../src/utils/store.js';
+import { createHarness, type Harness, type ToolResult } from './helpers.js';
+
+const account = FAKE_IDS.account;
+const zone = FAKE_IDS.zone;
+
+interface ToolCase {
+  args: Record<string, unknown>;
+  /** Two-phase tool: call again with the confirmation token before checking */
+  confirm?: boolean;
+  check: (result: ToolResult, harness: Harness) => void;
+}
+
+/**
+ * One happy-path call per registered tool, asserting on the formatted output
+ * and, for mutations, on the resulting fake API state.
+ */
+const TOOL_CASES: Record<string, ToolCase> = {
+  // Zones
+  cloudflare_list_zones: {
+    args: {},
+    check: (r) => expect(r.json()).toMatchObject({ count: 1, items: [{ id: zone }] }),
+  },
+  cloudflare_get_zone: {
+    args: { zone_id: zone },
+    check: (r) => expect(r.json()).toMatchObject({ id: zone, name: FAKE_IDS.zoneName }),
+  },
+  cloudflare_create_zone: {
+    args: { name: 'new.example', account_id: account },
+    check: (r, h) => {
+      expect(r.json()).toMatchObject({ success: true, zone: { name: 'new.example' } });
+      expect(h.fake.state.zones.map((z) => z.name)).toContain('new.example');
+    },
+  },
+  cloudflare_update_zone: {
+    args: { zone_id: zone, paused: true },
+    check: (r) => expect(r.json()).toMatchObject({ success: true, zone: { paused: true } }),
+  },
+  cloudflare_delete_zone: {
+    args: { zone_id: zone },
+    confirm: true,
+    check: (r, h) => {
+      expect(r.json()).toMatchObject({ success: true });
+      expect(h.fake.state.zones).toHaveLength(0);
+    },
+  },
+  cloudflare_get_zone_settings: {
+    args: { zone_id: zone },
+    check: (r) => expect(r.json<{ id: string }[]>().map((s) => s.id)).toContain('ssl'),
+  },
+  cloudflare_update_zone_setting: {
+    args: { zone_id: zone, setting_id: 'ssl', value: 'strict' },
+    check: (r) => expect(r.json()).toMatchObject({ setting: { id: 'ssl', value: 'strict' } }),
+  },
+  cloudflare_zone_activation_check: {
+    args: { zone_id: zone },
+    check: (r) => expect(r.json()).toMatchObject({ success: true, id: zone }),
+  },
+
+  // DNS
+  cloudflare_list_dns_records: {
+    args: { zone_id: zone, type: 'A' },
+    check: (r) => expect(r.json()).toMatchObject({ count: 1, items: [{ type: 'A' }] }),
+  },
+  cloudflare_get_dns_record: {
+    args: { zone_id: zone, record_id: FAKE_IDS.dnsRecord },
+    check: (r) => expect(r.json()).toMatchObject({ id: FAKE_IDS.dnsRecord, content: '192.0.2.1' }),
+  },
+  cloudflare_create_dns_record: {
+    args: { zone_id: zone, type: 'TXT', name: '_verify', content: 'token=abc' },
+    check: (r) =>
+      expect(r.json()).toMatchObject({
+        record: { type: 'TXT', name: `_verify.${FAKE_IDS.zoneName}` },
+      }),
+  },
+  cloudflare_update_dns_record: {
+    args: { zone_id: zone, record_id: FAKE_IDS.dnsRecord, content: '192.0.2.99' },
+    check: (r) => expect(r.json()).toMatchObject({ record: { content: '192.0.2.99' } }),
+  },
+  cloudflare_delete_dns_record: {
+    args: { zone_id: zone, record_id: FAKE_IDS.dnsRecord },
+    check: (r, h) => {
+      expect(r.json()).toMatchObject({ success: true });
+      expect(h.fake.state.dnsRecords.get(zone)).toHaveLength(2);
+    },
+  },
+  cloudflare_export_dns_records: {
+    args: { zone_id: zone },
+    check: (r) => expect(r.text).toContain('IN\tA\t192.0.2.1'),
+  },
+  cloudflare_import_dns_records: {
+    args: { zone_id: zone, file_content: 'api.example.com. 300 IN A 192.0.2.50\n' },
+    check: (r) => expect(r.json()).toMatchObject({ total_records_parsed: 1 }),
+  },
+
+  // Workers
+  cloudflare_list_workers: {
+    args: { account_id: account },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: FAKE_IDS.workerScript }] }),
+  },
+  cloudflare_get_worker: {
+    args: { account_id: account, script_name: FAKE_IDS.workerScript },
+    check: (r) => expect(r.text).toContain('export default'),
+  },
+  cloudflare_delete_worker: {
+    args: { account_id: account, script_name: FAKE_IDS.workerScript },
+    check: (r, h) => {
+      expect(r.json()).toMatchObject({ success: true });
+      expect(h.fake.state.workers.get(account)?.size).toBe(0);
+    },
+  },
+  cloudflare_list_worker_routes: {
+    args: { zone_id: zone },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: FAKE_IDS.workerRoute }] }),
+  },
+  cloudflare_create_worker_route: {
+    args: { zone_id: zone, pattern: `${FAKE_IDS.zoneName}/v2/*`, script: FAKE_IDS.workerScript },
+    check: (r) =>
+      expect(r.json()).toMatchObject({ route: { pattern: `${FAKE_IDS.zoneName}/v2/*` } }),
+  },
+  cloudflare_delete_worker_route: {
+    args: { zone_id: zone, route_id: FAKE_IDS.workerRoute },
+    check: (r, h) => {
+      expect(r.json()).toMatchObject({ success: true });
+      expect(h.fake.state.workerRoutes.get(zone)).toHaveLength(0);
+    },
+  },
+  cloudflare_get_worker_cron_triggers: {
+    args: { account_id: account, script_name: FAKE_IDS.workerScript },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ cron: '*/30 * * * *' }] }),
+  },
+  cloudflare_list_worker_secrets: {
+    args: { account_id: account, script_name: FAKE_IDS.workerScript },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ name: 'API_KEY' }] }),
+  },
+
+  // KV
+  cloudflare_list_kv_namespaces: {
+    args: { account_id: account },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ title: 'SESSIONS' }] }),
+  },
+  cloudflare_get_kv_namespace: {
+    args: { account_id: account, namespace_id: FAKE_IDS.kvNamespace },
+    check: (r) => expect(r.json()).toMatchObject({ id: FAKE_IDS.kvNamespace }),
+  },
+  cloudflare_create_kv_namespace: {
+    args: { account_id: account, title: 'CACHE' },
+    check: (r) => expect(r.json()).toMatchObject({ namespace: { title: 'CACHE' } }),
+  },
+  cloudflare_rename_kv_namespace: {
+    args: { account_id: account, namespace_id: FAKE_IDS.kvNamespace, title: 'RENAMED' },
+    check: (_r, h) => expect(h.fake.state.kvNamespaces.get(account)?.[0].title).toBe('RENAMED'),
+  },
+  cloudflare_delete_kv_namespace: {
+    args: { account_id: account, namespace_id: FAKE_IDS.kvNamespace },
+    confirm: true,
+    check: (_r, h) => expect(h.fake.state.kvNamespaces.get(account)).toHaveLength(0),
+  },
+  cloudflare_list_kv_keys: {
+    args: { account_id: account, namespace_id: FAKE_IDS.kvNamespace, prefix: 'session:', limit: 1 },
+    check: (r) =>
+      expect(r.json()).toMatchObject({
+        count: 1,
+        hasMore: true,
+        items: [{ name: 'session:alice' }],
+      }),
+  },
+  cloudflare_get_kv_value: {
+    args: { account_id: account, namespace_id: FAKE_IDS.kvNamespace, key: 'config' },
+    check: (r) => expect(r.text).toBe('enabled'),
+  },
+  cloudflare_put_kv_value: {
+    args: { account_id: account, namespace_id: FAKE_IDS.kvNamespace, key: 'new', value: 'v1' },
+    check: (_r, h) =>
+      expect(h.fake.state.kvEntries.get(FAKE_IDS.kvNamespace)?.get('new')?.value).toBe('v1'),
+  },
+  cloudflare_delete_kv_value: {
+    args: { account_id: account, namespace_id: FAKE_IDS.kvNamespace, key: 'config' },
+    check: (_r, h) =>
+      expect(h.fake.state.kvEntries.get(FAKE_IDS.kvNamespace)?.has('config')).toBe(false),
+  },
+
+  // D1
+  cloudflare_list_d1_databases: {
+    args: { account_id: account },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ name: 'app-db' }] }),
+  },
+  cloudflare_get_d1_database: {
+    args: { account_id: account, database_id: FAKE_IDS.d1Database },
+    check: (r) => expect(r.json()).toMatchObject({ uuid: FAKE_IDS.d1Database }),
+  },
+  cloudflare_create_d1_database: {
+    args: { account_id: account, name: 'analytics' },
+    check: (r) => expect(r.json()).toMatchObject({ database: { name: 'analytics' } }),
+  },
+  cloudflare_delete_d1_database: {
+    args: { account_id: account, database_id: FAKE_IDS.d1Database },
+    check: (_r, h) => expect(h.fake.state.d1Databases.get(account)).toHaveLength(0),
+  },
+  cloudflare_query_d1_database: {
+    args: {
+      account_id: account,
+      database_id: FAKE_IDS.d1Database,
+      sql: 'SELECT * FROM users WHERE id = ?',
+      params: '[42]',
+    },
+    check: (r, h) => {
+      expect(r.json()).toMatchObject([{ statement: 1, success: true }]);
+      expect(h.fake.state.d1Queries.get(FAKE_IDS.d1Database)).toEqual([
+        { sql: 'SELECT * FROM users WHERE id = ?', params: [42] },
+      ]);
+    },
+  },
+
+  // R2
+  cloudflare_list_r2_buckets: {
+    args: { account_id: account },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ name: FAKE_IDS.r2Bucket }] }),
+  },
+  cloudflare_get_r2_bucket: {
+    args: { account_id: account, bucket_name: FAKE_IDS.r2Bucket },
+    check: (r) => expect(r.json()).toMatchObject({ name: FAKE_IDS.r2Bucket }),
+  },
+  cloudflare_create_r2_bucket: {
+    args: { account_id: account, name: 'logs', location_hint: 'weur' },
+    check: (r) => expect(r.json()).toMatchObject({ bucket: { name: 'logs', location: 'WEUR' } }),
+  },
+  cloudflare_delete_r2_bucket: {
+    args: { account_id: account, bucket_name: FAKE_IDS.r2Bucket },
+    confirm: true,
+    check: (_r, h) => expect(h.fake.state.r2Buckets.get(account)).toHaveLength(0),
+  },
+
+  // Pages
+  cloudflare_list_pages_projects: {
+    args: { account_id: account },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ name: FAKE_IDS.pagesProject }] }),
+  },
+  cloudflare_get_pages_project: {
+    args: { account_id: account, project_name: FAKE_IDS.pagesProject },
+    check: (r) => expect(r.json()).toMatchObject({ name: FAKE_IDS.pagesProject }),
+  },
+  cloudflare_create_pages_project: {
+    args: { account_id: account, name: 'blog' },
+    check: (r) => expect(r.json()).toMatchObject({ url: 'https://blog.pages.dev' }),
+  },
+  cloudflare_delete_pages_project: {
+    args: { account_id: account, project_name: FAKE_IDS.pagesProject },
+    confirm: true,
+    check: (_r, h) => expect(h.fake.state.pagesProjects.get(account)).toHaveLength(0),
+  },
+  cloudflare_list_pages_deployments: {
+    args: { account_id: account, project_name: FAKE_IDS.pagesProject },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: FAKE_IDS.pagesDeployment }] }),
+  },
+  cloudflare_get_pages_deployment: {
+    args: {
+      account_id: account,
+      project_name: FAKE_IDS.pagesProject,
+      deployment_id: FAKE_IDS.pagesDeployment,
+    },
+    check: (r) => expect(r.json()).toMatchObject({ id: FAKE_IDS.pagesDeployment }),
+  },
+  cloudflare_delete_pages_deployment: {
+    args: {
+      account_id: account,
+      project_name: FAKE_IDS.pagesProject,
+      deployment_id: FAKE_IDS.pagesDeployment,
+    },
+    check: (r) => expect(r.json()).toMatchObject({ success: true }),
+  },
+  cloudflare_rollback_pages_deployment: {
+    args: {
+      account_id: account,
+      project_name: FAKE_IDS.pagesProject,
+      deployment_id: FAKE_IDS.pagesDeployment,
+    },
+    check: (r) => expect(r.json()).toMatchObject({ deployment: { environment: 'production' } }),
+  },
+
+  // Cache
+  cloudflare_purge_all_cache: {
+    args: { zone_id: zone },
+    confirm: true,
+    check: (_r, h) => expect(h.fake.state.purges.get(zone)).toEqual([{ purge_everything: true }]),
+  },
+  cloudflare_purge_cache_by_url: {
+    args: { zone_id: zone, urls: '["https://example.com/app.js"]' },
+    check: (_r, h) =>
+      expect(h.fake.state.purges.get(zone)).toEqual([{ files: ['https://example.com/app.js'] }]),
+  },
+  cloudflare_purge_cache_by_tag: {
+    args: { zone_id: zone, tags: '["static"]' },
+    check: (_r, h) => expect(h.fake.state.purges.get(zone)).toEqual([{ tags: ['static'] }]),
+  },
+  cloudflare_purge_cache_by_host: {
+    args: { zone_id: zone, hosts: '["www.example.com"]' },
+    check: (_r, h) =>
+      expect(h.fake.state.purges.get(zone)).toEqual([{ hosts: ['www.example.com'] }]),
+  },
+
+  // Firewall
+  cloudflare_list_firewall_rules: {
+    args: { zone_id: zone },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: FAKE_IDS.firewallRule }] }),
+  },
+  cloudflare_get_firewall_rule: {
+    args: { zone_id: zone, rule_id: FAKE_IDS.firewallRule },
+    check: (r) => expect(r.json()).toMatchObject({ action: 'block' }),
+  },
+  cloudflare_create_firewall_rule: {
+    args: { zone_id: zone, expression: '(ip.src eq 192.0.2.7)', action: 'challenge' },
+    check: (r) =>
+      expect(r.json()).toMatchObject({
+        rule: { action: 'challenge', filter: { expression: '(ip.src eq 192.0.2.7)' } },
+      }),
+  },
+  cloudflare_update_firewall_rule: {
+    args: { zone_id: zone, rule_id: FAKE_IDS.firewallRule, paused: true },
+    check: (r) => expect(r.json()).toMatchObject({ rule: { paused: true } }),
+  },
+  cloudflare_delete_firewall_rule: {
+    args: { zone_id: zone, rule_id: FAKE_IDS.firewallRule },
+    check: (_r, h) => expect(h.fake.state.firewallRules.get(zone)).toHaveLength(0),
+  },
+  cloudflare_list_filters: {
+    args: { zone_id: zone },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: FAKE_IDS.filter }] }),
+  },
+
+  // WAF
+  cloudflare_list_waf_packages: {
+    args: { zone_id: zone },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: FAKE_IDS.wafPackage }] }),
+  },
+  cloudflare_list_waf_rules: {
+    args: { zone_id: zone, package_id: FAKE_IDS.wafPackage },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: FAKE_IDS.wafRule }] }),
+  },
+  cloudflare_update_waf_rule: {
+    args: {
+      zone_id: zone,
+      package_id: FAKE_IDS.wafPackage,
+      rule_id: FAKE_IDS.wafRule,
+      mode: 'simulate',
+    },
+    check: (r) => expect(r.json()).toMatchObject({ rule: { mode: 'simulate' } }),
+  },
+
+  // Load Balancers
+  cloudflare_list_load_balancers: {
+    args: { zone_id: zone },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: FAKE_IDS.loadBalancer }] }),
+  },
+  cloudflare_get_load_balancer: {
+    args: { zone_id: zone, lb_id: FAKE_IDS.loadBalancer },
+    check: (r) => expect(r.json()).toMatchObject({ default_pools: [FAKE_IDS.pool] }),
+  },
+  cloudflare_list_load_balancer_pools: {
+    args: { account_id: account },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: FAKE_IDS.pool }] }),
+  },
+  cloudflare_get_load_balancer_pool: {
+    args: { account_id: account, pool_id: FAKE_IDS.pool },
+    check: (r) => expect(r.json()).toMatchObject({ name: 'primary' }),
+  },
+  cloudflare_list_load_balancer_monitors: {
+    args: { account_id: account },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: FAKE_IDS.monitor }] }),
+  },
+
+  // SSL
+  cloudflare_list_ssl_certificates: {
+    args: { zone_id: zone },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ type: 'universal' }] }),
+  },
+
+  // Accounts
+  cloudflare_get_user: {
+    args: {},
+    check: (r) => expect(r.json()).toMatchObject({ email: 'owner@example.com' }),
+  },
+  cloudflare_list_accounts: {
+    args: {},
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ id: account }] }),
+  },
+  cloudflare_get_account: {
+    args: { account_id: account },
+    check: (r) => expect(r.json()).toMatchObject({ name: 'Fake Account' }),
+  },
+  cloudflare_list_account_members: {
+    args: { account_id: account },
+    check: (r) => expect(r.json()).toMatchObject({ items: [{ status: 'accepted' }] }),
+  },
+
+  // Analytics
+  cloudflare_get_zone_analytics: {
+    args: { zone_id: zone, since: '-1440' },
+    check: (r) => expect(r.json()).toMatchObject({ query: { since: '-1440' }, totals: {} }),
+  },
+  cloudflare_get_dns_analytics: {
+    args: { zone_id: zone, dimensions: '["queryName"]', metrics: 'queryCount' },
+    check: (r) =>
+      expect(r.json()).toMatchObject({
+        query: { dimensions: ['queryName'], metrics: ['queryCount'] },
+      }),
+  },
+
+  // Connection
+  cloudflare_test_connection: {
+    args: {},
+    check: (r) =>
+      expect(r.json()).toEqual({ connected: true, message: 'Connected as owner@example.com' }),
+  },
+  cloudflare_get_token_permissions: {
+    args: {},
+    check: (r) =>
+      expect(r.json()).toMatchObject({
+        token: { id: FAKE_IDS.apiToken, status: 'active' },
+        permissions_known: true,
+        categories: expect.arrayContaining([
+          { category: 'dns', access: 'read_write', present: ['DNS Write'], missing: [] },
+        ]),
+      }),
+  },
+  cloudflare_set_context: {
+    args: { zone_id: 'example.com', format: 'markdown' },
+    check: (r) =>
+      expect(r.json()).toMatchObject({
+        success: true,
+        context: { zone_id: FAKE_IDS.zone, format: 'markdown' },
+        session_token: expect.any(String),
+      }),
+  },
+  cloudflare_get_context: {
+    args: {},
+    check: (r) =>
+      expect(r.json()).toEqual({
+        account_id: null,
+        account_source: null,
+        zone_id: null,
+        format: 'json',
+        pinned: { account_id: null, zone_id: null, format: null },
+      }),
+  },
+};
+
+/** Tools that need state from an earlier call, tested in their own suites below */
+const COVERED_ELSEWHERE = ['cloudflare_get_more'];
+
+describe('tools', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('has a test case for every registered tool', async () => {
+    const { tools } = await harness.client.listTools();
+    const covered = [...Object.keys(TOOL_CASES), ...COVERED_ELSEWHERE];
+    expect(tools.map((tool) => tool.name).sort()).toEqual(covered.sort());
+  });
+
+  for (const [name, testCase] of Object.entries(TOOL_CASES)) {
+    it(name, async () => {
+      const call = testCase.confirm ? harness.confirm : harness.call;
+      const result = await call(name, testCase.args);
+      expect(result.isError, result.text).toBe(false);
+      testCase.check(result, harness);
+    });
+  }
+});
+
+describe('JSON-string arguments', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it.each([
+    ['cloudflare_purge_cache_by_url', { urls: 'https://example.com/a.js' }, 'Invalid URLs format'],
+    ['cloudflare_purge_cache_by_tag', { tags: '{"tag":"a"}' }, 'Invalid tags format'],
+    ['cloudflare_purge_cache_by_host', { hosts: '[not json' }, 'Invalid hosts format'],
+  ])('%s rejects malformed arrays without calling the API', async (name, args, error) => {
+    const result = await harness.call(name, { zone_id: zone, ...args });
+    expect(result.isError).toBe(true);
+    expect(result.json()).toMatchObject({ error });
+    expect(harness.fake.state.purges.get(zone)).toBeUndefined();
+  });
+
+  it('cloudflare_query_d1_database rejects non-array params', async () => {
+    const result = await harness.call('cloudflare_query_d1_database', {
+      account_id: account,
+      database_id: FAKE_IDS.d1Database,
+      sql: 'SELECT 1',
+      params: '{"id":1}',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json()).toMatchObject({ error: 'Invalid params format' });
+    expect(harness.fake.state.d1Queries.get(FAKE_IDS.d1Database)).toBeUndefined();
+  });
+
+  it('cloudflare_query_d1_database sends no params when omitted', async () => {
+    await harness.call('cloudflare_query_d1_database', {
+      account_id: account,
+      database_id: FAKE_IDS.d1Database,
+      sql: 'SELECT 1',
+    });
+    expect(harness.fake.state.d1Queries.get(FAKE_IDS.d1Database)).toEqual([
+      { sql: 'SELECT 1', params: [] },
+    ]);
+  });
+
+  it('cloudflare_get_dns_analytics falls back to a single value for non-JSON input', async () => {
+    await harness.call('cloudflare_get_dns_analytics', { zone_id: zone, dimensions: 'queryType' });
+    const request = harness.fake.requests.at(-1);
+    expect(request?.query.get('dimensions')).toBe('queryType');
+  });
+});
+
+describe('fetch-all mode', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    addDnsRecords(120);
+    const entries = harness.fake.state.kvEntries.get(FAKE_IDS.kvNamespace);
+    for (let i = 0; i < 1200; i++) {
+      entries?.set(`bulk:${String(i).padStart(4, '0')}`, { value: String(i) });
+    }
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  function addDnsRecords(count: number): void {
+    const records = harness.fake.state.dnsRecords.get(zone) ?? [];
+    const template = records[0];
+    for (let i = 0; i < count; i++) {
+      const id = `bulk-${records.length}`;
+      records.push({ ...template, id, name: `${id}.${FAKE_IDS.zoneName}` });
+    }
+  }
+
+  it('follows result_info across pages', async () => {
+    const result = await harness.call('cloudflare_list_dns_records', { zone_id: zone, all: true });
+
+    expect(result.json()).toMatchObject({ count: 123, hasMore: false });
+    expect(harness.fake.requests.map((r) => r.query.get('page'))).toEqual(['1', '2']);
+  });
+
+  it('stops once the response would exceed the size cap', async () => {
+    addDnsRecords(300);
+    const result = await harness.call('cloudflare_list_dns_records', { zone_id: zone, all: true });
+    const { count, hasMore } = result.json<{ count: number; hasMore: boolean }>();
+
+    expect(hasMore).toBe(true);
+    expect(count).toBeLessThan(423);
+    expect(result.text.length).toBeLessThan(50100);
+  });
+
+  it('stops at max_items without fetching further pages', async () => {
+    const result = await harness.call('cloudflare_list_dns_records', {
+      zone_id: zone,
+      all: true,
+      max_items: 50,
+    });
+
+    expect(result.json()).toMatchObject({ count: 50, hasMore: true, nextPage: 2 });
+    expect(harness.fake.requests).toHaveLength(1);
+  });
+
+  it('carries on from nextPage', async () => {
+    const result = await harness.call('cloudflare_list_dns_records', {
+      zone_id: zone,
+      all: true,
+      page: 2,
+      max_items: 50,
+    });
+    const records = harness.fake.state.dnsRecords.get(zone) ?? [];
+
+    expect(result.json()).toMatchObject({ count: 50, hasMore: true, nextPage: 3 });
+    expect(result.json<{ items: Array<{ id: string }> }>().items[0].id).toBe(records[50].id);
+  });
+
+  it('carries on from a KV cursor', async () => {
+    const first = await harness.call('cloudflare_list_kv_keys', {
+      account_id: account,
+      namespace_id: FAKE_IDS.kvNamespace,
+      prefix: 'bulk:',
+      all: true,
+      max_items: 1000,
+    });
+    const { cursor } = first.json<{ cursor: string }>();
+    const rest = await harness.call('cloudflare_list_kv_keys', {
+      account_id: account,
+      namespace_id: FAKE_IDS.kvNamespace,
+      prefix: 'bulk:',
+      cursor,
+      all: true,
+      max_items: 1000,
+    });
+
+    expect(first.json()).toMatchObject({ count: 1000, hasMore: true });
+    expect(rest.json()).toMatchObject({ count: 200, hasMore: false });
+  });
+
+  it('follows KV cursors', async () => {
+    const result = await harness.call('cloudflare_list_kv_keys', {
+      account_id: account,
+      namespace_id: FAKE_IDS.kvNamespace,
+      prefix: 'bulk:',
+      all: true,
+      max_items: 5000,
+    });
+
+    expect(result.json()).toMatchObject({ count: 1200, hasMore: false });
+    expect(harness.fake.requests).toHaveLength(2);
+  });
+});
+
+describe('response cache', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness({
+      serverOptions: { responseCacheStore: new MemoryKeyValueStore(1000) },
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const apiCalls = (path: string) => harness.fake.requests.filter((r) => r.path === path).length;
+
+  it('serves repeated reads from the cache', async () => {
+    const first = await harness.call('cloudflare_get_zone', { zone_id: zone });
+    const second = await harness.call('cloudflare_get_zone', { zone_id: zone });
+
+    expect(second.text).toBe(first.text);
+    expect(apiCalls(`/zones/${zone}`)).toBe(1);
+  });
+
+  it('keys list reads by query string', async () => {
+    await harness.call('cloudflare_list_dns_records', { zone_id: zone, type: 'A' });
+    await harness.call('cloudflare_list_dns_records', { zone_id: zone, type: 'MX' });
+    await harness.call('cloudflare_list_dns_records', { zone_id: zone, type: 'A' });
+
+    expect(apiCalls(`/zones/${zone}/dns_records`)).toBe(2);
+  });
+
+  it('invalidates the zone after a mutation', async () => {
+    await harness.call('cloudflare_get_zone_settings', { zone_id: zone });
+    await harness.call('cloudflare_update_zone_setting', {
+      zone_id: zone,
+      setting_id: 'ssl',
+      value: 'strict',
+    });
+    const settings = await harness.call('cloudflare_get_zone_settings', { zone_id: zone });
+
+    expect(settings.json<{ id: string; value: unknown }[]>()).toContainEqual(
+      expect.objectContaining({ id: 'ssl', value: 'strict' })
+    );
+    expect(apiCalls(`/zones/${zone}/settings`)).toBe(2);
+  });
+
+  it('refreshes the zone list when a zone is deleted, but not for record changes', async () => {
+    await harness.call('cloudflare_list_zones');
+    await harness.call('cloudflare_create_dns_record', {
+      zone_id: zone,
+      type: 'A',
+      name: 'cached',
+      content: '192.0.2.10',
+    });
+    await harness.call('cloudflare_list_zones');
+    expect(apiCalls('/zones')).toBe(1);
+
+    await harness.confirm('cloudflare_delete_zone', { zone_id: zone });
+    const zones = await harness.call('cloudflare_list_zones');
+    expect(zones.json()).toMatchObject({ count: 0 });
+    expect(apiCalls('/zones')).toBe(2);
+  });
+
+  it('does not cache uncacheable reads', async () => {
+    const args = { zone_id: zone };
+    await harness.call('cloudflare_export_dns_records', args);
+    await harness.call('cloudflare_export_dns_records', args);
+
+    expect(apiCalls(`/zones/${zone}/dns_records/export`)).toBe(2);
+  });
+});
+
+describe('dry run', () => {
+  let harness: Harness;
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const writes = () => harness.fake.requests.filter((r) => r.method !== 'GET');
+
+  it('previews an update with the request and a field diff', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_update_zone_setting', {
+      zone_id: zone,
+      setting_id: 'ssl',
+      value: 'strict',
+      dry_run: true,
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.json()).toMatchObject({
+      dry_run: true,
+      request: {
+        method: 'PATCH',
+        url: `https://api.cloudflare.com/client/v4/zones/${zone}/settings/ssl`,
+        headers: { Authorization: '[redacted]' },
+        body: { value: 'strict' },
+      },
+      before: { id: 'ssl', value: 'full' },
+      after: { id: 'ssl', value: 'strict' },
+      diff: [{ path: '/value', before: 'full', after: 'strict' }],
+    });
+    expect(writes()).toHaveLength(0);
+  });
+
+  it('previews a delete without removing anything', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_delete_dns_record', {
+      zone_id: zone,
+      record_id: FAKE_IDS.dnsRecord,
+      dry_run: true,
+    });
+
+    expect(result.json()).toMatchObject({
+      request: { method: 'DELETE' },
+      before: { id: FAKE_IDS.dnsRecord },
+      after: null,
+    });
+    expect(harness.fake.state.dnsRecords.get(zone)).toContainEqual(
+      expect.objectContaining({ id: FAKE_IDS.dnsRecord })
+    );
+  });
+
+  it('fails when the target does not exist', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_delete_dns_record', {
+      zone_id: zone,
+      record_id: 'missing',
+      dry_run: true,
+    });
+
+    expect(result.json()).toMatchObject({ details: { name: 'NotFoundError' } });
+  });
+
+  it('treats a PUT to a missing key as a create', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_put_kv_value', {
+      account_id: account,
+      namespace_id: FAKE_IDS.kvNamespace,
+      key: 'new-key',
+      value: 'hello',
+      dry_run: true,
+    });
+
+    expect(result.json()).toMatchObject({
+      request: { method: 'PUT', body: 'hello' },
+      before: null,
+      after: 'hello',
+      diff: [{ path: '/', after: 'hello' }],
+    });
+    expect(writes()).toHaveLength(0);
+  });
+
+  it('applies to every write when the server is in dry-run mode', async () => {
+    harness = await createHarness({ clientOptions: { dryRun: true } });
+    const created = await harness.call('cloudflare_create_dns_record', {
+      zone_id: zone,
+      type: 'A',
+      name: 'preview',
+      content: '192.0.2.50',
+    });
+    const purged = await harness.call('cloudflare_purge_all_cache', { zone_id: zone });
+
+    expect(created.json()).toMatchObject({ dry_run: true, request: { method: 'POST' } });
+    expect(purged.json()).toMatchObject({
+      dry_run: true,
+      request: { method: 'POST', body: { purge_everything: true } },
+    });
+    expect(writes()).toHaveLength(0);
+  });
+});
+
+describe('confirmation tokens', () => {
+  let harness: Harness;
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await harness.close();
+  });
+
+  const writes = () => harness.fake.requests.filter((r) => r.method !== 'GET');
+
+  async function requestToken(name: string, args: Record<string, unknown>): Promise<string> {
+    const result = await harness.call(name, args);
+    return result.json<{ confirmation_token: string }>().confirmation_token;
+  }
+
+  it('describes the impact and deletes nothing on the first call', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_delete_zone', { zone_id: zone });
+
+    expect(result.isError).toBe(false);
+    expect(result.json()).toMatchObject({
+      confirmation_required: true,
+      impact: {
+        zone_name: FAKE_IDS.zoneName,
+        dns_records: harness.fake.state.dnsRecords.get(zone)?.length,
+        worker_routes: 1,
+      },
+      confirmation_token: expect.any(String),
+      expires_at: expect.any(String),
+    });
+    expect(result.json<{ message: string }>().message).toContain(
+      `Deletes zone ${FAKE_IDS.zoneName}`
+    );
+    expect(writes()).toHaveLength(0);
+  });
+
+  it('counts the keys a KV namespace deletion destroys', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_delete_kv_namespace', {
+      account_id: account,
+      namespace_id: FAKE_IDS.kvNamespace,
+    });
+
+    expect(result.json()).toMatchObject({
+      impact: {
+        keys: harness.fake.state.kvEntries.get(FAKE_IDS.kvNamespace)?.size,
+        keys_counted_all: true,
+      },
+    });
+  });
+
+  it('rejects a token issued for a different target', async () => {
+    harness = await createHarness();
+    const confirmation_token = await requestToken('cloudflare_delete_r2_bucket', {
+      account_id: account,
+      bucket_name: FAKE_IDS.r2Bucket,
+    });
+    const result = await harness.call('cloudflare_delete_r2_bucket', {
+      account_id: account,
+      bucket_name: 'other-bucket',
+      confirmation_token,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('Confirmation token was issued for a different call');
+    expect(writes()).toHaveLength(0);
+  });
+
+  it('rejects a token with a tampered payload', async () => {
+    harness = await createHarness();
+    const token = await requestToken('cloudflare_purge_all_cache', { zone_id: zone });
+    const [payload, signature] = token.split('.');
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    const forged = btoa(JSON.stringify({ ...claims, exp: claims.exp + 3600 })).replace(/=+$/, '');
+
+    const result = await harness.call('cloudflare_purge_all_cache', {
+      zone_id: zone,
+      confirmation_token: `${forged}.${signature}`,
+    });
+
+    expect(result.text).toContain('Invalid confirmation token');
+    expect(harness.fake.state.purges.get(zone)).toBeUndefined();
+  });
+
+  it('rejects an expired token', async () => {
+    harness = await createHarness();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const confirmation_token = await requestToken('cloudflare_delete_zone', { zone_id: zone });
+    vi.setSystemTime(Date.now() + 301_000);
+
+    const result = await harness.call('cloudflare_delete_zone', {
+      zone_id: zone,
+      confirmation_token,
+    });
+
+    expect(result.text).toContain('Confirmation token expired');
+    expect(harness.fake.state.zones).toHaveLength(1);
+  });
+
+  it('binds tokens to the credential that requested them', async () => {
+    const fake = new FakeCloudflareApi();
+    const serverOptions = { confirmationSecret: 'shared-secret' };
+    harness = await createHarness({ fake, serverOptions });
+    const confirmation_token = await requestToken('cloudflare_delete_zone', { zone_id: zone });
+    await harness.close();
+
+    harness = await createHarness({ fake, serverOptions, credentials: { apiToken: 'other' } });
+    const result = await harness.call('cloudflare_delete_zone', {
+      zone_id: zone,
+      confirmation_token,
+    });
+
+    expect(result.text).toContain('different call');
+    expect(fake.state.zones).toHaveLength(1);
+  });
+
+  it('skips confirmation for dry runs', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_delete_pages_project', {
+      account_id: account,
+      project_name: FAKE_IDS.pagesProject,
+      dry_run: true,
+    });
+
+    expect(result.json()).toMatchObject({ dry_run: true, request: { method: 'DELETE' } });
+  });
+});
+
+describe('elicitation', () => {
+  let harness: Harness;
+  let prompts: string[];
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  async function createElicitingHarness(answer: ElicitResult): Promise<Harness> {
+    prompts = [];
+    return createHarness({
+      elicit: (params) => {
+        prompts.push(params.message);
+        return answer;
+      },
+    });
+  }
+
+  it('asks the user and deletes once they accept, without a token', async () => {
+    harness = await createElicitingHarness({ action: 'accept', content: { confirm: true } });
+    const result = await harness.call('cloudflare_delete_zone', { zone_id: zone });
+
+    expect(result.json()).toMatchObject({ success: true });
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain(`Deletes zone ${FAKE_IDS.zoneName}`);
+    expect(harness.fake.state.zones).toHaveLength(0);
+  });
+
+  it.each([
+    ['declines', { action: 'decline' }],
+    ['cancels', { action: 'cancel' }],
+    ['leaves the box unchecked', { action: 'accept', content: { confirm: false } }],
+  ] as const)('changes nothing when the user %s', async (_label, answer) => {
+    harness = await createElicitingHarness(answer);
+    const result = await harness.call('cloudflare_purge_all_cache', { zone_id: zone });
+
+    expect(result.isError).toBe(true);
+    expect(result.json()).toMatchObject({ details: { name: 'CancelledError' } });
+    expect(harness.fake.state.purges.get(zone)).toBeUndefined();
+  });
+
+  it('also covers destructive tools without a token fallback', async () => {
+    harness = await createElicitingHarness({ action: 'accept', content: { confirm: true } });
+    await harness.call('cloudflare_purge_cache_by_url', {
+      zone_id: zone,
+      urls: '["https://example.com/app.js"]',
+    });
+    await harness.call('cloudflare_delete_d1_database', {
+      account_id: account,
+      database_id: FAKE_IDS.d1Database,
+    });
+
+    expect(prompts[0]).toContain('Purges 1 URL(s)');
+    expect(prompts[1]).toContain('Deletes D1 database app-db');
+  });
+
+  it('falls back to a confirmation token on a server that never saw initialize', async () => {
+    // As on /mcp, where each POST gets a fresh server and initialize went to another one
+    harness = await createElicitingHarness({ action: 'accept', content: { confirm: true } });
+    const server = createStatelessServer({ apiToken: 'test-token' }, { fetch: harness.fake.fetch });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const responses: JSONRPCMessage[] = [];
+    clientTransport.onmessage = (message) => responses.push(message);
+    await server.connect(serverTransport);
+    await clientTransport.send({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'cloudflare_delete_zone', arguments: { zone_id: zone } },
+    });
+    await expect.poll(() => responses.length).toBe(1);
+    await server.close();
+
+    const result = (responses[0] as unknown as { result: { content: Array<{ text: string }> } })
+      .result;
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ confirmation_required: true });
+    expect(prompts).toHaveLength(0);
+    expect(harness.fake.state.zones).toHaveLength(1);
+  });
+
+  it('accepts a confirmation token instead of asking', async () => {
+    harness = await createHarness();
+    const token = await harness.call('cloudflare_delete_zone', { zone_id: zone });
+    await harness.close();
+
+    harness = await createElicitingHarness({ action: 'decline' });
+    const result = await harness.call('cloudflare_delete_zone', {
+      zone_id: zone,
+      confirmation_token: token.json<{ confirmation_token: string }>().confirmation_token,
+    });
+
+    expect(result.isError).toBe(false);
+    expect(prompts).toHaveLength(0);
+  });
+});
+
+describe('token permissions', () => {
+  let harness: Harness | undefined;
+  let fake: FakeCloudflareApi;
+
+  beforeEach(() => {
+    fake = new FakeCloudflareApi();
+    fake.state.apiToken.policies = [
+      {
+        id: 'policy',
+        effect: 'allow',
+        resources: { 'com.cloudflare.api.account.zone.*': '*' },
+        permission_groups: [
+          { id: 'dns', name: 'DNS Write' },
+          { id: 'zone', name: 'Zone Read' },
+        ],
+      },
+    ];
+  });
+
+  afterEach(async () => {
+    await harness?.close();
+    harness = undefined;
+  });
+
+  const load = (store = new MemoryKeyValueStore()) =>
+    loadTenantTokenPermissions({ apiToken: 'test-token' }, { fetch: fake.fetch }, store);
+
+  it('registers only the tools the token has permissions for', async () => {
+    harness = await createHarness({ fake, serverOptions: { tokenPermissions: await load() } });
+    const names = (await harness.client.listTools()).tools.map((tool) => tool.name);
+
+    expect(names).toContain('cloudflare_create_dns_record');
+    expect(names).toContain('cloudflare_list_zones');
+    expect(names).not.toContain('cloudflare_delete_zone');
+    expect(names).not.toContain('cloudflare_list_kv_namespaces');
+    expect(names).not.toContain('cloudflare_purge_all_cache');
+    expect(names).toContain('cloudflare_get_token_permissions');
+    expect(names).toContain('cloudflare_get_more');
+  });
+
+  it('caches the lookup per credential', async () => {
+    const store = new MemoryKeyValueStore();
+    await load(store);
+    await load(store);
+
+    expect(fake.requests.filter((r) => r.path === '/user/tokens/verify')).toHaveLength(1);
+  });
+
+  it('keeps every tool when the token cannot read its own policies', async () => {
+    fake.failNext(
+      {
+        status: 403,
+        errors: [{ code: 9109, message: 'Unauthorized to access requested resource' }],
+      },
+      { path: `/user/tokens/${FAKE_IDS.apiToken}` }
+    );
+    const permissions = await load();
+    harness = await createHarness({ fake, serverOptions: { tokenPermissions: permissions } });
+    const names = (await harness.client.listTools()).tools.map((tool) => tool.name);
+
+    expect(permissions?.tokenId).toBe(FAKE_IDS.apiToken);
+    expect(permissions?.groups).toBeUndefined();
+    expect(names).toContain('cloudflare_delete_zone');
+
+    fake.failNext(
+      { status: 403, errors: [{ code: 9109, message: 'Unauthorized' }] },
+      { path: `/user/tokens/${FAKE_IDS.apiToken}` }
+    );
+    const result = await harness.call('cloudflare_get_token_permissions');
+    expect(result.json()).toMatchObject({
+      active: true,
+      permissions_known: false,
+      message: expect.stringContaining('every tool stays registered'),
+    });
+  });
+
+  it.each([
+    ['disabled', { status: 'disabled' }, 'The token is disabled'],
+    ['expired', { expires_on: '2020-01-01T00:00:00Z' }, 'The token expired on 2020-01-01'],
+    ['not yet valid', { not_before: '2999-01-01T00:00:00Z' }, 'not valid before 2999-01-01'],
+  ] as const)('hides the API tools when the token is %s', async (_case, token, reason) => {
+    Object.assign(fake.state.apiToken, token);
+    harness = await createHarness({ fake, serverOptions: { tokenPermissions: await load() } });
+    const names = (await harness.client.listTools()).tools.map((tool) => tool.name);
+
+    expect(names).not.toContain('cloudflare_list_zones');
+    expect(names).not.toContain('cloudflare_create_dns_record');
+    expect(names).toContain('cloudflare_test_connection');
+    expect(names).toContain('cloudflare_get_token_permissions');
+    expect(names).toContain('cloudflare_get_more');
+
+    const result = await harness.call('cloudflare_get_token_permissions');
+    expect(result.json()).toMatchObject({
+      active: false,
+      message: expect.stringContaining(reason),
+    });
+  });
+
+  it('explains present and missing scopes', async () => {
+    harness = await createHarness({ fake });
+    const result = await harness.call('cloudflare_get_token_permissions');
+    const categories = result.json<{ categories: { category: string }[] }>().categories;
+
+    expect(categories.find((c) => c.category === 'zones')).toEqual({
+      category: 'zones',
+      access: 'read',
+      present: ['Zone Read'],
+      missing: ['Zone Write', 'Zone Settings Write'],
+    });
+    expect(categories.find((c) => c.category === 'kv')).toMatchObject({ access: 'none' });
+  });
+
+  it('skips global API keys', async () => {
+    const credentials = { email: 'owner@example.com', apiKey: 'key' };
+    const permissions = await loadTenantTokenPermissions(
+      credentials,
+      { fetch: fake.fetch },
+      new MemoryKeyValueStore()
+    );
+    harness = await createHarness({ fake, credentials });
+    const names = (await harness.client.listTools()).tools.map((tool) => tool.name);
+
+    expect(permissions).toBeUndefined();
+    expect(names).not.toContain('cloudflare_get_token_permissions');
+  });
+});
+
+describe('default account', () => {
+  let harness: Harness | undefined;
+
+  afterEach(async () => {
+    await harness?.close();
+    harness = undefined;
+  });
+
+  const accountListings = (fake: FakeCloudflareApi) =>
+    fake.requests.filter((r) => r.path === '/accounts').length;
+
+  it('uses the only account when account_id is omitted, looking it up once', async () => {
+    harness = await createHarness();
+    await harness.call('cloudflare_list_kv_namespaces');
+    const result = await harness.call('cloudflare_list_workers');
+
+    expect(result.isError).toBe(false);
+    expect(harness.fake.requests.at(-1)?.path).toBe(
+      `/accounts/${FAKE_IDS.account}/workers/scripts`
+    );
+    expect(accountListings(harness.fake)).toBe(1);
+  });
+
+  it('prefers the X-CF-Account-ID header without listing accounts', async () => {
+    harness = await createHarness({
+      credentials: { apiToken: 'test-token', accountId: FAKE_IDS.account },
+    });
+    const result = await harness.call('cloudflare_list_r2_buckets');
+
+    expect(result.isError).toBe(false);
+    expect(accountListings(harness.fake)).toBe(0);
+  });
+
+  it('uses an explicit account_id over the header', async () => {
+    harness = await createHarness({
+      credentials: { apiToken: 'test-token', accountId: 'header-account' },
+    });
+    await harness.call('cloudflare_list_pages_projects', { account_id: FAKE_IDS.account });
+
+    expect(harness.fake.requests.at(-1)?.path).toBe(`/accounts/${FAKE_IDS.account}/pages/projects`);
+  });
+
+  it('keeps the discovered account in the session', async () => {
+    const fake = new FakeCloudflareApi();
+    const session = new MemorySessionStore();
+    harness = await createHarness({ fake, serverOptions: { session } });
+    await harness.call('cloudflare_list_kv_namespaces');
+    await harness.close();
+    harness = await createHarness({ fake, serverOptions: { session } });
+    await harness.call('cloudflare_list_workers');
+
+    expect(session.get()).toEqual({ discoveredAccountId: FAKE_IDS.account });
+    expect(accountListings(fake)).toBe(1);
+  });
+
+  it('reports the discovered account as discovered, not pinned', async () => {
+    harness = await createHarness();
+    await harness.call('cloudflare_list_kv_namespaces');
+    await harness.call('cloudflare_set_context', { reset: true });
+    const context = await harness.call('cloudflare_get_context');
+
+    expect(context.json()).toMatchObject({
+      account_id: FAKE_IDS.account,
+      account_source: 'discovered',
+      pinned: { account_id: null },
+    });
+
+    await harness.call('cloudflare_set_context', { account_id: FAKE_IDS.account });
+    const pinned = await harness.call('cloudflare_get_context');
+    expect(pinned.json()).toMatchObject({
+      account_source: 'pinned',
+      pinned: { account_id: FAKE_IDS.account },
+    });
+  });
+
+  it('fails with the candidate accounts when there are several', async () => {
+    const fake = new FakeCloudflareApi();
+    fake.state.accounts.push({
+      id: 'second-account',
+      name: 'Second Account',
+      type: 'standard',
+      created_on: '2024-01-01T00:00:00Z',
+    });
+    harness = await createHarness({ fake });
+    const result = await harness.call('cloudflare_list_d1_databases');
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('account_id is required');
+    expect(result.text).toContain('Second Account (second-account)');
+    expect(fake.requests.filter((r) => r.path.includes('/d1/'))).toHaveLength(0);
+  });
+});
+
+describe('zone names', () => {
+  let harness: Harness | undefined;
+
+  afterEach(async () => {
+    await harness?.close();
+    harness = undefined;
+  });
+
+  const zoneLookups = (fake: FakeCloudflareApi) =>
+    fake.requests.filter((r) => r.path === '/zones').map((r) => r.query.get('name'));
+  const dnsPath = `/zones/${FAKE_IDS.zone}/dns_records`;
+
+  it('resolves a domain name to its zone ID', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_list_dns_records', { zone_id: 'example.com' });
+
+    expect(result.isError).toBe(false);
+    expect(harness.fake.requests.at(-1)?.path).toBe(dnsPath);
+  });
+
+  it('resolves a subdomain to its apex zone', async () => {
+    harness = await createHarness();
+    await harness.call('cloudflare_list_dns_records', { zone_id: 'API.Staging.Example.com.' });
+
+    expect(zoneLookups(harness.fake)).toEqual([
+      'api.staging.example.com',
+      'staging.example.com',
+      'example.com',
+    ]);
+    expect(harness.fake.requests.at(-1)?.path).toBe(dnsPath);
+  });
+
+  it('caches resolved names per tenant', async () => {
+    const fake = new FakeCloudflareApi();
+    const zoneNameStore = new MemoryKeyValueStore();
+    harness = await createHarness({ fake, serverOptions: { zoneNameStore } });
+    await harness.call('cloudflare_list_dns_records', { zone_id: 'example.com' });
+    await harness.close();
+    harness = await createHarness({ fake, serverOptions: { zoneNameStore } });
+    await harness.call('cloudflare_get_zone', { zone_id: 'example.com' });
+
+    expect(zoneLookups(fake)).toEqual(['example.com']);
+
+    await harness.close();
+    harness = await createHarness({
+      fake,
+      credentials: { apiToken: 'other-token' },
+      serverOptions: { zoneNameStore },
+    });
+    await harness.call('cloudflare_get_zone', { zone_id: 'example.com' });
+
+    expect(zoneLookups(fake)).toEqual(['example.com', 'example.com']);
+  });
+
+  it('passes zone IDs through without a lookup', async () => {
+    harness = await createHarness();
+    await harness.call('cloudflare_list_dns_records', { zone_id: FAKE_IDS.zone });
+
+    expect(zoneLookups(harness.fake)).toEqual([]);
+  });
+
+  it('fails when no zone covers the name', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_list_dns_records', { zone_id: 'example.org' });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('No zone found for example.org');
+    expect(harness.fake.requests.filter((r) => r.path.includes('dns_records'))).toHaveLength(0);
+  });
+});
+
+describe('session context', () => {
+  let harness: Harness | undefined;
+  const credentials = { apiToken: 'test-token' };
+
+  afterEach(async () => {
+    await harness?.close();
+    harness = undefined;
+  });
+
+  it('applies pinned values to later calls that omit them', async () => {
+    harness = await createHarness();
+    await harness.call('cloudflare_set_context', {
+      account_id: FAKE_IDS.account,
+      zone_id: 'example.com',
+      format: 'markdown',
+    });
+
+    await harness.call('cloudflare_list_dns_records');
+    expect(harness.fake.requests.at(-1)?.path).toBe(`/zones/${FAKE_IDS.zone}/dns_records`);
+
+    const workers = await harness.call('cloudflare_list_workers');
+    expect(harness.fake.requests.at(-1)?.path).toBe(
+      `/accounts/${FAKE_IDS.account}/workers/scripts`
+    );
+    expect(workers.text.startsWith('#')).toBe(true);
+
+    const json = await harness.call('cloudflare_get_zone', {
+      zone_id: FAKE_IDS.zone,
+      format: 'json',
+    });
+    expect(json.json()).toMatchObject({ id: FAKE_IDS.zone });
+  });
+
+  it('carries the context across servers in the session token', async () => {
+    const fake = new FakeCloudflareApi();
+    harness = await createHarness({ fake, credentials });
+    const result = await harness.call('cloudflare_set_context', { zone_id: FAKE_IDS.zone });
+    const token = result.json<{ session_token: string }>().session_token;
+    await harness.close();
+
+    const session = await loadTenantSession(credentials, token, undefined);
+    harness = await createHarness({
+      fake,
+      credentials,
+      serverOptions: { session: new MemorySessionStore(session) },
+    });
+    const context = await harness.call('cloudflare_get_context');
+
+    expect(context.json()).toMatchObject({ zone_id: FAKE_IDS.zone });
+  });
+
+  it('ignores tokens that are tampered with or issued for other credentials', async () => {
+    harness = await createHarness({ credentials });
+    const result = await harness.call('cloudflare_set_context', { zone_id: FAKE_IDS.zone });
+    const token = result.json<{ session_token: string }>().session_token;
+    const [payload, signature] = token.split('.');
+    const tampered = `${payload}x.${signature}`;
+
+    expect(await loadTenantSession({ apiToken: 'other-token' }, token, undefined)).toBeUndefined();
+    expect(await loadTenantSession(credentials, tampered, undefined)).toBeUndefined();
+    expect(await loadTenantSession(credentials, undefined, undefined)).toBeUndefined();
+  });
+
+  it('rejects a zone that does not exist without pinning it', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_set_context', { zone_id: 'example.org' });
+    const context = await harness.call('cloudflare_get_context');
+
+    expect(result.isError).toBe(true);
+    expect(context.json()).toMatchObject({ zone_id: null });
+  });
+
+  it('clears pinned values on reset', async () => {
+    harness = await createHarness();
+    await harness.call('cloudflare_set_context', { zone_id: FAKE_IDS.zone, format: 'markdown' });
+    await harness.call('cloudflare_set_context', { reset: true, format: 'json' });
+    const context = await harness.call('cloudflare_get_context');
+
+    expect(context.json()).toMatchObject({
+      zone_id: null,
+      pinned: { zone_id: null, format: 'json' },
+    });
+  });
+
+  it('requires zone_id when no zone is pinned', async () => {
+    harness = await createHarness();
+    const result = await harness.call('cloudflare_list_dns_records');
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('zone_id is required');
+  });
+});
+
+describe('tool annotations and read-only mode', () => {
+  let harness: Harness;
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('annotates every tool as read-only or mutating', async () => {
+    harness = await createHarness();
+    const { tools } = await harness.client.listTools();
+    const byName = new Map(tools.map((tool) => [tool.name, tool.annotations]));
+
+    expect(tools.every((tool) => typeof tool.annotations?.readOnlyHint === 'boolean')).toBe(true);
+    expect(byName.get('cloudflare_list_zones')).toEqual({ readOnlyHint: true });
+    expect(byName.get('cloudflare_create_dns_record')).toEqual({
+      readOnlyHint: false,
+      destructiveHint: false,
+    });
+    expect(byName.get('cloudflare_delete_zone')).toEqual({
+      readOnlyHint: false,
+      destructiveHint: true,
+    });
+  });
+
+  it('registers only read-only tools', async () => {
+    harness = await createHarness({ serverOptions: { toolPolicies: [{ readOnly: true }] } });
+    const names = (await harness.client.listTools()).tools.map((tool) => tool.name);
+
+    expect(names).toContain('cloudflare_list_zones');
+    expect(names).toContain('cloudflare_export_dns_records');
+    expect(names).toContain('cloudflare_get_more');
+    expect(names).toContain('cloudflare_test_connection');
+    expect(names.filter((name) => /_(create|update|delete|purge|put)_/.test(name))).toEqual([]);
+
+    const result = await harness.call('cloudflare_delete_zone', { zone_id: zone });
+    expect(result.isError).toBe(true);
+    expect(harness.fake.state.zones).toHaveLength(1);
+  });
+});
+
+describe('tool allowlists and denylists', () => {
+  let harness: Harness | undefined;
+
+  afterEach(async () => {
+    await harness?.close();
+    harness = undefined;
+  });
+
+  async function listTools(toolPolicies: ToolPolicy[]): Promise<string[]> {
+    harness = await createHarness({ serverOptions: { toolPolicies } });
+    return (await harness.client.listTools()).tools.map((tool) => tool.name).sort();
+  }
+
+  it('registers only allowed categories, plus cloudflare_get_more', async () => {
+    const names = await listTools([{ allow: ['dns', 'cache'] }]);
+
+    expect(names).toContain('cloudflare_list_dns_records');
+    expect(names).toContain('cloudflare_purge_all_cache');
+    expect(names).toContain('cloudflare_get_more');
+    expect(names).not.toContain('cloudflare_list_zones');
+    expect(names).toHaveLength(7 + 4 + 1);
+  });
+
+  it('mixes tool names and categories, with deny taking precedence', async () => {
+    const names = await listTools([
+      { allow: ['d1', 'cloudflare_list_zones'], deny: ['cloudflare_delete_d1_database'] },
+    ]);
+
+    expect(names).toContain('cloudflare_list_zones');
+    expect(names).toContain('cloudflare_query_d1_database');
+    expect(names).not.toContain('cloudflare_delete_d1_database');
+    expect(names).not.toContain('cloudflare_get_zone');
+  });
+
+  it('requires every policy to allow a tool', async () => {
+    const names = await listTools([
+      { allow: ['d1', 'kv', 'r2'] },
+      { allow: ['kv'], readOnly: true },
+    ]);
+
+    expect(names).toEqual([
+      'cloudflare_get_kv_namespace',
+      'cloudflare_get_kv_value',
+      'cloudflare_get_more',
+      'cloudflare_list_kv_keys',
+      'cloudflare_list_kv_namespaces',
+    ]);
+  });
+
+  it('flags entries that are neither tools nor categories', () => {
+    const toolNames = getToolCatalogue()
+      .list()
+      .map((tool) => tool.name);
+    const policy = {
+      allow: ['dns', 'cloudflare_list_zones', 'dnss'],
+      deny: ['cloudflare_list_zone'],
+      readOnlyFor: ['cloudflare_purge_all_cache'],
+    };
+
+    expect(findUnknownPolicyEntries(policy, toolNames)).toEqual(['dnss', 'cloudflare_list_zone']);
+  });
+});
+
+describe('tool registry', () => {
+  it('records every tool that tools/list shows, with its annotations', async () => {
+    const harness = await createHarness();
+    const { tools } = await harness.client.listTools();
+    await harness.close();
+
+    const catalogue = getToolCatalogue().list();
+    expect(catalogue.map((tool) => tool.name).sort()).toEqual(
+      tools.map((tool) => tool.name).sort()
+    );
+    for (const tool of tools) {
+      const recorded = catalogue.find((entry) => entry.name === tool.name);
+      expect(recorded?.mutating, tool.name).toBe(tool.annotations?.readOnlyHint !== true);
+      expect(recorded?.description, tool.name).toBe(tool.description);
+      expect(Object.keys(recorded?.inputSchema.properties ?? {}), tool.name).toEqual(
+        Object.keys(tool.inputSchema.properties ?? {})
+      );
+    }
+  });
+
+  it('records tools the policies skip', async () => {
+    const registry = new ToolRegistry();
+    const harness = await createHarness({
+      serverOptions: { registry, toolPolicies: [{ readOnly: true }] },
+    });
+    const { tools } = await harness.client.listTools();
+    await harness.close();
+
+    expect(tools.map((tool) => tool.name)).not.toContain('cloudflare_delete_zone');
+    expect(registry.list().find((tool) => tool.name === 'cloudflare_delete_zone')).toMatchObject({
+      category: 'zones',
+      mutating: true,
+      destructive: true,
+    });
+    expect(registry.byCategory().zones).toContain('cloudflare_list_zones');
+  });
+
+  it('matches the tool list in the README (regenerate it with bun run docs)', () => {
+    const readme = readFileSync(new URL('../README.md', import.meta.url), 'utf8');
+    expect(replaceToolDocs(readme, renderToolsMarkdown(getToolCatalogue()))).toBe(readme);
+  });
+});
+
+describe('resources', () => {
+  let harness: Harness | undefined;
+
+  afterEach(async () => {
+    await harness?.close();
+    harness = undefined;
+  });
+
+  async function read(uri: string): Promise<{ mimeType?: string; text: string }> {
+    const { contents } = await (harness as Harness).client.readResource({ uri });
+    return contents[0] as { mimeType?: string; text: string };
+  }
+
+  it('lists a template and a resource per zone, script and database', async () => {
+    harness = await createHarness();
+
+    const { resourceTemplates } = await harness.client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.uriTemplate).sort()).toEqual([
+      'cloudflare://accounts/{account_id}/d1/{database_id}/schema',
+      'cloudflare://accounts/{account_id}/workers/{script}',
+      'cloudflare://zones/{zone_id}',
+      'cloudflare://zones/{zone_id}/dns',
+    ]);
+
+    const { resources } = await harness.client.listResources();
+    expect(resources.map((resource) => resource.uri).sort()).toEqual([
+      `cloudflare://accounts/${account}/d1/${FAKE_IDS.d1Database}/schema`,
+      `cloudflare://accounts/${account}/workers/${FAKE_IDS.workerScript}`,
+      `cloudflare://zones/${zone}`,
+      `cloudflare://zones/${zone}/dns`,
+    ]);
+  });
+
+  it('reads a zone by ID or name, with its settings', async () => {
+    harness = await createHarness();
+
+    const byId = await read(`cloudflare://zones/${zone}`);
+    expect(byId.mimeType).toBe('application/json');
+    expect(JSON.parse(byId.text)).toMatchObject({ id: zone, name: FAKE_IDS.zoneName });
+    expect(Array.isArray(JSON.parse(byId.text).settings)).toBe(true);
+
+    const byName = await read(`cloudflare://zones/${FAKE_IDS.zoneName}`);
+    expect(JSON.parse(byName.text)).toMatchObject({ id: zone });
+  });
+
+  it("reads a zone's DNS records", async () => {
+    harness = await createHarness();
+    await harness.call('cloudflare_create_dns_record', {
+      zone_id: zone,
+      type: 'A',
+      name: 'www.example.com',
+      content: '192.0.2.1',
+    });
+
+    const { text } = await read(`cloudflare://zones/${zone}/dns`);
+    expect(JSON.parse(text)).toMatchObject({
+      items: expect.arrayContaining([expect.objectContaining({ name: 'www.example.com' })]),
+    });
+  });
+
+  it("reads a Worker script's source", async () => {
+    harness = await createHarness();
+
+    const resource = await read(
+      `cloudflare://accounts/${account}/workers/${FAKE_IDS.workerScript}`
+    );
+    expect(resource.mimeType).toBe('application/javascript');
+    expect(resource.text).toContain("new Response('Hello')");
+  });
+
+  it("reads a D1 database's schema", async () => {
+    const queries: string[] = [];
+    const fake = new FakeCloudflareApi({
+      d1Query: (sql) => {
+        queries.push(sql);
+        return [
+          { sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT)' },
+          { sql: 'CREATE INDEX users_email ON users (email)' },
+        ];
+      },
+    });
+    harness = await createHarness({ fake });
+
+    const resource = await read(
+      `cloudflare://accounts/${account}/d1/${FAKE_IDS.d1Database}/schema`
+    );
+    expect(resource.mimeType).toBe('application/sql');
+    expect(resource.text).toBe(
+      'CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT);\n\n' +
+        'CREATE INDEX users_email ON users (email);'
+    );
+    expect(queries[0]).toContain('sqlite_master');
+  });
+
+  it('reads D1 schemas in dry-run mode', async () => {
+    const fake = new FakeCloudflareApi({
+      d1Query: () => [{ sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY)' }],
+    });
+    harness = await createHarness({ fake, clientOptions: { dryRun: true } });
+
+    const resource = await read(
+      `cloudflare://accounts/${account}/d1/${FAKE_IDS.d1Database}/schema`
+    );
+    expect(resource.text).toBe('CREATE TABLE users (id INTEGER PRIMARY KEY);');
+
+    // Other queries are still previewed
+    const result = await harness.call('cloudflare_query_d1_database', {
+      account_id: account,
+      database_id: FAKE_IDS.d1Database,
+      sql: 'DELETE FROM users',
+    });
+    expect(result.json()).toMatchObject({ dry_run: true });
+  });
+
+  it('reports errors for resources that do not exist', async () => {
+    harness = await createHarness();
+
+    await expect(read(`cloudflare://accounts/${account}/workers/missing`)).rejects.toThrow();
+  });
+
+  it('registers only resources whose read tools the policies allow', async () => {
+    harness = await createHarness({
+      serverOptions: { toolPolicies: [{ deny: ['workers', 'cloudflare_list_dns_records'] }] },
+    });
+
+    const { resourceTemplates } = await harness.client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.name).sort()).toEqual([
+      'd1_schema',
+      'zone',
+    ]);
+  });
+});
+
+describe('prompts', () => {
+  let harness: Harness | undefined;
+
+  afterEach(async () => {
+    await harness?.close();
+    harness = undefined;
+  });
+
+  async function getPrompt(name: string, args: Record<string, string> = {}): Promise<string> {
+    const { messages } = await (harness as Harness).client.getPrompt({ name, arguments: args });
+    expect(messages).toHaveLength(1);
+    return (messages[0].content as { text: string }).text;
+  }
+
+  it('lists every workflow prompt', async () => {
+    harness = await createHarness();
+
+    const { prompts } = await harness.client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name).sort()).toEqual(Object.keys(PROMPT_TOOLS).sort());
+  });
+
+  it('names only registered tools', () => {
+    const catalogue = getToolCatalogue();
+    for (const [prompt, tools] of Object.entries(PROMPT_TOOLS)) {
+      for (const tool of tools) {
+        expect(catalogue.descriptor(tool), `${prompt}: ${tool}`).toBeDefined();
+      }
+    }
+  });
+
+  it('takes the categories and annotations of its tools from the registry', () => {
+    const catalogue = getToolCatalogue();
+
+    expect(catalogue.descriptor('cloudflare_delete_dns_record')).toEqual({
+      name: 'cloudflare_delete_dns_record',
+      category: 'dns',
+      annotations: DESTRUCTIVE_WRITE,
+    });
+    expect(catalogue.descriptor('cloudflare_create_zone')).toMatchObject({
+      annotations: ADDITIVE_WRITE,
+    });
+    expect(catalogue.descriptor('cloudflare_get_zone_analytics')).toMatchObject({
+      category: 'analytics',
+      annotations: READ_ONLY,
+    });
+    expect(catalogue.descriptor('cloudflare_no_such_tool')).toBeUndefined();
+  });
+
+  it('mentions every tool a prompt depends on', async () => {
+    const fake = new FakeCloudflareApi();
+    harness = await createHarness({ fake });
+    const args: Record<string, Record<string, string>> = {
+      onboard_domain: { domain: 'new.example' },
+    };
+
+    for (const [name, tools] of Object.entries(PROMPT_TOOLS)) {
+      const text = await getPrompt(name, args[name] ?? { zone_id: zone });
+      for (const tool of tools) {
+        expect(text, `${name}: ${tool}`).toContain(tool);
+      }
+    }
+  });
+
+  it('onboards a domain into the default account, noting zones that already exist', async () => {
+    harness = await createHarness();
+
+    const fresh = await getPrompt('onboard_domain', { domain: 'new.example' });
+    expect(fresh).toContain('new.example is not a zone yet');
+    expect(fresh).toContain(`account_id: "${account}"`);
+
+    const existing = await getPrompt('onboard_domain', { domain: FAKE_IDS.zoneName });
+    expect(existing).toContain(`is already a zone (ID ${zone}`);
+  });
+
+  it('compares zone settings with the hardened values', async () => {
+    harness = await createHarness();
+
+    const text = await getPrompt('harden_zone_security', { zone_id: FAKE_IDS.zoneName });
+    expect(text).toContain(`${FAKE_IDS.zoneName} (zone ${zone})`);
+    expect(text).toMatch(
+      /"setting": "min_tls_version",\s+"current": "1.0",\s+"recommended": "1.2"/
+    );
+  });
+
+  it('includes recent and baseline traffic for a spike', async () => {
+    harness = await createHarness();
+
+    const text = await getPrompt('investigate_traffic_spike', { zone_id: zone, since: '-60' });
+    expect(text).toContain('Traffic since -60');
+    expect(text).toContain('"all": 1200');
+    expect(text).toContain('security_level is "medium"');
+  });
+
+  it('includes the ssl mode when rotating the origin certificate', async () => {
+    harness = await createHarness();
+
+    const text = await getPrompt('rotate_origin_certificate', { zone_id: zone });
+    expect(text).toContain('cloudflare_get_zone_settings`) is "full"');
+    expect(text).toContain('no tool for issuing Origin CA certificates');
+  });
+
+  it('lists existing records and the zone file for a BIND migration', async () => {
+    harness = await createHarness();
+    await harness.call('cloudflare_create_dns_record', {
+      zone_id: zone,
+      type: 'A',
+      name: 'www.example.com',
+      content: '192.0.2.1',
+    });
+
+    const zoneFile = 'api.example.com. 300 IN A 192.0.2.2';
+    const text = await getPrompt('migrate_dns_from_bind', { zone_id: zone, zone_file: zoneFile });
+    expect(text).toContain('www.example.com A 192.0.2.1');
+    expect(text).toContain(zoneFile);
+
+    expect(await getPrompt('migrate_dns_from_bind', { zone_id: zone })).toContain(
+      'Ask me for the contents of the BIND zone file'
+    );
+  });
+
+  it('hides prompts whose tools the policies exclude', async () => {
+    harness = await createHarness({ serverOptions: { toolPolicies: [{ readOnly: true }] } });
+    expect(harness.client.getServerCapabilities()?.prompts).toBeUndefined();
+
+    await harness.close();
+    harness = await createHarness({ serverOptions: { toolPolicies: [{ deny: ['firewall'] }] } });
+    const { prompts } = await harness.client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name).sort()).toEqual([
+      'migrate_dns_from_bind',
+      'onboard_domain',
+      'rotate_origin_certificate',
+    ]);
+  });
+});
+
+describe('output limiting', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness({ serverOptions: { characterLimit: 60 } });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  function continuationToken(result: ToolResult): string | undefined {
+    return /continuation_token "([^"]+)"/.exec(result.text)?.[1];
+  }
+
+  it('pages oversized output through cloudflare_get_more', async () => {
+    const exported = await harness.fake.fetch(
+      `https://api.cloudflare.com/client/v4/zones/${zone}/dns_records/export`,
+      { headers: { Authorization: 'Bearer test-token' } }
+    );
+    const zonefile = await exported.text();
+    let result = await harness.call('cloudflare_export_dns_records', { zone_id: zone });
+    const chunks: string[] = [];
+
+    for (;;) {
+      chunks.push(result.text.slice(0, result.text.lastIndexOf('\n[')));
+      const token = continuationToken(result);
+      if (!token) break;
+      result = await harness.call('cloudflare_get_more', { continuation_token: token });
+      expect(result.isError).toBe(false);
+    }
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(zonefile);
+    expect(result.text).toContain('[End of output:');
+  });
+
+  it('leaves output under the limit untouched', async () => {
+    const result = await harness.call('cloudflare_get_kv_value', {
+      account_id: account,
+      namespace_id: FAKE_IDS.kvNamespace,
+      key: 'config',
+    });
+    expect(result.text).toBe('enabled');
+  });
+
+  it('reports unknown continuation tokens', async () => {
+    const result = await harness.call('cloudflare_get_more', {
+      continuation_token: '00000000-0000-0000-0000-000000000000.10',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('invalid or has expired');
+  });
+});
+
+describe('page size limits', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness({
+      serverOptions: { pageSize: { defaultPerPage: 2, maxPerPage: 5 } },
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('uses the configured default page size', async () => {
+    const result = await harness.call('cloudflare_list_dns_records', { zone_id: zone });
+
+    expect(result.json()).toMatchObject({ count: 2, hasMore: true });
+    expect(harness.fake.requests[0].query.get('per_page')).toBe('2');
+  });
+
+  it('advertises and enforces the configured maximum', async () => {
+    const { tools } = await harness.client.listTools();
+    const listZones = tools.find((tool) => tool.name === 'cloudflare_list_zones');
+    expect(listZones?.inputSchema.properties?.per_page).toMatchObject({ maximum: 5, default: 2 });
+    expect(listZones?.description).toContain('per_page: Results per page (1-5, default: 2)');
+
+    const result = await harness.call('cloudflare_list_zones', { per_page: 6 });
+    expect(result.isError).toBe(true);
+    expect(harness.fake.requests).toHaveLength(0);
+  });
+
+  it('fetches all pages at the configured maximum', async () => {
+    await harness.call('cloudflare_list_dns_records', { zone_id: zone, all: true });
+    expect(harness.fake.requests.map((r) => r.query.get('per_page'))).toEqual(['5']);
+  });
+});
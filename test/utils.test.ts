@@ -0,0 +1,303 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { diffValues } from '../src/utils/dry-run.js';
+import { RateLimitError } from '../src/utils/errors.js';
+import { formatErrorResponse, formatResponse } from '../src/utils/formatters.js';
+import { limitOutput, type OutputOptions, readContinuation } from '../src/utils/output.js';
+import {
+  buildPaginationQuery,
+  collectAll,
+  createPaginatedResponse,
+  normalizePaginationParams,
+  paginate,
+  resolvePageSizeLimits,
+} from '../src/utils/pagination.js';
+import { TokenBucketRateLimiter } from '../src/utils/rate-limit.js';
+import { computeRetryDelay, parseRetryAfter, RETRY_DEFAULTS } from '../src/utils/retry.js';
+import { MemoryKeyValueStore } from '../src/utils/store.js';
+
+describe('formatResponse', () => {
+  const page = {
+    items: [{ id: 'z1', name: 'example.com', status: 'active', type: 'full' }],
+    count: 1,
+    hasMore: false,
+  };
+
+  it('renders JSON by default', async () => {
+    const response = await formatResponse(page, 'json', 'zones');
+    expect(JSON.parse(response.content[0].text)).toEqual(page);
+    expect(response.isError).toBeUndefined();
+  });
+
+  it('renders paginated markdown tables', async () => {
+    const text = (await formatResponse(page, 'markdown', 'zones')).content[0].text;
+    expect(text).toContain('## Zones');
+    expect(text).toContain('| z1 | example.com | active | - | full |');
+  });
+
+  it('notes when more pages are available', async () => {
+    const response = await formatResponse({ ...page, hasMore: true, page: 1 }, 'markdown', 'zones');
+    const text = response.content[0].text;
+    expect(text).toContain('**More available:** Yes (page 1)');
+  });
+});
+
+describe('formatErrorResponse', () => {
+  it('flags retryable API errors', () => {
+    const response = formatErrorResponse(new RateLimitError('Rate limit exceeded', 30));
+    expect(response.isError).toBe(true);
+    expect(JSON.parse(response.content[0].text)).toMatchObject({
+      error: 'Error: Rate limit exceeded (retryable)',
+      details: { retryAfterSeconds: 30 },
+    });
+  });
+
+  it('handles non-Error values', () => {
+    const response = formatErrorResponse('boom');
+    expect(JSON.parse(response.content[0].text)).toEqual({
+      error: 'Error: boom',
+      details: { error: 'boom' },
+    });
+  });
+});
+
+describe('pagination', () => {
+  it('clamps per_page to the maximum', () => {
+    expect(normalizePaginationParams({ page: 3, per_page: 500 })).toEqual({
+      page: 3,
+      per_page: 100,
+    });
+    expect(buildPaginationQuery().toString()).toBe('page=1&per_page=20');
+  });
+
+  it('applies operator-configured page sizes', () => {
+    const limits = resolvePageSizeLimits({ defaultPerPage: 50, maxPerPage: 500 });
+    expect(normalizePaginationParams({}, limits)).toEqual({ page: 1, per_page: 50 });
+    expect(normalizePaginationParams({ per_page: 1000 }, limits).per_page).toBe(500);
+  });
+
+  it('keeps the default page size within the maximum', () => {
+    expect(resolvePageSizeLimits({ defaultPerPage: 50, maxPerPage: 10 })).toEqual({
+      defaultPerPage: 10,
+      maxPerPage: 10,
+    });
+    expect(resolvePageSizeLimits({ maxPerPage: 0 })).toEqual({ defaultPerPage: 1, maxPerPage: 1 });
+  });
+
+  it('derives hasMore from result_info', () => {
+    const info = { page: 1, per_page: 2, count: 2, total_count: 5, total_pages: 3 };
+    expect(createPaginatedResponse(['a', 'b'], info)).toMatchObject({
+      count: 2,
+      total: 5,
+      hasMore: true,
+      totalPages: 3,
+    });
+    expect(createPaginatedResponse(['a'], { ...info, page: 3 }).hasMore).toBe(false);
+    expect(createPaginatedResponse(['a'])).toEqual({ items: ['a'], count: 1, hasMore: false });
+  });
+});
+
+describe('collectAll', () => {
+  async function fetchPage(page: number, total: number, size: number) {
+    const items = Array.from({ length: Math.min(size, total - (page - 1) * size) }, (_, i) => ({
+      id: (page - 1) * size + i,
+    }));
+    return { items, count: items.length, hasMore: page * size < total };
+  }
+  const pages = (total: number, size: number) => paginate((page) => fetchPage(page, total, size));
+
+  it('drains every page', async () => {
+    const result = await collectAll(pages(25, 10));
+    expect(result).toMatchObject({ count: 25, hasMore: false });
+    expect(result.items.at(-1)).toEqual({ id: 24 });
+  });
+
+  it('stops at maxItems', async () => {
+    expect(await collectAll(pages(25, 10), 10)).toMatchObject({
+      count: 10,
+      hasMore: true,
+      nextPage: 2,
+    });
+  });
+
+  it('stops between pages, with the page to carry on from', async () => {
+    const result = await collectAll(pages(25, 10), 15);
+    expect(result).toMatchObject({ count: 10, hasMore: true, nextPage: 2 });
+
+    const rest = await collectAll(
+      paginate((page) => fetchPage(page, 25, 10), 2),
+      15
+    );
+    expect(rest.items[0]).toEqual({ id: 10 });
+  });
+
+  it('stops before exceeding the character limit', async () => {
+    const result = await collectAll(pages(25, 2), 1000, 100);
+    expect(result).toMatchObject({ count: 2, hasMore: true, nextPage: 2 });
+    expect(JSON.stringify(result.items, null, 2).length).toBeLessThanOrEqual(100);
+  });
+
+  it('keeps the first page whole', async () => {
+    expect(await collectAll(pages(25, 10), 1000, 100)).toMatchObject({
+      count: 10,
+      hasMore: true,
+      nextPage: 2,
+    });
+  });
+
+  it('carries on from a cursor', async () => {
+    async function* keys() {
+      yield { items: ['a', 'b'], cursor: 'c1' };
+      yield { items: ['c', 'd'], cursor: 'c2' };
+      yield { items: ['e'] };
+    }
+    expect(await collectAll(keys(), 3)).toMatchObject({ count: 2, hasMore: true, cursor: 'c1' });
+    expect(await collectAll(keys())).toEqual({
+      items: ['a', 'b', 'c', 'd', 'e'],
+      count: 5,
+      hasMore: false,
+    });
+  });
+});
+
+describe('output limiting', () => {
+  const text = Array.from({ length: 100 }, (_, i) => `line ${String(i).padStart(3, '0')}`).join(
+    '\n'
+  );
+  const options = (scope = 'tenant-a'): OutputOptions => ({
+    characterLimit: 100,
+    store,
+    scope,
+  });
+  let store: MemoryKeyValueStore;
+
+  beforeEach(() => {
+    store = new MemoryKeyValueStore();
+  });
+
+  it('passes short output through without storing it', async () => {
+    const chunk = await limitOutput('short', options());
+    expect(chunk).toEqual({ text: 'short', offset: 0, totalLength: 5 });
+  });
+
+  it('splits on line boundaries and reassembles through continuation tokens', async () => {
+    let chunk = await limitOutput(text, options());
+    const chunks = [chunk.text];
+    while (chunk.continuationToken) {
+      const next = await readContinuation(chunk.continuationToken, options());
+      if (!next) throw new Error('continuation missing');
+      chunk = next;
+      chunks.push(chunk.text);
+    }
+
+    expect(chunks.join('')).toBe(text);
+    expect(chunks.every((part) => part.length <= 100)).toBe(true);
+    expect(chunks.slice(0, -1).every((part) => part.endsWith('\n'))).toBe(true);
+  });
+
+  it('does not resolve tokens for another tenant', async () => {
+    const { continuationToken } = await limitOutput(text, options());
+    expect(continuationToken).toBeDefined();
+    expect(await readContinuation(continuationToken ?? '', options('tenant-b'))).toBeUndefined();
+  });
+
+  it('rejects malformed tokens', async () => {
+    expect(await readContinuation('../etc/passwd', options())).toBeUndefined();
+  });
+});
+
+describe('TokenBucketRateLimiter', () => {
+  let store: MemoryKeyValueStore;
+
+  beforeEach(() => {
+    store = new MemoryKeyValueStore();
+  });
+
+  it('shares one budget per tenant through the store', async () => {
+    const options = { capacity: 2, maxWaitMs: 0 };
+    const first = new TokenBucketRateLimiter(store, 'tenant-a', options);
+    const second = new TokenBucketRateLimiter(store, 'tenant-a', options);
+    const other = new TokenBucketRateLimiter(store, 'tenant-b', options);
+
+    expect(await first.acquire()).toMatchObject({ limit: 2, remaining: 1 });
+    expect(await second.acquire()).toMatchObject({ remaining: 0 });
+    await expect(first.acquire()).rejects.toMatchObject({
+      name: 'RateLimitError',
+      retryAfterSeconds: 150,
+      retryable: false,
+    });
+    expect(await other.acquire()).toMatchObject({ remaining: 1 });
+  });
+
+  it('queues calls until the bucket refills', async () => {
+    const limiter = new TokenBucketRateLimiter(store, 'tenant-a', {
+      capacity: 1,
+      windowSeconds: 0.05,
+      maxWaitMs: 1000,
+    });
+    await limiter.acquire();
+
+    const started = Date.now();
+    await limiter.acquire();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+  });
+
+  it('stops queueing when the signal aborts', async () => {
+    const limiter = new TokenBucketRateLimiter(store, 'tenant-a', {
+      capacity: 1,
+      windowSeconds: 1,
+    });
+    await limiter.drain();
+
+    await expect(limiter.acquire(AbortSignal.timeout(10))).rejects.toMatchObject({
+      name: 'CancelledError',
+    });
+  });
+});
+
+describe('diffValues', () => {
+  it('reports changed, added and removed fields by JSON pointer', () => {
+    const before = { ttl: 1, proxied: false, meta: { 'a/b': 1 }, tags: ['x'] };
+    const after = { ttl: 1, proxied: true, meta: {}, tags: ['x', 'y'], comment: 'new' };
+
+    expect(diffValues(before, after)).toEqual([
+      { path: '/proxied', before: false, after: true },
+      { path: '/meta/a~1b', before: 1, after: undefined },
+      { path: '/tags', before: ['x'], after: ['x', 'y'] },
+      { path: '/comment', before: undefined, after: 'new' },
+    ]);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates, and ignores anything else', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('12', now)).toBe(12);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('honours Retry-After up to the cap', () => {
+    expect(computeRetryDelay(new RateLimitError('slow down', 2), 0, RETRY_DEFAULTS)).toBe(2000);
+    expect(computeRetryDelay(new RateLimitError('slow down', 60), 0, RETRY_DEFAULTS)).toBe(
+      RETRY_DEFAULTS.maxDelayMs
+    );
+  });
+
+  it('backs off when a rate limit has no Retry-After', () => {
+    const delay = computeRetryDelay(new RateLimitError('slow down'), 2, RETRY_DEFAULTS);
+    expect(delay).toBeGreaterThanOrEqual(0);
+    expect(delay).toBeLessThan(500 * 2 ** 2);
+  });
+
+  it('keeps backoff within the exponential ceiling', () => {
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const delay = computeRetryDelay(new Error('network'), attempt, RETRY_DEFAULTS);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(Math.min(RETRY_DEFAULTS.maxDelayMs, 500 * 2 ** attempt));
+    }
+  });
+});
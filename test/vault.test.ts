@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { CredentialVault, type CredentialVaultOptions } from '../src/auth/vault.js';
+import { verifyTenantCredentials } from '../src/server.js';
+import { FakeCloudflareApi } from '../src/testing/fake-api.js';
+import { parseTenantCredentials } from '../src/types/env.js';
+import { MemoryKeyValueStore } from '../src/utils/store.js';
+
+const ORIGIN = 'https://mcp.test';
+const ADMIN_TOKEN = 'admin-secret';
+
+function createVault(options: Partial<CredentialVaultOptions> = {}): CredentialVault {
+  return new CredentialVault({
+    store: new MemoryKeyValueStore(),
+    secret: 'vault-key',
+    adminToken: ADMIN_TOKEN,
+    ...options,
+  });
+}
+
+async function send(
+  vault: CredentialVault,
+  method: string,
+  path: string,
+  options: { body?: unknown; admin?: boolean } = {}
+): Promise<Response> {
+  const headers: Record<string, string> = {};
+  if (options.admin !== false) {
+    headers.Authorization = `Bearer ${ADMIN_TOKEN}`;
+  }
+  const response = await vault.handle(
+    new Request(`${ORIGIN}${path}`, {
+      method,
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    })
+  );
+  if (!response) throw new Error(`No vault route for ${path}`);
+  return response;
+}
+
+function withTenantKey(tenantKey: string, headers: Record<string, string> = {}): Request {
+  return new Request(`${ORIGIN}/mcp`, {
+    method: 'POST',
+    headers: { 'X-CF-Tenant-Key': tenantKey, ...headers },
+  });
+}
+
+describe('credential vault', () => {
+  it('resolves tenant keys to the registered credentials', async () => {
+    const vault = createVault();
+    const { tenantId, tenantKey } = await vault.register({ apiToken: 'cf-token' });
+
+    expect(tenantKey.startsWith(`${tenantId}.`)).toBe(true);
+    expect(await vault.resolve(tenantKey)).toEqual({ apiToken: 'cf-token' });
+    expect(await vault.resolve(`${tenantId}.wrong-secret`)).toBeUndefined();
+    expect(await vault.resolve('not-a-key')).toBeUndefined();
+  });
+
+  it('stores credentials encrypted', async () => {
+    const store = new MemoryKeyValueStore();
+    const vault = createVault({ store });
+    const { tenantId, tenantKey } = await vault.register({ apiToken: 'cf-token' });
+
+    const stored = (await store.get(`vault:tenant:${tenantId}`)) ?? '';
+    expect(stored).not.toContain('cf-token');
+    expect(stored).not.toContain(tenantKey.split('.')[1]);
+
+    // Another VAULT_KEY can't read it
+    await expect(createVault({ store, secret: 'other-key' }).resolve(tenantKey)).rejects.toThrow(
+      "can't be decrypted"
+    );
+  });
+
+  it('reports records the key cannot decrypt as unavailable', async () => {
+    const store = new MemoryKeyValueStore();
+    const { tenantId, tenantKey } = await createVault({ store }).register({ apiToken: 'cf-token' });
+    const rekeyed = createVault({ store, secret: 'other-key' });
+
+    await expect(rekeyed.resolve(tenantKey)).rejects.toMatchObject({
+      name: 'VaultRequestError',
+      status: 503,
+    });
+    const response = await send(rekeyed, 'GET', `/admin/tenants/${tenantId}`);
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({
+      error: 'Service Unavailable',
+      message: expect.stringContaining('VAULT_PREVIOUS_KEY'),
+    });
+  });
+
+  it('re-encrypts records under a new key while the previous key is configured', async () => {
+    const store = new MemoryKeyValueStore();
+    const { tenantKey } = await createVault({ store, secret: 'old-key' }).register({
+      apiToken: 'cf-token',
+    });
+
+    const rotated = createVault({ store, secret: 'new-key', previousSecret: 'old-key' });
+    expect(await rotated.resolve(tenantKey)).toEqual({ apiToken: 'cf-token' });
+
+    // Reading it moved the record to the new key
+    expect(await createVault({ store, secret: 'new-key' }).resolve(tenantKey)).toEqual({
+      apiToken: 'cf-token',
+    });
+  });
+
+  it('resolves X-CF-Tenant-Key in parseTenantCredentials', async () => {
+    const vault = createVault();
+    const { tenantKey } = await vault.register({ apiToken: 'cf-token' });
+
+    expect(
+      await parseTenantCredentials(withTenantKey(tenantKey, { 'X-CF-Account-ID': 'acct' }), vault)
+    ).toEqual({ apiToken: 'cf-token', accountId: 'acct' });
+    await expect(parseTenantCredentials(withTenantKey('x.y'), vault)).rejects.toThrow(
+      'Tenant key is invalid or revoked.'
+    );
+    await expect(parseTenantCredentials(withTenantKey(tenantKey))).rejects.toThrow(
+      'no credential vault'
+    );
+  });
+
+  it('registers tenants over HTTP after checking the credentials with Cloudflare', async () => {
+    const fake = new FakeCloudflareApi({ apiToken: 'cf-token' });
+    const vault = createVault({
+      verify: (credentials) => verifyTenantCredentials(credentials, { fetch: fake.fetch }),
+    });
+
+    const rejected = await send(vault, 'POST', '/tenants', {
+      body: { apiToken: 'bad-token' },
+      admin: false,
+    });
+    expect(rejected.status).toBe(400);
+    expect(await rejected.json()).toMatchObject({ error: 'Bad Request' });
+
+    const response = await send(vault, 'POST', '/tenants', {
+      body: { apiToken: 'cf-token', accountId: 'acct' },
+      admin: false,
+    });
+    expect(response.status).toBe(201);
+    const { tenant_key } = (await response.json()) as { tenant_key: string };
+    expect(await vault.resolve(tenant_key)).toEqual({ apiToken: 'cf-token', accountId: 'acct' });
+  });
+
+  it('rejects registrations without credentials', async () => {
+    const response = await send(createVault(), 'POST', '/tenants', {
+      body: { email: 'user@example.com' },
+      admin: false,
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('requires the admin token on admin endpoints', async () => {
+    const vault = createVault();
+    const { tenantId } = await vault.register({ apiToken: 'cf-token' });
+
+    expect((await send(vault, 'GET', `/admin/tenants/${tenantId}`, { admin: false })).status).toBe(
+      401
+    );
+    const disabled = createVault({ adminToken: undefined });
+    expect((await send(disabled, 'GET', `/admin/tenants/${tenantId}`)).status).toBe(403);
+
+    const shown = await send(vault, 'GET', `/admin/tenants/${tenantId}`);
+    expect(await shown.json()).toMatchObject({
+      tenant_id: tenantId,
+      auth: 'api_token',
+      account_id: null,
+      rotated_at: null,
+    });
+  });
+
+  it('rotates tenant keys', async () => {
+    const vault = createVault();
+    const { tenantId, tenantKey } = await vault.register({ apiToken: 'cf-token' });
+
+    const response = await send(vault, 'POST', `/admin/tenants/${tenantId}/rotate`);
+    expect(response.status).toBe(200);
+    const rotated = (await response.json()) as { tenant_key: string; rotated_at: string };
+    expect(await vault.resolve(tenantKey)).toBeUndefined();
+    expect(await vault.resolve(rotated.tenant_key)).toEqual({ apiToken: 'cf-token' });
+
+    // New credentials replace the stored ones
+    const replaced = await send(vault, 'POST', `/admin/tenants/${tenantId}/rotate`, {
+      body: { apiToken: 'new-token' },
+    });
+    const { tenant_key } = (await replaced.json()) as { tenant_key: string };
+    expect(await vault.resolve(tenant_key)).toEqual({ apiToken: 'new-token' });
+  });
+
+  it('revokes tenants', async () => {
+    const vault = createVault();
+    const { tenantId, tenantKey } = await vault.register({ apiToken: 'cf-token' });
+
+    const response = await send(vault, 'DELETE', `/admin/tenants/${tenantId}`);
+    expect(await response.json()).toEqual({ tenant_id: tenantId, revoked: true });
+    expect(await vault.resolve(tenantKey)).toBeUndefined();
+    expect((await send(vault, 'DELETE', `/admin/tenants/${tenantId}`)).status).toBe(404);
+  });
+
+  it('leaves other paths to the MCP endpoints', async () => {
+    expect(await createVault().handle(new Request(`${ORIGIN}/mcp`))).toBeUndefined();
+  });
+});